@@ -0,0 +1,159 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { Area, CartesianGrid, ComposedChart, Line, XAxis, YAxis } from "recharts";
+import { FlaskConical, Loader2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { BacktestDay, BacktestResult, GoalRule } from "@/hooks/useGoalTracking";
+
+const RANGES = [
+  { label: '30d', days: 30 },
+  { label: '90d', days: 90 },
+  { label: '180d', days: 180 },
+];
+
+const STATUS_COLORS: Record<BacktestDay['status'], string> = {
+  completed: 'bg-green-500',
+  on_track: 'bg-blue-500',
+  at_risk: 'bg-amber-500',
+  off_track: 'bg-red-500',
+};
+
+const chartConfig = {
+  completions: { label: 'Completions', color: 'hsl(var(--primary))' },
+  required: { label: 'Required', color: 'hsl(var(--muted-foreground))' },
+} satisfies ChartConfig;
+
+export type BacktestDraft = Omit<GoalRule, 'id' | 'created_at' | 'updated_at'> & { id?: string };
+
+interface BacktestPreviewProps {
+  draft: BacktestDraft;
+  disabled?: boolean;
+  onBacktest: (rule: BacktestDraft, days: number) => Promise<BacktestResult>;
+}
+
+// Replays the rule being edited over past events so its settings can be tried before saving
+export function BacktestPreview({ draft, disabled, onBacktest }: BacktestPreviewProps) {
+  const [rangeDays, setRangeDays] = useState(RANGES[0].days);
+  const [result, setResult] = useState<BacktestResult | null>(null);
+  const [ranFor, setRanFor] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+
+  const draftKey = JSON.stringify(draft);
+  const isStale = result !== null && ranFor !== draftKey;
+
+  const runBacktest = async (days: number) => {
+    setRangeDays(days);
+    setIsRunning(true);
+    setError(null);
+    try {
+      setResult(await onBacktest(draft, days));
+      setRanFor(draftKey);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Backtest failed');
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const chartData = (result?.days || []).map(day => ({
+    date: day.date,
+    completions: day.completions_in_window,
+    required: day.required_in_window,
+  }));
+
+  const formatDate = (date: string) =>
+    new Date(`${date}T00:00:00Z`).toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' });
+
+  return (
+    <div className="space-y-3 border-t border-border pt-3">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-medium flex items-center gap-2">
+          <FlaskConical className="h-4 w-4" />
+          Backtest
+        </span>
+        <div className="flex gap-1">
+          {RANGES.map(range => (
+            <Button
+              key={range.label}
+              type="button"
+              variant={result && rangeDays === range.days ? 'secondary' : 'ghost'}
+              size="sm"
+              className="h-6 px-2 text-xs"
+              disabled={disabled || isRunning}
+              onClick={() => runBacktest(range.days)}
+            >
+              {isRunning && rangeDays === range.days ? <Loader2 className="h-3 w-3 animate-spin" /> : range.label}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      {error && <p className="text-xs text-destructive">{error}</p>}
+
+      {!result ? (
+        <p className="text-xs text-muted-foreground">
+          Replay this rule over past events to see how it would have gone. Nothing is saved.
+        </p>
+      ) : (
+        <div className={cn("space-y-3", isStale && "opacity-60")}>
+          {isStale && (
+            <p className="text-xs text-muted-foreground">The rule has changed since this run.</p>
+          )}
+
+          <ChartContainer config={chartConfig} className="aspect-auto h-32 w-full">
+            <ComposedChart data={chartData} margin={{ top: 8, right: 8, bottom: 0, left: -24 }}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="date" tickFormatter={formatDate} tickLine={false} axisLine={false} minTickGap={24} />
+              <YAxis allowDecimals={false} tickLine={false} axisLine={false} />
+              <ChartTooltip content={<ChartTooltipContent labelFormatter={(value) => formatDate(String(value))} />} />
+              <Area
+                type="stepAfter"
+                dataKey="completions"
+                stroke="var(--color-completions)"
+                fill="var(--color-completions)"
+                fillOpacity={0.15}
+              />
+              <Line type="stepAfter" dataKey="required" stroke="var(--color-required)" strokeDasharray="4 4" dot={false} />
+            </ComposedChart>
+          </ChartContainer>
+
+          {/* Status at the end of each day */}
+          <div className="flex gap-px">
+            {result.days.map(day => (
+              <div
+                key={day.date}
+                title={`${formatDate(day.date)}: ${day.status.replace(/_/g, ' ')}`}
+                className={cn("h-2 flex-1 rounded-sm", STATUS_COLORS[day.status])}
+              />
+            ))}
+          </div>
+
+          <div className="grid grid-cols-2 gap-2 text-xs">
+            <div>
+              <span className="text-muted-foreground">Completions </span>
+              <span className="font-mono">{result.total_completions}</span>
+            </div>
+            <div>
+              <span className="text-muted-foreground">Days completed </span>
+              <span className="font-mono">{result.status_days.completed}/{result.days.length}</span>
+            </div>
+          </div>
+
+          {result.failure_reasons.length > 0 && (
+            <div className="space-y-1 text-xs">
+              <span className="text-muted-foreground">Most common failures</span>
+              {result.failure_reasons.slice(0, 3).map(failure => (
+                <div key={failure.reason} className="flex justify-between gap-2">
+                  <span className="truncate" title={failure.reason}>{failure.reason}</span>
+                  <span className="font-mono text-muted-foreground shrink-0">{failure.days}d</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -14,21 +14,44 @@ import {
   Calendar,
   TrendingUp,
   TrendingDown,
-  Minus
+  Minus,
+  DoorOpen,
+  DoorClosed,
+  GitMerge,
+  ShieldAlert,
+  BarChart3,
+  Flame,
+  PauseCircle,
+  Trash2
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { supabase } from "@/integrations/supabase/client";
-import type { GoalWithEvaluation, DecisionImpact, NormalizedEvent, SequenceConfig, CountConfig, PendingWindow } from "@/hooks/useGoalTracking";
+import { formatEventFilters, getLocalDate } from "@shared/goal-engine";
+import { GoalHistory } from "./GoalHistory";
+import { GoalVersionHistory } from "./GoalVersionHistory";
+import { GoalExplanation } from "./GoalExplanation";
+import type { RuleExplanation, GoalWithEvaluation, DecisionImpact, NormalizedEvent, SequenceConfig, CountConfig, GateConfig, CompoundConfig, AvoidanceConfig, AggregateConfig, AggregateDay, CompoundChildStatus, GoalPause, PendingWindow, RuleVersion } from "@/hooks/useGoalTracking";
+
+const formatDay = (date: string) =>
+  new Date(`${date}T00:00:00Z`).toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' });
 
 interface GoalDetailProps {
   goal: GoalWithEvaluation;
   onBack: () => void;
+  timeZone: string;
+  // Pauses of this goal and of every goal
+  pauses?: GoalPause[];
+  onPause?: () => void;
+  onEndPause?: (pause: GoalPause) => void;
+  onDeletePause?: (id: string) => void;
+  onExplain?: (ruleId: string) => Promise<RuleExplanation>;
 }
 
-export function GoalDetail({ goal, onBack }: GoalDetailProps) {
-  const { rule, evaluation } = goal;
+export function GoalDetail({ goal, onBack, timeZone, pauses = [], onPause, onEndPause, onDeletePause, onExplain }: GoalDetailProps) {
+  const { rule, evaluation, streak } = goal;
   const [impacts, setImpacts] = useState<DecisionImpact[]>([]);
   const [relatedEvents, setRelatedEvents] = useState<NormalizedEvent[]>([]);
+  const [versions, setVersions] = useState<RuleVersion[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   
   const status = evaluation?.status || 'off_track';
@@ -36,6 +59,11 @@ export function GoalDetail({ goal, onBack }: GoalDetailProps) {
   const required = evaluation?.required_in_window || rule.required_completions;
   const progress = required > 0 ? (completions / required) * 100 : 0;
   const pendingWindows = (evaluation?.pending_windows || []) as PendingWindow[];
+  const childStatuses = (evaluation?.details?.children || []) as CompoundChildStatus[];
+  const streakUnit = streak.unit === 'week' ? 'wk' : 'd';
+  const aggregateDays = rule.rule_type === 'aggregate'
+    ? (evaluation?.details?.days || []) as AggregateDay[]
+    : [];
   
   const statusConfig = {
     completed: { 
@@ -66,6 +94,7 @@ export function GoalDetail({ goal, onBack }: GoalDetailProps) {
   
   const config = statusConfig[status];
   const StatusIcon = config.icon;
+  const today = getLocalDate(new Date(), timeZone);
 
   // Fetch related data
   useEffect(() => {
@@ -104,6 +133,20 @@ export function GoalDetail({ goal, onBack }: GoalDetailProps) {
     fetchData();
   }, [rule.id]);
 
+  // Refetch versions when the rule is edited
+  useEffect(() => {
+    const fetchVersions = async () => {
+      const { data } = await supabase
+        .from('goal_rule_versions')
+        .select('*')
+        .eq('goal_rule_id', rule.id)
+        .order('version', { ascending: true });
+      setVersions((data || []) as unknown as RuleVersion[]);
+    };
+
+    fetchVersions();
+  }, [rule.id, rule.version]);
+
   const formatTime = (isoString: string) => {
     const date = new Date(isoString);
     return date.toLocaleString('en-US', { 
@@ -123,14 +166,36 @@ export function GoalDetail({ goal, onBack }: GoalDetailProps) {
     return `${minutes}m remaining`;
   };
 
+  const windowLabel = {
+    rolling: `in the last ${rule.rolling_window_days} days`,
+    calendar_day: 'today',
+    iso_week: 'this week',
+    calendar_month: 'this month',
+  }[rule.window_type || 'rolling'];
+
   const renderRuleDescription = () => {
     if (rule.rule_type === 'sequence') {
       const config = rule.rule_config as SequenceConfig;
       return (
         <div className="text-sm text-muted-foreground">
-          <span className="font-medium text-foreground">{config.events[0]?.name}</span>
-          {' → '}
-          <span className="font-medium text-foreground">{config.events[1]?.name}</span>
+          {config.events.map((step, i) => (
+            <span key={i}>
+              {i > 0 && (
+                <>
+                  {' → '}
+                  {(step.min_hours !== undefined || step.max_hours !== undefined) && (
+                    <span className="font-mono text-xs">
+                      ({step.min_hours ?? config.min_hours}..{step.max_hours ?? config.max_hours}h){' '}
+                    </span>
+                  )}
+                </>
+              )}
+              <span className="font-medium text-foreground">{step.name}</span>
+              {formatEventFilters(step) && (
+                <span className="font-mono text-xs"> [{formatEventFilters(step)}]</span>
+              )}
+            </span>
+          ))}
           {' within '}
           <span className="font-mono">{config.min_hours}..{config.max_hours}h</span>
         </div>
@@ -144,9 +209,80 @@ export function GoalDetail({ goal, onBack }: GoalDetailProps) {
           <span className="font-mono">{config.required_count}x</span>
           {' '}
           <span className="font-medium text-foreground">{config.event_pattern.name}</span>
-          {' in '}
-          <span className="font-mono">{config.rolling_days}</span>
-          {' days'}
+          {formatEventFilters(config.event_pattern) && (
+            <span className="font-mono text-xs"> [{formatEventFilters(config.event_pattern)}]</span>
+          )}
+          {' '}
+          {rule.window_type && rule.window_type !== 'rolling'
+            ? windowLabel
+            : <>{'in '}<span className="font-mono">{config.rolling_days}</span>{' days'}</>}
+        </div>
+      );
+    }
+    
+    if (rule.rule_type === 'gate') {
+      const { condition } = rule.rule_config as GateConfig;
+      return (
+        <div className="text-sm text-muted-foreground">
+          {'Only counts after '}
+          <span className="font-medium text-foreground">{condition.event_name}</span>
+          {condition.min_magnitude !== undefined && (
+            <span className="font-mono"> ≥{condition.min_magnitude}</span>
+          )}
+          {(condition.min_hours_ago !== undefined || condition.max_hours_ago !== undefined) && (
+            <>
+              {' within '}
+              <span className="font-mono">{condition.min_hours_ago ?? 0}..{condition.max_hours_ago ?? '∞'}h</span>
+              {' before'}
+            </>
+          )}
+        </div>
+      );
+    }
+    
+    if (rule.rule_type === 'avoidance') {
+      const config = rule.rule_config as AvoidanceConfig;
+      return (
+        <div className="text-sm text-muted-foreground">
+          {'No '}
+          <span className="font-medium text-foreground">{config.avoid.name}</span>
+          {formatEventFilters(config.avoid) && (
+            <span className="font-mono text-xs"> [{formatEventFilters(config.avoid)}]</span>
+          )}
+          {' within '}
+          <span className="font-mono">{config.hours}h</span>
+          {` ${config.direction} `}
+          <span className="font-medium text-foreground">{config.anchor.name}</span>
+          {formatEventFilters(config.anchor) && (
+            <span className="font-mono text-xs"> [{formatEventFilters(config.anchor)}]</span>
+          )}
+        </div>
+      );
+    }
+    
+    if (rule.rule_type === 'aggregate') {
+      const config = rule.rule_config as AggregateConfig;
+      return (
+        <div className="text-sm text-muted-foreground">
+          <span className="font-medium text-foreground">{config.trackable}</span>
+          {` daily ${config.aggregation} `}
+          <span className="font-mono">{config.operator === 'lte' ? '≤' : '≥'} {config.threshold}</span>
+          {' on '}
+          <span className="font-mono">{config.required_days}</span>
+          {' days '}
+          {windowLabel}
+        </div>
+      );
+    }
+    
+    if (rule.rule_type === 'compound') {
+      const config = rule.rule_config as CompoundConfig;
+      return (
+        <div className="text-sm text-muted-foreground">
+          <span className="font-medium text-foreground">{config.operator === 'OR' ? 'Any' : 'All'}</span>
+          {' of '}
+          <span className="font-mono">{config.child_rule_ids.length}</span>
+          {' rules'}
         </div>
       );
     }
@@ -162,6 +298,12 @@ export function GoalDetail({ goal, onBack }: GoalDetailProps) {
         return <TrendingDown className="h-4 w-4 text-red-500" />;
       case 'window_created':
         return <Minus className="h-4 w-4 text-blue-500" />;
+      case 'gate_opened':
+        return <DoorOpen className="h-4 w-4 text-green-500" />;
+      case 'gate_closed':
+        return <DoorClosed className="h-4 w-4 text-red-500" />;
+      case 'avoidance_violated':
+        return <ShieldAlert className="h-4 w-4 text-red-500" />;
       default:
         return <Minus className="h-4 w-4 text-muted-foreground" />;
     }
@@ -206,6 +348,175 @@ export function GoalDetail({ goal, onBack }: GoalDetailProps) {
         </CardContent>
       </Card>
 
+      {/* Streak */}
+      <Card>
+        <CardHeader className="pb-2">
+          <CardTitle className="text-sm flex items-center gap-2">
+            <Flame className="h-4 w-4" />
+            Streak
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <p className="text-2xl font-bold font-mono">{streak.current}{streakUnit}</p>
+              <p className="text-xs text-muted-foreground">Current</p>
+            </div>
+            <div>
+              <p className="text-2xl font-bold font-mono">{streak.best}{streakUnit}</p>
+              <p className="text-xs text-muted-foreground">Best</p>
+            </div>
+          </div>
+          
+          {streak.broken.length > 0 && (
+            <div className="mt-4 pt-4 border-t border-border space-y-2">
+              <p className="text-xs font-medium text-muted-foreground">Broken Streaks</p>
+              {streak.broken.slice(0, 5).map(broken => (
+                <div key={broken.broken_at} className="flex items-start justify-between gap-2">
+                  <p className="text-xs text-muted-foreground">
+                    {broken.reason || 'Goal not completed'}
+                  </p>
+                  <span className="text-xs font-mono text-muted-foreground shrink-0">
+                    {broken.length}{streakUnit} · {new Date(broken.broken_at).toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' })}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <GoalHistory rule={rule} versions={versions} pauses={pauses} timeZone={timeZone} />
+
+      {/* Pauses */}
+      <Card>
+        <CardHeader className="pb-2">
+          <div className="flex items-center justify-between">
+            <CardTitle className="text-sm flex items-center gap-2">
+              <PauseCircle className="h-4 w-4" />
+              Pauses
+            </CardTitle>
+            {onPause && (
+              <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={onPause}>
+                Pause or excuse
+              </Button>
+            )}
+          </div>
+        </CardHeader>
+        <CardContent>
+          {pauses.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No paused or excused days</p>
+          ) : (
+            <div className="space-y-2">
+              {[...pauses].reverse().map(pause => {
+                const isActive = pause.starts_on <= today && today <= pause.ends_on;
+                return (
+                  <div key={pause.id} className="flex items-center justify-between gap-2">
+                    <div className="min-w-0">
+                      <p className="text-xs">
+                        <span className="font-medium">
+                          {formatDay(pause.starts_on)}
+                          {pause.ends_on !== pause.starts_on && ` – ${formatDay(pause.ends_on)}`}
+                        </span>
+                        {' · '}
+                        {pause.goal_rule_id === null ? 'all goals' : pause.kind === 'excused' ? 'excused' : 'paused'}
+                      </p>
+                      {pause.reason && (
+                        <p className="text-xs text-muted-foreground truncate">{pause.reason}</p>
+                      )}
+                    </div>
+                    {pause.goal_rule_id !== null && (
+                      isActive && pause.starts_on < today ? (
+                        onEndPause && (
+                          <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={() => onEndPause(pause)}>
+                            End
+                          </Button>
+                        )
+                      ) : (
+                        onDeletePause && (
+                          <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => onDeletePause(pause.id)}>
+                            <Trash2 className="h-3 w-3" />
+                          </Button>
+                        )
+                      )
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <GoalVersionHistory versions={versions} currentVersion={rule.version} timeZone={timeZone} />
+
+      {/* Child Rules */}
+      {rule.rule_type === 'compound' && childStatuses.length > 0 && (
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm flex items-center gap-2">
+              <GitMerge className="h-4 w-4" />
+              Child Rules
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {childStatuses.map(child => {
+              const childConfig = statusConfig[child.status] || statusConfig.off_track;
+              const ChildIcon = childConfig.icon;
+              
+              return (
+                <div key={child.rule_id} className="flex items-start gap-3">
+                  <ChildIcon className={cn("h-4 w-4 mt-0.5 shrink-0", childConfig.color)} />
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center justify-between gap-2">
+                      <p className="text-sm font-medium truncate">{child.name}</p>
+                      <span className="text-xs font-mono text-muted-foreground shrink-0">
+                        {child.completions_in_window}/{child.required_in_window}
+                      </span>
+                    </div>
+                    {child.status !== 'completed' && child.last_fail_reason && (
+                      <p className="text-xs text-muted-foreground">{child.last_fail_reason}</p>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Daily Values */}
+      {aggregateDays.length > 0 && (
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm flex items-center gap-2">
+              <BarChart3 className="h-4 w-4" />
+              Daily Values
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-7 gap-1.5">
+              {aggregateDays.map(day => (
+                <div
+                  key={day.date}
+                  className={cn(
+                    "rounded-md p-1.5 text-center",
+                    day.met ? "bg-green-500/10 text-green-500" : "bg-muted text-muted-foreground"
+                  )}
+                >
+                  <p className="text-[10px]">
+                    {new Date(`${day.date}T00:00:00Z`).toLocaleDateString([], { weekday: 'short', timeZone: 'UTC' })}
+                  </p>
+                  <p className="text-xs font-mono">
+                    {day.value === null ? '—' : Number(day.value.toFixed(1))}
+                  </p>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Pending Windows */}
       {pendingWindows.length > 0 && (
         <Card>
@@ -230,8 +541,16 @@ export function GoalDetail({ goal, onBack }: GoalDetailProps) {
                 >
                   <div className="flex items-center justify-between">
                     <div>
-                      <p className="text-sm font-medium">
-                        Waiting for next event
+                      <p className="text-sm font-medium flex items-center gap-1">
+                        {window.avoid && <ShieldAlert className="h-3.5 w-3.5 text-amber-500" />}
+                        {window.avoid
+                          ? `Avoid ${window.avoid}`
+                          : window.waiting_for ? `Waiting for ${window.waiting_for}` : 'Waiting for next event'}
+                        {window.step_index !== undefined && window.total_steps !== undefined && (
+                          <span className="text-xs font-mono text-muted-foreground ml-2">
+                            step {window.step_index + 1}/{window.total_steps}
+                          </span>
+                        )}
                       </p>
                       <p className="text-xs text-muted-foreground">
                         Started: {formatTime(window.event_a_time)}
@@ -244,6 +563,18 @@ export function GoalDetail({ goal, onBack }: GoalDetailProps) {
                       {getTimeRemaining(window.window_end)}
                     </div>
                   </div>
+                  {window.completed_steps && window.completed_steps.length > 1 && (
+                    <div className="flex flex-wrap items-center gap-1 mt-2 text-xs text-muted-foreground">
+                      {window.completed_steps.map((step, j) => (
+                        <span key={step.event_id} className="flex items-center gap-1">
+                          {j > 0 && '→'}
+                          <CheckCircle2 className="h-3 w-3 text-green-500" />
+                          {step.name}
+                          <span className="font-mono">{formatTime(step.occurred_at)}</span>
+                        </span>
+                      ))}
+                    </div>
+                  )}
                 </div>
               );
             })}
@@ -293,6 +624,7 @@ export function GoalDetail({ goal, onBack }: GoalDetailProps) {
                       <p className="text-xs text-muted-foreground">
                         {impact.impact_type.replace(/_/g, ' ')}
                         {impactDetails.window_hours && ` (${impactDetails.window_hours}h window)`}
+                        {impact.rule_version && impact.rule_version !== rule.version && ` · v${impact.rule_version}`}
                       </p>
                     </div>
                   </div>
@@ -324,6 +656,11 @@ export function GoalDetail({ goal, onBack }: GoalDetailProps) {
           </CardContent>
         </Card>
       )}
+
+      {/* Explanation trace; a new evaluation discards the previous trace */}
+      {onExplain && (
+        <GoalExplanation key={evaluation?.id || rule.id} ruleId={rule.id} timeZone={timeZone} onExplain={onExplain} />
+      )}
     </div>
   );
 }
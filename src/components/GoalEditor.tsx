@@ -1,31 +1,175 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Plus, Trash2 } from "lucide-react";
-import type { GoalRule, SequenceConfig, CountConfig } from "@/hooks/useGoalTracking";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Plus, Trash2, AlertCircle } from "lucide-react";
+import {
+  CONFIRMED_CONFIDENCE,
+  formatEventFilters,
+  formatRuleText,
+  getRuleDependencies,
+  parseEventFilters,
+  parseRuleText,
+} from "@shared/goal-engine";
+import { getUnknownEventWarning, getUnknownTypeWarning, validateGoalRule } from "@/lib/goalRuleSchema";
+import type { BacktestResult, GoalRule, GoalEvaluation, WindowType, SequenceConfig, SequenceStep, CountConfig, AvoidanceConfig, AggregateConfig, GateConfig, CompoundConfig, ConfidencePolicy, EventCatalog, RuleDefinition, RuleTextError } from "@/hooks/useGoalTracking";
+import type { Trackable } from "@/hooks/useTracking";
+import { BacktestPreview, type BacktestDraft } from "./BacktestPreview";
+
+type EditableRuleType = GoalRule['rule_type'];
+type ConfidenceMode = 'all' | ConfidencePolicy['mode'];
+type EditMode = 'form' | 'text';
+
+const EVENT_NAMES_LIST_ID = 'goal-editor-event-names';
+const EVENT_TYPES_LIST_ID = 'goal-editor-event-types';
+
+const RULE_TYPE_LABELS: Record<EditableRuleType, string> = {
+  sequence: 'Sequence',
+  count: 'Count',
+  avoidance: 'Avoidance',
+  aggregate: 'Daily total',
+  gate: 'Gate',
+  compound: 'Compound',
+};
+
+function FieldError({ message }: { message?: string }) {
+  if (!message) return null;
+  return <p className="text-xs text-destructive">{message}</p>;
+}
+
+interface EventNameInputProps {
+  id?: string;
+  value: string;
+  onChange: (value: string) => void;
+  placeholder: string;
+  knownNames: string[];
+  error?: string;
+  className?: string;
+}
+
+// Event name with suggestions from recorded events and a warning for names never seen
+function EventNameInput({ id, value, onChange, placeholder, knownNames, error, className }: EventNameInputProps) {
+  const warning = getUnknownEventWarning(value, knownNames);
+  return (
+    <div className={className || "space-y-1"}>
+      <Input
+        id={id}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder={placeholder}
+        list={EVENT_NAMES_LIST_ID}
+        autoComplete="off"
+      />
+      {error ? <FieldError message={error} /> : warning && <p className="text-xs text-amber-500">{warning}</p>}
+    </div>
+  );
+}
+
+interface EventTypeInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  knownTypes: string[];
+}
+
+function EventTypeInput({ value, onChange, knownTypes }: EventTypeInputProps) {
+  const warning = getUnknownTypeWarning(value, knownTypes);
+  return (
+    <div className="space-y-1">
+      <Input
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder="Any type"
+        list={EVENT_TYPES_LIST_ID}
+        autoComplete="off"
+        className="h-7 text-xs font-mono"
+      />
+      {warning && <p className="text-xs text-amber-500">{warning}</p>}
+    </div>
+  );
+}
+
+// Rules a gate or compound depends on, nested; stops at rules already shown higher up
+function DependencyTree({ ruleIds, rulesById, seen = [] }: { ruleIds: string[]; rulesById: Map<string, GoalRule>; seen?: string[] }) {
+  return (
+    <ul className="space-y-1 pl-3 border-l border-border">
+      {ruleIds.map(id => {
+        const rule = rulesById.get(id);
+        if (!rule) return <li key={id} className="text-xs text-destructive">Missing rule {id}</li>;
+        const deps = seen.includes(id) ? [] : getRuleDependencies(rule);
+        return (
+          <li key={id} className="text-xs">
+            <span className="font-medium">{rule.name}</span>
+            <span className="text-muted-foreground"> · {RULE_TYPE_LABELS[rule.rule_type]}{rule.is_active ? '' : ' (inactive)'}</span>
+            {deps.length > 0 && <DependencyTree ruleIds={deps} rulesById={rulesById} seen={[...seen, id]} />}
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
+
+// Parse error with the offending line and a caret under its position
+function RuleTextErrorHint({ text, error }: { text: string; error: RuleTextError }) {
+  const before = text.slice(0, error.position);
+  const line = before.split('\n').length;
+  const column = error.position - before.lastIndexOf('\n');
+  return (
+    <div className="text-xs text-destructive space-y-1">
+      <p>{error.message} (line {line}, column {column})</p>
+      <pre className="font-mono overflow-x-auto">{text.split('\n')[line - 1]}{'\n'}{' '.repeat(column - 1)}^</pre>
+    </div>
+  );
+}
+
+// Optional number input: empty means "not set"
+const parseOptionalNumber = (value: string) => value === '' ? undefined : Number(value);
+
+type RulePreview = Pick<GoalEvaluation, 'status' | 'completions_in_window' | 'required_in_window' | 'last_fail_reason'>;
 
 interface GoalEditorProps {
   isOpen: boolean;
   onClose: () => void;
   onSave: (rule: Omit<GoalRule, 'id' | 'created_at' | 'updated_at'>) => Promise<unknown>;
   existingRule?: GoalRule;
+  // Evaluates the draft locally over the events its window needs
+  onPreview?: (rule: BacktestDraft) => Promise<RulePreview | null>;
+  // Replays the draft over past events on the server
+  onBacktest?: (rule: BacktestDraft, days: number) => Promise<BacktestResult>;
+  trackables?: Trackable[];
+  // Rules a gate or compound can reference
+  rules?: GoalRule[];
+  eventCatalog?: EventCatalog;
 }
 
-export function GoalEditor({ isOpen, onClose, onSave, existingRule }: GoalEditorProps) {
+export function GoalEditor({
+  isOpen,
+  onClose,
+  onSave,
+  existingRule,
+  onPreview,
+  onBacktest,
+  trackables = [],
+  rules = [],
+  eventCatalog = { names: [], types: [] },
+}: GoalEditorProps) {
   const [name, setName] = useState(existingRule?.name || '');
   const [description, setDescription] = useState(existingRule?.description || '');
-  const [ruleType, setRuleType] = useState<'sequence' | 'count'>(
-    (existingRule?.rule_type as 'sequence' | 'count') || 'sequence'
+  const [ruleType, setRuleType] = useState<EditableRuleType>(
+    (existingRule?.rule_type as EditableRuleType) || 'sequence'
   );
   const [rollingDays, setRollingDays] = useState(existingRule?.rolling_window_days || 7);
+  const [windowType, setWindowType] = useState<WindowType>(existingRule?.window_type || 'rolling');
   const [requiredCompletions, setRequiredCompletions] = useState(existingRule?.required_completions || 1);
+  const [confidenceMode, setConfidenceMode] = useState<ConfidenceMode>(existingRule?.confidence_policy?.mode || 'all');
+  const [minConfidence, setMinConfidence] = useState(existingRule?.confidence_policy?.min_confidence ?? CONFIRMED_CONFIDENCE);
   
   // Sequence-specific state
-  const [sequenceEvents, setSequenceEvents] = useState<{ name: string; type?: string }[]>(
+  const [sequenceEvents, setSequenceEvents] = useState<SequenceStep[]>(
     (existingRule?.rule_config as SequenceConfig)?.events || [{ name: '' }, { name: '' }]
   );
   const [minHours, setMinHours] = useState(
@@ -34,49 +178,263 @@ export function GoalEditor({ isOpen, onClose, onSave, existingRule }: GoalEditor
   const [maxHours, setMaxHours] = useState(
     (existingRule?.rule_config as SequenceConfig)?.max_hours || 12
   );
+  // Filter text per step, e.g. "intensity = heavy, magnitude >= 5"
+  const [sequenceFilters, setSequenceFilters] = useState<string[]>(
+    () => sequenceEvents.map(formatEventFilters)
+  );
   
   // Count-specific state
   const [countEventName, setCountEventName] = useState(
     (existingRule?.rule_config as CountConfig)?.event_pattern?.name || ''
   );
+  const [countEventType, setCountEventType] = useState(
+    (existingRule?.rule_config as CountConfig)?.event_pattern?.type || ''
+  );
   const [requiredCount, setRequiredCount] = useState(
     (existingRule?.rule_config as CountConfig)?.required_count || 1
   );
+  const [countFilters, setCountFilters] = useState(
+    () => (existingRule?.rule_config as CountConfig)?.event_pattern
+      ? formatEventFilters((existingRule.rule_config as CountConfig).event_pattern)
+      : ''
+  );
+  
+  // Avoidance-specific state
+  const existingAvoidance = existingRule?.rule_type === 'avoidance'
+    ? existingRule.rule_config as AvoidanceConfig
+    : null;
+  const [avoidEventName, setAvoidEventName] = useState(existingAvoidance?.avoid.name || '');
+  const [avoidEventType, setAvoidEventType] = useState(existingAvoidance?.avoid.type || '');
+  const [avoidFilters, setAvoidFilters] = useState(
+    () => existingAvoidance ? formatEventFilters(existingAvoidance.avoid) : ''
+  );
+  const [anchorEventName, setAnchorEventName] = useState(existingAvoidance?.anchor.name || '');
+  const [anchorEventType, setAnchorEventType] = useState(existingAvoidance?.anchor.type || '');
+  const [anchorFilters, setAnchorFilters] = useState(
+    () => existingAvoidance ? formatEventFilters(existingAvoidance.anchor) : ''
+  );
+  const [avoidDirection, setAvoidDirection] = useState<'before' | 'after'>(existingAvoidance?.direction || 'before');
+  const [avoidHours, setAvoidHours] = useState(existingAvoidance?.hours || 8);
+  
+  // Aggregate-specific state
+  const existingAggregate = existingRule?.rule_type === 'aggregate'
+    ? existingRule.rule_config as AggregateConfig
+    : null;
+  const [aggregateTrackable, setAggregateTrackable] = useState(existingAggregate?.trackable || '');
+  const [aggregation, setAggregation] = useState<AggregateConfig['aggregation']>(existingAggregate?.aggregation || 'sum');
+  const [aggregateOperator, setAggregateOperator] = useState<AggregateConfig['operator']>(existingAggregate?.operator || 'gte');
+  const [aggregateThreshold, setAggregateThreshold] = useState(existingAggregate?.threshold || 0);
+  const [requiredDays, setRequiredDays] = useState(existingAggregate?.required_days || 7);
+  
+  // Gate-specific state
+  const existingGate = existingRule?.rule_type === 'gate'
+    ? existingRule.rule_config as GateConfig
+    : null;
+  const [gatedRuleId, setGatedRuleId] = useState(existingGate?.gated_rule_id || '');
+  const [gateEventName, setGateEventName] = useState(existingGate?.condition.event_name || '');
+  const [gateMinHoursAgo, setGateMinHoursAgo] = useState(existingGate?.condition.min_hours_ago?.toString() ?? '');
+  const [gateMaxHoursAgo, setGateMaxHoursAgo] = useState(existingGate?.condition.max_hours_ago?.toString() ?? '');
+  const [gateMinMagnitude, setGateMinMagnitude] = useState(existingGate?.condition.min_magnitude?.toString() ?? '');
+  
+  // Compound-specific state
+  const existingCompound = existingRule?.rule_type === 'compound'
+    ? existingRule.rule_config as CompoundConfig
+    : null;
+  const [compoundOperator, setCompoundOperator] = useState<CompoundConfig['operator']>(existingCompound?.operator || 'AND');
+  const [childRuleIds, setChildRuleIds] = useState<string[]>(existingCompound?.child_rule_ids || []);
+  
+  // The text tab edits type, config and window as a single rule text
+  const [editMode, setEditMode] = useState<EditMode>('form');
+  const [ruleText, setRuleText] = useState('');
   
   const [isSaving, setIsSaving] = useState(false);
+  // Errors show once the user has tried to save
+  const [showErrors, setShowErrors] = useState(false);
+  
+  const referenceableRules = rules.filter(r => r.id !== existingRule?.id);
+  const rulesById = new Map(rules.map(r => [r.id, r]));
 
-  const handleSave = async () => {
-    if (!name.trim()) return;
-    
-    setIsSaving(true);
-    
-    let ruleConfig: SequenceConfig | CountConfig;
+  const parsedSequenceFilters = sequenceFilters.map(parseEventFilters);
+  const parsedCountFilters = parseEventFilters(countFilters);
+  const parsedAvoidFilters = parseEventFilters(avoidFilters);
+  const parsedAnchorFilters = parseEventFilters(anchorFilters);
+  const hasFilterErrors = editMode === 'text' ? false
+    : ruleType === 'sequence' ? parsedSequenceFilters.some(f => f.error)
+    : ruleType === 'count' ? !!parsedCountFilters.error
+    : ruleType === 'avoidance' ? !!(parsedAvoidFilters.error || parsedAnchorFilters.error) : false;
+  const parsedText = editMode === 'text' ? parseRuleText(ruleText, referenceableRules) : null;
+
+  const getConfidencePolicy = (type: EditableRuleType): ConfidencePolicy | null =>
+    type === 'aggregate' || type === 'compound' || confidenceMode === 'all'
+      ? null
+      : { mode: confidenceMode, min_confidence: minConfidence };
+
+  const buildRule = (): Omit<GoalRule, 'id' | 'created_at' | 'updated_at'> => {
+    let ruleConfig: GoalRule['rule_config'];
     
-    if (ruleType === 'sequence') {
+    if (ruleType === 'gate') {
       ruleConfig = {
-        events: sequenceEvents.filter(e => e.name.trim()),
+        condition: {
+          event_name: gateEventName,
+          min_hours_ago: parseOptionalNumber(gateMinHoursAgo),
+          max_hours_ago: parseOptionalNumber(gateMaxHoursAgo),
+          min_magnitude: parseOptionalNumber(gateMinMagnitude)
+        },
+        gated_rule_id: gatedRuleId
+      };
+    } else if (ruleType === 'compound') {
+      ruleConfig = {
+        operator: compoundOperator,
+        child_rule_ids: childRuleIds
+      };
+    } else if (ruleType === 'sequence') {
+      ruleConfig = {
+        events: sequenceEvents.map((e, i) => ({
+          name: e.name,
+          type: e.type,
+          min_hours: e.min_hours,
+          max_hours: e.max_hours,
+          ...parsedSequenceFilters[i]?.filters
+        })),
         min_hours: minHours,
         max_hours: maxHours
       };
+    } else if (ruleType === 'aggregate') {
+      ruleConfig = {
+        trackable: aggregateTrackable,
+        aggregation,
+        operator: aggregateOperator,
+        threshold: aggregateThreshold,
+        required_days: requiredDays
+      };
+    } else if (ruleType === 'avoidance') {
+      ruleConfig = {
+        anchor: { name: anchorEventName, type: anchorEventType || undefined, ...parsedAnchorFilters.filters },
+        avoid: { name: avoidEventName, type: avoidEventType || undefined, ...parsedAvoidFilters.filters },
+        direction: avoidDirection,
+        hours: avoidHours
+      };
     } else {
       ruleConfig = {
-        event_pattern: { name: countEventName },
+        event_pattern: { name: countEventName, type: countEventType || undefined, ...parsedCountFilters.filters },
         required_count: requiredCount,
         rolling_days: rollingDays
       };
     }
     
+    return {
+      name,
+      description: description || null,
+      rule_type: ruleType,
+      rule_config: ruleConfig,
+      rolling_window_days: rollingDays,
+      window_type: windowType,
+      required_completions: ruleType === 'aggregate' ? requiredDays : requiredCompletions,
+      confidence_policy: getConfidencePolicy(ruleType),
+      is_active: true,
+      priority: 0
+    };
+  };
+
+  const formRule = buildRule();
+  const draft = parsedText?.rule
+    ? { ...formRule, ...parsedText.rule, confidence_policy: getConfidencePolicy(parsedText.rule.rule_type) }
+    : formRule;
+  const errors = validateGoalRule({ ...draft, id: existingRule?.id }, rules);
+  const hasErrors = Object.keys(errors).length > 0 || !!parsedText?.error;
+  const errorFor = (path: string) => showErrors ? errors[path] : undefined;
+
+  // Preview the draft once it has stopped changing for a moment
+  const [preview, setPreview] = useState<RulePreview | null>(null);
+  const previewKey = isOpen && onPreview && !hasErrors ? JSON.stringify({ ...draft, id: existingRule?.id }) : null;
+  useEffect(() => {
+    if (!previewKey) {
+      setPreview(null);
+      return;
+    }
+    let cancelled = false;
+    const timeout = setTimeout(() => {
+      onPreview(JSON.parse(previewKey))
+        .then(result => { if (!cancelled) setPreview(result); })
+        .catch(() => { if (!cancelled) setPreview(null); });
+    }, 300);
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [previewKey, onPreview]);
+
+  // Fill the form from a parsed rule text
+  const loadDefinition = (definition: RuleDefinition) => {
+    setRuleType(definition.rule_type);
+    setWindowType(definition.window_type || 'rolling');
+    setRollingDays(definition.rolling_window_days);
+    setRequiredCompletions(definition.required_completions);
+    
+    if (definition.rule_type === 'sequence') {
+      const config = definition.rule_config as SequenceConfig;
+      setSequenceEvents(config.events);
+      setSequenceFilters(config.events.map(formatEventFilters));
+      setMinHours(config.min_hours);
+      setMaxHours(config.max_hours);
+    } else if (definition.rule_type === 'count') {
+      const config = definition.rule_config as CountConfig;
+      setCountEventName(config.event_pattern.name);
+      setCountEventType(config.event_pattern.type || '');
+      setCountFilters(formatEventFilters(config.event_pattern));
+      setRequiredCount(config.required_count);
+    } else if (definition.rule_type === 'avoidance') {
+      const config = definition.rule_config as AvoidanceConfig;
+      setAvoidEventName(config.avoid.name);
+      setAvoidEventType(config.avoid.type || '');
+      setAvoidFilters(formatEventFilters(config.avoid));
+      setAnchorEventName(config.anchor.name);
+      setAnchorEventType(config.anchor.type || '');
+      setAnchorFilters(formatEventFilters(config.anchor));
+      setAvoidDirection(config.direction);
+      setAvoidHours(config.hours);
+    } else if (definition.rule_type === 'aggregate') {
+      const config = definition.rule_config as AggregateConfig;
+      setAggregateTrackable(config.trackable);
+      setAggregation(config.aggregation);
+      setAggregateOperator(config.operator);
+      setAggregateThreshold(config.threshold);
+      setRequiredDays(config.required_days);
+    } else if (definition.rule_type === 'gate') {
+      const config = definition.rule_config as GateConfig;
+      setGatedRuleId(config.gated_rule_id);
+      setGateEventName(config.condition.event_name);
+      setGateMinHoursAgo(config.condition.min_hours_ago?.toString() ?? '');
+      setGateMaxHoursAgo(config.condition.max_hours_ago?.toString() ?? '');
+      setGateMinMagnitude(config.condition.min_magnitude?.toString() ?? '');
+    } else {
+      const config = definition.rule_config as CompoundConfig;
+      setCompoundOperator(config.operator);
+      setChildRuleIds(config.child_rule_ids);
+    }
+  };
+
+  // Render the form as text going in; going back, the text must parse
+  const switchEditMode = (mode: EditMode) => {
+    if (mode === editMode) return;
+    if (mode === 'text') {
+      setRuleText(formatRuleText(formRule, referenceableRules));
+    } else if (parsedText?.rule) {
+      loadDefinition(parsedText.rule);
+    } else {
+      return;
+    }
+    setEditMode(mode);
+  };
+
+  const handleSave = async () => {
+    setShowErrors(true);
+    if (hasErrors || hasFilterErrors) return;
+    
+    setIsSaving(true);
+    
     try {
-      await onSave({
-        name,
-        description: description || null,
-        rule_type: ruleType,
-        rule_config: ruleConfig,
-        rolling_window_days: rollingDays,
-        required_completions: requiredCompletions,
-        is_active: true,
-        priority: 0
-      });
+      await onSave(draft);
       onClose();
     } finally {
       setIsSaving(false);
@@ -85,28 +443,60 @@ export function GoalEditor({ isOpen, onClose, onSave, existingRule }: GoalEditor
 
   const addSequenceEvent = () => {
     setSequenceEvents([...sequenceEvents, { name: '' }]);
+    setSequenceFilters([...sequenceFilters, '']);
   };
 
   const updateSequenceEvent = (index: number, name: string) => {
     const updated = [...sequenceEvents];
-    updated[index] = { name };
+    updated[index] = { ...updated[index], name };
+    setSequenceEvents(updated);
+  };
+
+  const updateSequenceType = (index: number, type: string) => {
+    const updated = [...sequenceEvents];
+    updated[index] = { ...updated[index], type: type || undefined };
+    setSequenceEvents(updated);
+  };
+
+  const toggleChildRule = (id: string, checked: boolean) => {
+    setChildRuleIds(prev => checked ? [...prev, id] : prev.filter(x => x !== id));
+  };
+
+  const updateSequenceFilter = (index: number, text: string) => {
+    const updated = [...sequenceFilters];
+    updated[index] = text;
+    setSequenceFilters(updated);
+  };
+
+  // Per-step gap override; an empty input falls back to the rule-level min/max hours
+  const updateSequenceGap = (index: number, field: 'min_hours' | 'max_hours', value: string) => {
+    const updated = [...sequenceEvents];
+    updated[index] = { ...updated[index], [field]: value === '' ? undefined : Number(value) };
     setSequenceEvents(updated);
   };
 
   const removeSequenceEvent = (index: number) => {
     if (sequenceEvents.length <= 2) return;
     setSequenceEvents(sequenceEvents.filter((_, i) => i !== index));
+    setSequenceFilters(sequenceFilters.filter((_, i) => i !== index));
   };
 
   return (
     <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
-      <DialogContent className="max-w-lg">
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>
             {existingRule ? 'Edit Goal' : 'Create Goal'}
           </DialogTitle>
         </DialogHeader>
         
+        <datalist id={EVENT_NAMES_LIST_ID}>
+          {eventCatalog.names.map(n => <option key={n} value={n} />)}
+        </datalist>
+        <datalist id={EVENT_TYPES_LIST_ID}>
+          {eventCatalog.types.map(t => <option key={t} value={t} />)}
+        </datalist>
+        
         <div className="space-y-4 py-4">
           {/* Name */}
           <div className="space-y-2">
@@ -117,6 +507,7 @@ export function GoalEditor({ isOpen, onClose, onSave, existingRule }: GoalEditor
               onChange={(e) => setName(e.target.value)}
               placeholder="e.g., GH to IGF-1 Response"
             />
+            <FieldError message={errorFor('name')} />
           </div>
           
           {/* Description */}
@@ -131,145 +522,615 @@ export function GoalEditor({ isOpen, onClose, onSave, existingRule }: GoalEditor
             />
           </div>
           
-          {/* Rule Type */}
-          <div className="space-y-2">
-            <Label>Rule Type</Label>
-            <Select value={ruleType} onValueChange={(v) => setRuleType(v as 'sequence' | 'count')}>
-              <SelectTrigger>
-                <SelectValue />
-              </SelectTrigger>
-              <SelectContent>
-                <SelectItem value="sequence">
-                  Sequence (A → B within time window)
-                </SelectItem>
-                <SelectItem value="count">
-                  Count (N occurrences in rolling window)
-                </SelectItem>
-              </SelectContent>
-            </Select>
-          </div>
+          <Tabs value={editMode} onValueChange={(v) => switchEditMode(v as EditMode)}>
+            <TabsList className="grid w-full grid-cols-2">
+              <TabsTrigger value="form">Form</TabsTrigger>
+              <TabsTrigger value="text">Text</TabsTrigger>
+            </TabsList>
+          
+            <TabsContent value="text" className="space-y-2">
+              <Textarea
+                value={ruleText}
+                onChange={(e) => setRuleText(e.target.value)}
+                rows={3}
+                spellCheck={false}
+                className="font-mono text-sm"
+                placeholder="protein_bolus within 0h..2h after training_session, 3x per 7d"
+              />
+              {parsedText?.error ? (
+                <RuleTextErrorHint text={ruleText} error={parsedText.error} />
+              ) : showErrors && Object.entries(errors).filter(([path]) => path !== 'name').map(([path, message]) => (
+                <FieldError key={path} message={message} />
+              ))}
+              <p className="text-xs text-muted-foreground">
+                e.g. <code>count sauna_session &gt;= 3 per calendar week</code>, <code>no caffeine_dose within 8h before sleep_episode, 5x per 7d</code>,{' '}
+                <code>sum Protein &gt;= 160 on 6 days per 7d</code> or <code>all of @"Rule A", @"Rule B"</code>.
+                Quote names with spaces; filters go in brackets, e.g. <code>training_session[intensity = heavy]</code>.
+              </p>
+            </TabsContent>
           
-          {/* Sequence Configuration */}
-          {ruleType === 'sequence' && (
-            <>
+            <TabsContent value="form" className="space-y-4">
+              {/* Rule Type */}
               <div className="space-y-2">
-                <Label>Event Sequence</Label>
-                <div className="space-y-2">
-                  {sequenceEvents.map((event, i) => (
-                    <div key={i} className="flex items-center gap-2">
-                      <span className="text-xs text-muted-foreground w-6">
-                        {i + 1}.
-                      </span>
+                <Label>Rule Type</Label>
+                <Select value={ruleType} onValueChange={(v) => setRuleType(v as EditableRuleType)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="sequence">
+                      Sequence (A → B within time window)
+                    </SelectItem>
+                    <SelectItem value="count">
+                      Count (N occurrences in rolling window)
+                    </SelectItem>
+                    <SelectItem value="avoidance">
+                      Avoidance (no A within N hours of B)
+                    </SelectItem>
+                    <SelectItem value="aggregate">
+                      Daily total (trackable threshold on N days)
+                    </SelectItem>
+                    <SelectItem value="gate">
+                      Gate (another rule, only when a condition held)
+                    </SelectItem>
+                    <SelectItem value="compound">
+                      Compound (all / any of other rules)
+                    </SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+          
+              {/* Sequence Configuration */}
+              {ruleType === 'sequence' && (
+                <>
+                  <div className="space-y-2">
+                    <Label>Event Sequence</Label>
+                    <div className="space-y-2">
+                      {sequenceEvents.map((event, i) => (
+                        <div key={i} className="space-y-1">
+                          {i > 0 && (
+                            <div className="flex items-center gap-2 pl-8 text-xs text-muted-foreground">
+                              <span>after</span>
+                              <Input
+                                type="number"
+                                value={event.min_hours ?? ''}
+                                onChange={(e) => updateSequenceGap(i, 'min_hours', e.target.value)}
+                                placeholder={String(minHours)}
+                                className="h-7 w-16 text-xs"
+                                min={0}
+                              />
+                              <span>..</span>
+                              <Input
+                                type="number"
+                                value={event.max_hours ?? ''}
+                                onChange={(e) => updateSequenceGap(i, 'max_hours', e.target.value)}
+                                placeholder={String(maxHours)}
+                                className="h-7 w-16 text-xs"
+                                min={0}
+                              />
+                              <span>h</span>
+                            </div>
+                          )}
+                          {i > 0 && (
+                            <div className="pl-8">
+                              <FieldError message={errorFor(`rule_config.events.${i}.max_hours`)} />
+                            </div>
+                          )}
+                          <div className="flex items-center gap-2">
+                            <span className="text-xs text-muted-foreground w-6">
+                              {i + 1}.
+                            </span>
+                            <EventNameInput
+                              value={event.name}
+                              onChange={(value) => updateSequenceEvent(i, value)}
+                              placeholder={`Event ${i + 1} name (e.g., GH_peak)`}
+                              knownNames={eventCatalog.names}
+                              error={errorFor(`rule_config.events.${i}.name`)}
+                              className="flex-1 space-y-1"
+                            />
+                            {sequenceEvents.length > 2 && (
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                onClick={() => removeSequenceEvent(i)}
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            )}
+                          </div>
+                          <div className="pl-8 grid grid-cols-[7rem_1fr] gap-2">
+                            <EventTypeInput
+                              value={event.type || ''}
+                              onChange={(value) => updateSequenceType(i, value)}
+                              knownTypes={eventCatalog.types}
+                            />
+                            <Input
+                              value={sequenceFilters[i] || ''}
+                              onChange={(e) => updateSequenceFilter(i, e.target.value)}
+                              placeholder="Filters (optional), e.g. intensity = heavy, magnitude >= 5"
+                              className="h-7 text-xs font-mono"
+                            />
+                            {parsedSequenceFilters[i]?.error && (
+                              <p className="text-xs text-destructive col-span-2">{parsedSequenceFilters[i].error}</p>
+                            )}
+                          </div>
+                        </div>
+                      ))}
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={addSequenceEvent}
+                        className="w-full"
+                      >
+                        <Plus className="h-4 w-4 mr-1" />
+                        Add Event
+                      </Button>
+                    </div>
+                  </div>
+              
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="minHours">Default Min Hours</Label>
+                      <Input
+                        id="minHours"
+                        type="number"
+                        value={minHours}
+                        onChange={(e) => setMinHours(Number(e.target.value))}
+                        min={0}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="maxHours">Default Max Hours</Label>
+                      <Input
+                        id="maxHours"
+                        type="number"
+                        value={maxHours}
+                        onChange={(e) => setMaxHours(Number(e.target.value))}
+                        min={1}
+                      />
+                      <FieldError message={errorFor('rule_config.max_hours')} />
+                    </div>
+                  </div>
+                </>
+              )}
+          
+              {/* Count Configuration */}
+              {ruleType === 'count' && (
+                <>
+                  <div className="space-y-2">
+                    <Label htmlFor="eventName">Event Name</Label>
+                    <EventNameInput
+                      id="eventName"
+                      value={countEventName}
+                      onChange={setCountEventName}
+                      placeholder="e.g., training_session"
+                      knownNames={eventCatalog.names}
+                      error={errorFor('rule_config.event_pattern.name')}
+                    />
+                    <div className="grid grid-cols-[7rem_1fr] gap-2">
+                      <EventTypeInput value={countEventType} onChange={setCountEventType} knownTypes={eventCatalog.types} />
+                      <Input
+                        value={countFilters}
+                        onChange={(e) => setCountFilters(e.target.value)}
+                        placeholder="Filters (optional), e.g. protein_g >= 40, confidence >= 0.8"
+                        className="h-7 text-xs font-mono"
+                      />
+                    </div>
+                    {parsedCountFilters.error && (
+                      <p className="text-xs text-destructive">{parsedCountFilters.error}</p>
+                    )}
+                  </div>
+              
+                  <div className="space-y-2">
+                    <Label htmlFor="requiredCount">Required Count</Label>
+                    <Input
+                      id="requiredCount"
+                      type="number"
+                      value={requiredCount}
+                      onChange={(e) => setRequiredCount(Number(e.target.value))}
+                      min={1}
+                    />
+                    <FieldError message={errorFor('rule_config.required_count')} />
+                  </div>
+                </>
+              )}
+          
+              {/* Avoidance Configuration */}
+              {ruleType === 'avoidance' && (
+                <>
+                  <div className="space-y-2">
+                    <Label htmlFor="avoidEvent">Event to Avoid</Label>
+                    <EventNameInput
+                      id="avoidEvent"
+                      value={avoidEventName}
+                      onChange={setAvoidEventName}
+                      placeholder="e.g., caffeine_dose"
+                      knownNames={eventCatalog.names}
+                      error={errorFor('rule_config.avoid.name')}
+                    />
+                    <div className="grid grid-cols-[7rem_1fr] gap-2">
+                      <EventTypeInput value={avoidEventType} onChange={setAvoidEventType} knownTypes={eventCatalog.types} />
+                      <Input
+                        value={avoidFilters}
+                        onChange={(e) => setAvoidFilters(e.target.value)}
+                        placeholder="Filters (optional), e.g. magnitude >= 100"
+                        className="h-7 text-xs font-mono"
+                      />
+                    </div>
+                    {parsedAvoidFilters.error && (
+                      <p className="text-xs text-destructive">{parsedAvoidFilters.error}</p>
+                    )}
+                  </div>
+              
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="avoidHours">Within (hours)</Label>
+                      <Input
+                        id="avoidHours"
+                        type="number"
+                        value={avoidHours}
+                        onChange={(e) => setAvoidHours(Number(e.target.value))}
+                        min={0}
+                      />
+                      <FieldError message={errorFor('rule_config.hours')} />
+                    </div>
+                    <div className="space-y-2">
+                      <Label>Direction</Label>
+                      <Select value={avoidDirection} onValueChange={(v) => setAvoidDirection(v as 'before' | 'after')}>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="before">before</SelectItem>
+                          <SelectItem value="after">after</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
+              
+                  <div className="space-y-2">
+                    <Label htmlFor="anchorEvent">Anchor Event</Label>
+                    <EventNameInput
+                      id="anchorEvent"
+                      value={anchorEventName}
+                      onChange={setAnchorEventName}
+                      placeholder="e.g., sleep_episode"
+                      knownNames={eventCatalog.names}
+                      error={errorFor('rule_config.anchor.name')}
+                    />
+                    <div className="grid grid-cols-[7rem_1fr] gap-2">
+                      <EventTypeInput value={anchorEventType} onChange={setAnchorEventType} knownTypes={eventCatalog.types} />
+                      <Input
+                        value={anchorFilters}
+                        onChange={(e) => setAnchorFilters(e.target.value)}
+                        placeholder="Filters (optional), e.g. magnitude >= 6"
+                        className="h-7 text-xs font-mono"
+                      />
+                    </div>
+                    {parsedAnchorFilters.error && (
+                      <p className="text-xs text-destructive">{parsedAnchorFilters.error}</p>
+                    )}
+                  </div>
+                </>
+              )}
+          
+              {/* Aggregate Configuration */}
+              {ruleType === 'aggregate' && (
+                <>
+                  <div className="space-y-2">
+                    <Label>Trackable</Label>
+                    {trackables.length > 0 ? (
+                      <Select value={aggregateTrackable} onValueChange={setAggregateTrackable}>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select a trackable" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {trackables.map(t => (
+                            <SelectItem key={t.id} value={t.name}>
+                              {t.name}{t.unit ? ` (${t.unit})` : ''}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    ) : (
+                      <Input
+                        value={aggregateTrackable}
+                        onChange={(e) => setAggregateTrackable(e.target.value)}
+                        placeholder="e.g., Protein"
+                      />
+                    )}
+                    <FieldError message={errorFor('rule_config.trackable')} />
+                  </div>
+              
+                  <div className="grid grid-cols-3 gap-4">
+                    <div className="space-y-2">
+                      <Label>Daily</Label>
+                      <Select value={aggregation} onValueChange={(v) => setAggregation(v as AggregateConfig['aggregation'])}>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="sum">sum</SelectItem>
+                          <SelectItem value="avg">average</SelectItem>
+                          <SelectItem value="min">min</SelectItem>
+                          <SelectItem value="max">max</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-2">
+                      <Label>Must be</Label>
+                      <Select value={aggregateOperator} onValueChange={(v) => setAggregateOperator(v as AggregateConfig['operator'])}>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="gte">≥</SelectItem>
+                          <SelectItem value="lte">≤</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="threshold">Threshold</Label>
+                      <Input
+                        id="threshold"
+                        type="number"
+                        value={aggregateThreshold}
+                        onChange={(e) => setAggregateThreshold(Number(e.target.value))}
+                      />
+                    </div>
+                  </div>
+              
+                  <div className="space-y-2">
+                    <Label htmlFor="requiredDays">Required Days in Window</Label>
+                    <Input
+                      id="requiredDays"
+                      type="number"
+                      value={requiredDays}
+                      onChange={(e) => setRequiredDays(Number(e.target.value))}
+                      min={1}
+                      max={windowType === 'rolling' ? rollingDays : undefined}
+                    />
+                    <FieldError message={errorFor('rule_config.required_days')} />
+                  </div>
+                </>
+              )}
+          
+              {/* Gate Configuration */}
+              {ruleType === 'gate' && (
+                <>
+                  <div className="space-y-2">
+                    <Label>Gated Rule</Label>
+                    <Select value={gatedRuleId} onValueChange={setGatedRuleId}>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select the rule to gate" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {referenceableRules.map(r => (
+                          <SelectItem key={r.id} value={r.id}>
+                            {r.name} ({RULE_TYPE_LABELS[r.rule_type]})
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FieldError message={errorFor('rule_config.gated_rule_id')} />
+                  </div>
+              
+                  <div className="space-y-2">
+                    <Label htmlFor="gateEvent">Only when this event came first</Label>
+                    <EventNameInput
+                      id="gateEvent"
+                      value={gateEventName}
+                      onChange={setGateEventName}
+                      placeholder="e.g., fasting_state"
+                      knownNames={eventCatalog.names}
+                      error={errorFor('rule_config.condition.event_name')}
+                    />
+                  </div>
+              
+                  <div className="grid grid-cols-3 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="gateMinHours">Min hours ago</Label>
+                      <Input
+                        id="gateMinHours"
+                        type="number"
+                        value={gateMinHoursAgo}
+                        onChange={(e) => setGateMinHoursAgo(e.target.value)}
+                        placeholder="0"
+                        min={0}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="gateMaxHours">Max hours ago</Label>
+                      <Input
+                        id="gateMaxHours"
+                        type="number"
+                        value={gateMaxHoursAgo}
+                        onChange={(e) => setGateMaxHoursAgo(e.target.value)}
+                        placeholder="24"
+                        min={0}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="gateMagnitude">Min magnitude</Label>
                       <Input
-                        value={event.name}
-                        onChange={(e) => updateSequenceEvent(i, e.target.value)}
-                        placeholder={`Event ${i + 1} name (e.g., GH_peak)`}
-                        className="flex-1"
+                        id="gateMagnitude"
+                        type="number"
+                        value={gateMinMagnitude}
+                        onChange={(e) => setGateMinMagnitude(e.target.value)}
+                        placeholder="Any"
                       />
-                      {sequenceEvents.length > 2 && (
-                        <Button
-                          variant="ghost"
-                          size="icon"
-                          onClick={() => removeSequenceEvent(i)}
-                        >
-                          <Trash2 className="h-4 w-4" />
-                        </Button>
-                      )}
                     </div>
-                  ))}
-                  <Button
-                    variant="outline"
-                    size="sm"
-                    onClick={addSequenceEvent}
-                    className="w-full"
-                  >
-                    <Plus className="h-4 w-4 mr-1" />
-                    Add Event
-                  </Button>
+                  </div>
+                  <FieldError message={errorFor('rule_config.condition.max_hours_ago')} />
+                </>
+              )}
+          
+              {/* Compound Configuration */}
+              {ruleType === 'compound' && (
+                <>
+                  <div className="space-y-2">
+                    <Label>Complete when</Label>
+                    <Select value={compoundOperator} onValueChange={(v) => setCompoundOperator(v as CompoundConfig['operator'])}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="AND">All child rules are completed</SelectItem>
+                        <SelectItem value="OR">Any child rule is completed</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+              
+                  <div className="space-y-2">
+                    <Label>Child Rules</Label>
+                    <div className="max-h-40 overflow-y-auto space-y-2 rounded-md border border-border p-2">
+                      {referenceableRules.length === 0 ? (
+                        <p className="text-xs text-muted-foreground">Create some goals first</p>
+                      ) : referenceableRules.map(r => (
+                        <div key={r.id} className="flex items-center gap-2">
+                          <Checkbox
+                            id={`child-${r.id}`}
+                            checked={childRuleIds.includes(r.id)}
+                            onCheckedChange={(checked) => toggleChildRule(r.id, checked === true)}
+                          />
+                          <Label htmlFor={`child-${r.id}`} className="text-sm font-normal">
+                            {r.name}
+                            <span className="text-xs text-muted-foreground ml-1">({RULE_TYPE_LABELS[r.rule_type]})</span>
+                          </Label>
+                        </div>
+                      ))}
+                    </div>
+                    <FieldError message={errorFor('rule_config.child_rule_ids')} />
+                  </div>
+                </>
+              )}
+          
+              {/* Dependency preview for gates and compounds */}
+              {(ruleType === 'gate' ? !!gatedRuleId : ruleType === 'compound' && childRuleIds.length > 0) && (
+                <div className="space-y-1">
+                  <Label className="text-xs text-muted-foreground">Depends on</Label>
+                  <DependencyTree
+                    ruleIds={ruleType === 'gate' ? [gatedRuleId] : childRuleIds}
+                    rulesById={rulesById}
+                  />
                 </div>
+              )}
+          
+              {/* Common fields */}
+              <div className="space-y-2">
+                <Label>Window</Label>
+                <Select value={windowType} onValueChange={(v) => setWindowType(v as WindowType)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="rolling">Rolling (last N days)</SelectItem>
+                    <SelectItem value="calendar_day">Calendar day</SelectItem>
+                    <SelectItem value="iso_week">Calendar week (Mon-Sun)</SelectItem>
+                    <SelectItem value="calendar_month">Calendar month</SelectItem>
+                  </SelectContent>
+                </Select>
               </div>
-              
+          
               <div className="grid grid-cols-2 gap-4">
+                {windowType === 'rolling' && (
+                  <div className="space-y-2">
+                    <Label htmlFor="rollingDays">Rolling Window (days)</Label>
+                    <Input
+                      id="rollingDays"
+                      type="number"
+                      value={rollingDays}
+                      onChange={(e) => setRollingDays(Number(e.target.value))}
+                      min={1}
+                    />
+                    <FieldError message={errorFor('rolling_window_days')} />
+                  </div>
+                )}
+                {ruleType !== 'compound' && (
+                  <div className="space-y-2">
+                    <Label htmlFor="requiredCompletions">Required Completions</Label>
+                    <Input
+                      id="requiredCompletions"
+                      type="number"
+                      value={requiredCompletions}
+                      onChange={(e) => setRequiredCompletions(Number(e.target.value))}
+                      min={1}
+                    />
+                    <FieldError message={errorFor('required_completions')} />
+                  </div>
+                )}
+              </div>
+            </TabsContent>
+          </Tabs>
+          
+          {draft.rule_type !== 'aggregate' && draft.rule_type !== 'compound' && (
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Inferred Events</Label>
+                <Select value={confidenceMode} onValueChange={(v) => setConfidenceMode(v as ConfidenceMode)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">Count in full</SelectItem>
+                    <SelectItem value="threshold">Ignore below confidence</SelectItem>
+                    <SelectItem value="fractional">Count by confidence</SelectItem>
+                    <SelectItem value="require_confirmed">Require one confirmed</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              {confidenceMode !== 'all' && (
                 <div className="space-y-2">
-                  <Label htmlFor="minHours">Min Hours</Label>
+                  <Label htmlFor="minConfidence">
+                    {confidenceMode === 'threshold' ? 'Min Confidence' : 'Confirmed at'}
+                  </Label>
                   <Input
-                    id="minHours"
+                    id="minConfidence"
                     type="number"
-                    value={minHours}
-                    onChange={(e) => setMinHours(Number(e.target.value))}
+                    value={minConfidence}
+                    onChange={(e) => setMinConfidence(Number(e.target.value))}
                     min={0}
+                    max={1}
+                    step={0.05}
                   />
+                  <FieldError message={errorFor('confidence_policy.min_confidence')} />
                 </div>
-                <div className="space-y-2">
-                  <Label htmlFor="maxHours">Max Hours</Label>
-                  <Input
-                    id="maxHours"
-                    type="number"
-                    value={maxHours}
-                    onChange={(e) => setMaxHours(Number(e.target.value))}
-                    min={1}
-                  />
-                </div>
-              </div>
-            </>
-          )}
-          
-          {/* Count Configuration */}
-          {ruleType === 'count' && (
-            <>
-              <div className="space-y-2">
-                <Label htmlFor="eventName">Event Name</Label>
-                <Input
-                  id="eventName"
-                  value={countEventName}
-                  onChange={(e) => setCountEventName(e.target.value)}
-                  placeholder="e.g., training_session"
-                />
-              </div>
-              
-              <div className="space-y-2">
-                <Label htmlFor="requiredCount">Required Count</Label>
-                <Input
-                  id="requiredCount"
-                  type="number"
-                  value={requiredCount}
-                  onChange={(e) => setRequiredCount(Number(e.target.value))}
-                  min={1}
-                />
-              </div>
-            </>
-          )}
-          
-          {/* Common fields */}
-          <div className="grid grid-cols-2 gap-4">
-            <div className="space-y-2">
-              <Label htmlFor="rollingDays">Rolling Window (days)</Label>
-              <Input
-                id="rollingDays"
-                type="number"
-                value={rollingDays}
-                onChange={(e) => setRollingDays(Number(e.target.value))}
-                min={1}
-              />
-            </div>
-            <div className="space-y-2">
-              <Label htmlFor="requiredCompletions">Required Completions</Label>
-              <Input
-                id="requiredCompletions"
-                type="number"
-                value={requiredCompletions}
-                onChange={(e) => setRequiredCompletions(Number(e.target.value))}
-                min={1}
-              />
+              )}
             </div>
-          </div>
+          )}
         </div>
         
+        {preview && (
+          <div className="text-xs text-muted-foreground border-t border-border pt-3">
+            {'With recent events this goal would be '}
+            <span className="font-medium text-foreground">{preview.status.replace(/_/g, ' ')}</span>
+            <span className="font-mono"> ({preview.completions_in_window}/{preview.required_in_window})</span>
+            {preview.last_fail_reason && (
+              <p className="mt-1">{preview.last_fail_reason}</p>
+            )}
+          </div>
+        )}
+        
+        {onBacktest && (
+          <BacktestPreview
+            draft={{ ...draft, id: existingRule?.id }}
+            disabled={hasErrors}
+            onBacktest={onBacktest}
+          />
+        )}
+        
+        {showErrors && hasErrors && (
+          <div className="flex items-center gap-2 text-destructive text-xs">
+            <AlertCircle className="h-3 w-3" />
+            Fix {Object.keys(errors).length} issue{Object.keys(errors).length === 1 ? '' : 's'} before saving
+          </div>
+        )}
+        
         <DialogFooter>
           <Button variant="outline" onClick={onClose}>
             Cancel
           </Button>
-          <Button onClick={handleSave} disabled={!name.trim() || isSaving}>
+          <Button onClick={handleSave} disabled={hasFilterErrors || isSaving || (showErrors && hasErrors)}>
             {isSaving ? 'Saving...' : (existingRule ? 'Save Changes' : 'Create Goal')}
           </Button>
         </DialogFooter>
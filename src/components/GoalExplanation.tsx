@@ -0,0 +1,195 @@
+import { useState } from "react";
+import { ChevronRight, Search, AlertCircle } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { cn } from "@/lib/utils";
+import type { RuleExplanation, TraceAnchor, TraceCandidate, TraceVerdict } from "@/hooks/useGoalTracking";
+
+interface GoalExplanationProps {
+  ruleId: string;
+  timeZone: string;
+  onExplain: (ruleId: string) => Promise<RuleExplanation>;
+}
+
+const VERDICTS: Record<TraceVerdict, { label: string; className: string }> = {
+  matched: { label: 'matched', className: 'text-green-600 border-green-500/40' },
+  counted: { label: 'counted', className: 'text-green-600 border-green-500/40' },
+  too_early: { label: 'too early', className: 'text-amber-600 border-amber-500/40' },
+  too_late: { label: 'too late', className: 'text-amber-600 border-amber-500/40' },
+  already_used: { label: 'already used', className: 'text-muted-foreground' },
+  not_needed: { label: 'not needed', className: 'text-muted-foreground' },
+  wrong_type: { label: 'wrong type', className: 'text-red-500 border-red-500/40' },
+  outside_window: { label: 'outside window', className: 'text-muted-foreground' },
+  low_confidence: { label: 'low confidence', className: 'text-amber-600 border-amber-500/40' },
+  gate_closed: { label: 'gate closed', className: 'text-red-500 border-red-500/40' },
+  violation: { label: 'violation', className: 'text-red-500 border-red-500/40' },
+};
+
+const OUTCOMES: Record<TraceAnchor['outcome'], { label: string; className: string }> = {
+  completed: { label: 'completed', className: 'text-green-600 border-green-500/40' },
+  pending: { label: 'pending', className: 'text-blue-500 border-blue-500/40' },
+  expired: { label: 'expired', className: 'text-red-500 border-red-500/40' },
+  violated: { label: 'violated', className: 'text-red-500 border-red-500/40' },
+  already_used: { label: 'already used', className: 'text-muted-foreground' },
+  wrong_type: { label: 'wrong type', className: 'text-red-500 border-red-500/40' },
+};
+
+function TraceBadge({ label, className }: { label: string; className: string }) {
+  return <Badge variant="outline" className={cn("text-[10px] px-1.5 py-0 font-normal shrink-0", className)}>{label}</Badge>;
+}
+
+function ExplanationNode({ explanation, formatTime }: { explanation: RuleExplanation; formatTime: (iso: string) => string }) {
+  const candidateRow = (candidate: TraceCandidate) => (
+    <div key={`${candidate.event_id}-${candidate.verdict}`} className="flex items-center gap-2 text-xs">
+      <TraceBadge {...VERDICTS[candidate.verdict]} />
+      <span className="font-mono truncate">{candidate.event_name}</span>
+      <span className="text-muted-foreground ml-auto shrink-0">{formatTime(candidate.occurred_at)}</span>
+    </div>
+  );
+
+  const isEmpty = explanation.anchors.length === 0 && explanation.events.length === 0 &&
+    explanation.days.length === 0 && explanation.children.length === 0;
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-0.5">
+        <p className="text-xs text-muted-foreground">
+          <span className="font-medium text-foreground">{explanation.name}</span>
+          {' · '}{explanation.status.replace(/_/g, ' ')}
+          {explanation.window_start && ` · window from ${formatTime(explanation.window_start)}`}
+        </p>
+        {explanation.summary && <p className="text-xs text-muted-foreground">{explanation.summary}</p>}
+        {explanation.paused && (
+          <p className="text-xs text-muted-foreground">
+            {explanation.paused.kind === 'excused' ? 'Excused' : 'Paused'} {explanation.paused.starts_on} – {explanation.paused.ends_on}
+          </p>
+        )}
+      </div>
+
+      {explanation.anchors.length > 0 && (
+        <div className="space-y-1">
+          {explanation.anchors.map(anchor => (
+            <Collapsible key={`${anchor.event_id}-${anchor.outcome}`}>
+              <CollapsibleTrigger
+                className="group flex w-full items-center gap-2 rounded px-1 py-1 text-left text-xs hover:bg-muted/50"
+                disabled={anchor.steps.length === 0}
+              >
+                <ChevronRight className={cn(
+                  "h-3 w-3 shrink-0 transition-transform group-data-[state=open]:rotate-90",
+                  anchor.steps.length === 0 && "invisible"
+                )} />
+                <TraceBadge {...OUTCOMES[anchor.outcome]} />
+                <span className="font-mono truncate">{anchor.event_name}</span>
+                <span className="text-muted-foreground ml-auto shrink-0">{formatTime(anchor.occurred_at)}</span>
+              </CollapsibleTrigger>
+              <CollapsibleContent className="pl-6 pr-1 pb-2 space-y-2">
+                {anchor.note && <p className="text-xs text-muted-foreground">{anchor.note}</p>}
+                {anchor.steps.map(step => (
+                  <div key={step.step_index} className="space-y-1">
+                    <p className="text-xs">
+                      <span className="font-mono">{step.name}</span>
+                      <span className="text-muted-foreground">
+                        {' '}between {formatTime(step.window_start)} and {formatTime(step.window_end)}
+                      </span>
+                    </p>
+                    {step.candidates.length === 0 ? (
+                      <p className="text-xs text-muted-foreground">No {step.name} events nearby</p>
+                    ) : (
+                      <div className="space-y-1 border-l border-border pl-2">
+                        {step.candidates.map(candidateRow)}
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </CollapsibleContent>
+            </Collapsible>
+          ))}
+        </div>
+      )}
+
+      {explanation.events.length > 0 && (
+        <div className="space-y-1">{explanation.events.map(candidateRow)}</div>
+      )}
+
+      {explanation.days.length > 0 && (
+        <div className="space-y-1">
+          {explanation.days.map(day => (
+            <div key={day.date} className="flex items-center gap-2 text-xs">
+              <TraceBadge
+                label={day.met ? 'met' : 'missed'}
+                className={day.met ? VERDICTS.counted.className : VERDICTS.wrong_type.className}
+              />
+              <span className="font-mono">{day.date}</span>
+              <span className="text-muted-foreground ml-auto">
+                {day.value === null ? 'nothing logged' : Number(day.value.toFixed(1))}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {explanation.children.map(child => (
+        <div key={child.rule_id} className="border-l-2 border-border pl-3">
+          <ExplanationNode explanation={child} formatTime={formatTime} />
+        </div>
+      ))}
+
+      {isEmpty && !explanation.paused && (
+        <p className="text-xs text-muted-foreground">No matching events in the window</p>
+      )}
+    </div>
+  );
+}
+
+export function GoalExplanation({ ruleId, timeZone, onExplain }: GoalExplanationProps) {
+  const [explanation, setExplanation] = useState<RuleExplanation | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const formatTime = (isoString: string) =>
+    new Date(isoString).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit', timeZone });
+
+  const handleExplain = async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      setExplanation(await onExplain(ruleId));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-sm flex items-center gap-2">
+            <Search className="h-4 w-4" />
+            Why this status?
+          </CardTitle>
+          <Button variant="outline" size="sm" className="h-7 text-xs" onClick={handleExplain} disabled={isLoading}>
+            {isLoading ? 'Explaining...' : explanation ? 'Refresh' : 'Explain'}
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {error ? (
+          <div className="flex items-center gap-2 text-destructive text-xs">
+            <AlertCircle className="h-3 w-3" />
+            {error}
+          </div>
+        ) : explanation ? (
+          <ExplanationNode explanation={explanation} formatTime={formatTime} />
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            Trace every event the evaluator considered and why it counted or not
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,245 @@
+import { useState, useEffect, useMemo } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { Area, CartesianGrid, ComposedChart, Line, ReferenceArea, ReferenceLine, XAxis, YAxis } from "recharts";
+import { History } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { supabase } from "@/integrations/supabase/client";
+import { buildStatusHistory, getLocalDate } from "@shared/goal-engine";
+import type { DecisionImpact, GoalPause, GoalRule, HistoryEvaluation, RuleVersion, StatusHistoryDay } from "@/hooks/useGoalTracking";
+
+const RANGES = [
+  { label: '4w', days: 28 },
+  { label: '3m', days: 90 },
+  { label: '6m', days: 180 },
+];
+
+const STATUS_COLORS: Record<StatusHistoryDay['status'], string> = {
+  completed: 'bg-green-500',
+  on_track: 'bg-blue-500',
+  at_risk: 'bg-amber-500',
+  off_track: 'bg-red-500',
+};
+
+const PAUSED_COLOR = 'bg-muted-foreground/40';
+
+const pauseLabel = (pause: GoalPause) =>
+  `${pause.kind === 'excused' ? 'excused' : 'paused'}${pause.reason ? ` (${pause.reason})` : ''}`;
+
+const chartConfig = {
+  completions: { label: 'Completions', color: 'hsl(var(--primary))' },
+  required: { label: 'Required', color: 'hsl(var(--muted-foreground))' },
+} satisfies ChartConfig;
+
+interface GoalHistoryProps {
+  rule: GoalRule;
+  // Versions after the first are marked where the rule changed
+  versions?: RuleVersion[];
+  // Paused and excused days are shaded
+  pauses?: GoalPause[];
+  timeZone: string;
+}
+
+export function GoalHistory({ rule, versions = [], pauses = [], timeZone }: GoalHistoryProps) {
+  const [rangeDays, setRangeDays] = useState(RANGES[0].days);
+  const [evaluations, setEvaluations] = useState<HistoryEvaluation[]>([]);
+  const [impacts, setImpacts] = useState<DecisionImpact[]>([]);
+  const [selectedDate, setSelectedDate] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchHistory = async () => {
+      setIsLoading(true);
+      const since = new Date(Date.now() - rangeDays * 24 * 60 * 60 * 1000).toISOString();
+
+      const [evaluationsRes, impactsRes] = await Promise.all([
+        supabase
+          .from('goal_evaluations')
+          .select('status, evaluated_at, last_fail_reason, completions_in_window, required_in_window')
+          .eq('goal_rule_id', rule.id)
+          .gte('evaluated_at', since)
+          .order('evaluated_at', { ascending: true }),
+        supabase
+          .from('decision_impacts')
+          .select('*')
+          .eq('goal_rule_id', rule.id)
+          .gte('created_at', since)
+          .order('created_at', { ascending: true }),
+      ]);
+
+      setEvaluations((evaluationsRes.data || []) as HistoryEvaluation[]);
+      setImpacts((impactsRes.data || []) as unknown as DecisionImpact[]);
+      setIsLoading(false);
+    };
+
+    fetchHistory();
+  }, [rule.id, rangeDays]);
+
+  const history = useMemo(() => buildStatusHistory(evaluations, timeZone), [evaluations, timeZone]);
+  const changeDays = history.filter(day => day.changed_at);
+  // Rule edits within the charted range, placed on the first evaluated day from the edit on
+  const versionMarkers = versions
+    .filter(v => v.version > 1 && history.length > 0 && getLocalDate(new Date(v.created_at), timeZone) >= history[0].date)
+    .map(v => {
+      const editDate = getLocalDate(new Date(v.created_at), timeZone);
+      return { version: v.version, date: history.find(day => day.date >= editDate)?.date };
+    })
+    .filter((marker): marker is { version: number; date: string } => !!marker.date);
+  const selectedVersions = versionMarkers.filter(marker => marker.date === selectedDate);
+  const findPauseOn = (date: string) => pauses.find(p => p.starts_on <= date && date <= p.ends_on);
+  // Pauses spanning charted days, clipped to the evaluated days they cover
+  const pauseAreas = pauses
+    .map(pause => {
+      const covered = history.filter(day => pause.starts_on <= day.date && day.date <= pause.ends_on);
+      return covered.length > 0 ? { pause, x1: covered[0].date, x2: covered[covered.length - 1].date } : null;
+    })
+    .filter((area): area is { pause: GoalPause; x1: string; x2: string } => area !== null);
+  const selectedDay = history.find(day => day.date === selectedDate) || null;
+
+  // Impacts recorded on the selected day are the ones that moved the status
+  const selectedImpacts = selectedDay
+    ? impacts.filter(impact => getLocalDate(new Date(impact.created_at), timeZone) === selectedDay.date)
+    : [];
+
+  const chartData = history.map(day => ({
+    date: day.date,
+    completions: day.completions_in_window,
+    required: day.required_in_window,
+  }));
+
+  const formatDate = (date: string) =>
+    new Date(`${date}T00:00:00Z`).toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' });
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-sm flex items-center gap-2">
+            <History className="h-4 w-4" />
+            History
+          </CardTitle>
+          <div className="flex gap-1">
+            {RANGES.map(range => (
+              <Button
+                key={range.label}
+                variant={rangeDays === range.days ? 'secondary' : 'ghost'}
+                size="sm"
+                className="h-6 px-2 text-xs"
+                onClick={() => setRangeDays(range.days)}
+              >
+                {range.label}
+              </Button>
+            ))}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading...</p>
+        ) : history.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No evaluations in this period</p>
+        ) : (
+          <>
+            <ChartContainer config={chartConfig} className="aspect-auto h-40 w-full">
+              <ComposedChart data={chartData} margin={{ top: 8, right: 8, bottom: 0, left: -24 }}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="date" tickFormatter={formatDate} tickLine={false} axisLine={false} minTickGap={24} />
+                <YAxis allowDecimals={false} tickLine={false} axisLine={false} />
+                <ChartTooltip content={<ChartTooltipContent labelFormatter={(value) => formatDate(String(value))} />} />
+                {pauseAreas.map(({ pause, x1, x2 }) => (
+                  <ReferenceArea
+                    key={pause.id}
+                    x1={x1}
+                    x2={x2}
+                    fill="hsl(var(--muted-foreground))"
+                    fillOpacity={0.12}
+                    strokeOpacity={0}
+                  />
+                ))}
+                {changeDays.map(day => (
+                  <ReferenceLine key={day.date} x={day.date} stroke="hsl(var(--border))" strokeDasharray="3 3" />
+                ))}
+                {versionMarkers.map(marker => (
+                  <ReferenceLine
+                    key={`v${marker.version}`}
+                    x={marker.date}
+                    stroke="hsl(var(--primary))"
+                    label={{ value: `v${marker.version}`, position: 'insideTopRight', fontSize: 10, fill: 'hsl(var(--primary))' }}
+                  />
+                ))}
+                <Area
+                  type="stepAfter"
+                  dataKey="completions"
+                  stroke="var(--color-completions)"
+                  fill="var(--color-completions)"
+                  fillOpacity={0.15}
+                />
+                <Line type="stepAfter" dataKey="required" stroke="var(--color-required)" strokeDasharray="4 4" dot={false} />
+              </ComposedChart>
+            </ChartContainer>
+
+            {/* Status timeline: one segment per evaluated day, change points ringed */}
+            <div className="flex gap-0.5">
+              {history.map(day => (
+                <button
+                  key={day.date}
+                  type="button"
+                  title={`${formatDate(day.date)}: ${findPauseOn(day.date) ? pauseLabel(findPauseOn(day.date)!) : day.status.replace(/_/g, ' ')}`}
+                  disabled={!day.changed_at}
+                  onClick={() => setSelectedDate(day.date === selectedDate ? null : day.date)}
+                  className={cn(
+                    "h-3 flex-1 min-w-[3px] rounded-sm",
+                    findPauseOn(day.date) ? PAUSED_COLOR : STATUS_COLORS[day.status],
+                    day.changed_at ? "cursor-pointer ring-1 ring-offset-1 ring-foreground/40" : "opacity-60",
+                    day.date === selectedDate && "ring-2 ring-foreground"
+                  )}
+                />
+              ))}
+            </div>
+
+            {pauseAreas.length > 0 && (
+              <p className="text-xs text-muted-foreground">Shaded days were paused or excused.</p>
+            )}
+
+            {changeDays.length > 0 && !selectedDay && (
+              <p className="text-xs text-muted-foreground">
+                {changeDays.length} status change{changeDays.length === 1 ? '' : 's'}. Select a marked day to see what caused it.
+              </p>
+            )}
+
+            {selectedDay && (
+              <div className="space-y-2 border-t border-border pt-3">
+                <p className="text-xs">
+                  <span className="font-medium">{formatDate(selectedDay.date)}</span>
+                  {': '}
+                  {selectedDay.previous_status?.replace(/_/g, ' ')}
+                  {' → '}
+                  {selectedDay.status.replace(/_/g, ' ')}
+                </p>
+                {findPauseOn(selectedDay.date) && (
+                  <p className="text-xs text-muted-foreground">This day was {pauseLabel(findPauseOn(selectedDay.date)!)}</p>
+                )}
+                {selectedVersions.map(marker => (
+                  <p key={marker.version} className="text-xs text-primary">Rule changed to v{marker.version}</p>
+                ))}
+                {selectedImpacts.length === 0 ? (
+                  <p className="text-xs text-muted-foreground">No recorded impacts on this day</p>
+                ) : (
+                  selectedImpacts.map(impact => (
+                    <div key={impact.id} className="flex items-center justify-between gap-2 text-xs">
+                      <span className="font-mono">{impact.impact_type.replace(/_/g, ' ')}</span>
+                      <span className="text-muted-foreground">
+                        {new Date(impact.created_at).toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit', timeZone })}
+                      </span>
+                    </div>
+                  ))
+                )}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
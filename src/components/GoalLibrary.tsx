@@ -0,0 +1,193 @@
+import { useState, useRef } from "react";
+import { Upload, Download, AlertCircle, Plus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from "@/components/ui/dialog";
+import { GOAL_TEMPLATES, RULE_BUNDLE_FORMAT, RULE_BUNDLE_VERSION } from "@shared/goal-engine";
+import { downloadRuleBundle, parseRuleFile, type RuleFileFormat } from "@/lib/ruleFiles";
+import type { GoalTemplate, GoalWithEvaluation, RuleBundle } from "@/hooks/useGoalTracking";
+
+type ImportResult = { count: number; errors: string[] };
+
+interface GoalLibraryProps {
+  isOpen: boolean;
+  onClose: () => void;
+  goals: GoalWithEvaluation[];
+  onImport: (bundle: unknown) => Promise<ImportResult>;
+  onExport: (ruleIds: string[]) => Promise<RuleBundle>;
+}
+
+export function GoalLibrary({ isOpen, onClose, goals, onImport, onExport }: GoalLibraryProps) {
+  const [errors, setErrors] = useState<string[]>([]);
+  const [message, setMessage] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [format, setFormat] = useState<RuleFileFormat>('json');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const runImport = async (bundle: unknown, label: string) => {
+    setErrors([]);
+    setMessage(null);
+    setIsBusy(true);
+    try {
+      const result = await onImport(bundle);
+      if (result.errors.length > 0) {
+        setErrors(result.errors);
+      } else {
+        setMessage(`Added ${result.count} rule${result.count === 1 ? '' : 's'} from ${label}`);
+      }
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleTemplate = (template: GoalTemplate) =>
+    runImport({ format: RULE_BUNDLE_FORMAT, version: RULE_BUNDLE_VERSION, rules: template.rules }, template.name);
+
+  const handleFile = async (file: File) => {
+    const { data, error } = parseRuleFile(await file.text());
+    if (error) {
+      setMessage(null);
+      setErrors([`${file.name}: ${error}`]);
+      return;
+    }
+    await runImport(data, file.name);
+  };
+
+  const handleExport = async () => {
+    setIsBusy(true);
+    try {
+      downloadRuleBundle(await onExport(selectedIds), format);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const toggleSelected = (id: string, checked: boolean) => {
+    setSelectedIds(prev => checked ? [...prev, id] : prev.filter(x => x !== id));
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Goal Library</DialogTitle>
+          <DialogDescription>
+            Start from a template, or share rules as JSON/YAML files
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs defaultValue="templates">
+          <TabsList className="grid w-full grid-cols-3">
+            <TabsTrigger value="templates">Templates</TabsTrigger>
+            <TabsTrigger value="import">Import</TabsTrigger>
+            <TabsTrigger value="export">Export</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="templates" className="space-y-2 max-h-80 overflow-y-auto">
+            {GOAL_TEMPLATES.map(template => (
+              <div key={template.id} className="flex items-start justify-between gap-3 rounded-md border border-border p-3">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium">{template.name}</p>
+                  <p className="text-xs text-muted-foreground">{template.description}</p>
+                  {template.rules.length > 1 && (
+                    <p className="text-[10px] text-muted-foreground mt-1">{template.rules.length} rules</p>
+                  )}
+                </div>
+                <Button variant="outline" size="sm" disabled={isBusy} onClick={() => handleTemplate(template)}>
+                  <Plus className="h-4 w-4 mr-1" />
+                  Add
+                </Button>
+              </div>
+            ))}
+          </TabsContent>
+
+          <TabsContent value="import" className="space-y-3">
+            <div
+              onClick={() => fileInputRef.current?.click()}
+              className="border-2 border-dashed rounded-lg p-8 text-center cursor-pointer border-border hover:border-primary/50 hover:bg-muted/50"
+            >
+              <Upload className="w-8 h-8 mx-auto mb-3 text-muted-foreground" />
+              <p className="text-sm font-medium">{isBusy ? 'Importing...' : 'Choose a rules file'}</p>
+              <p className="text-xs text-muted-foreground mt-1">.json, .yaml or .yml exported from here</p>
+            </div>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".json,.yaml,.yml"
+              onChange={(e) => {
+                if (e.target.files?.[0]) handleFile(e.target.files[0]);
+                e.target.value = '';
+              }}
+              className="hidden"
+            />
+            <p className="text-xs text-muted-foreground">
+              Imported rules get new IDs; gate and compound references are remapped to them.
+            </p>
+          </TabsContent>
+
+          <TabsContent value="export" className="space-y-3">
+            <div className="max-h-56 overflow-y-auto space-y-2">
+              {goals.map(({ rule }) => (
+                <div key={rule.id} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`export-${rule.id}`}
+                    checked={selectedIds.includes(rule.id)}
+                    onCheckedChange={(checked) => toggleSelected(rule.id, checked === true)}
+                  />
+                  <Label htmlFor={`export-${rule.id}`} className="text-sm font-normal">
+                    {rule.name}
+                    <span className="text-xs text-muted-foreground ml-1">({rule.rule_type})</span>
+                  </Label>
+                </div>
+              ))}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Rules referenced by selected gates and compounds are included automatically.
+            </p>
+            <div className="flex items-center gap-2">
+              <Select value={format} onValueChange={(v) => setFormat(v as RuleFileFormat)}>
+                <SelectTrigger className="w-28">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="json">JSON</SelectItem>
+                  <SelectItem value="yaml">YAML</SelectItem>
+                </SelectContent>
+              </Select>
+              <Button
+                className="flex-1"
+                disabled={selectedIds.length === 0 || isBusy}
+                onClick={handleExport}
+              >
+                <Download className="h-4 w-4 mr-1" />
+                Export {selectedIds.length > 0 ? selectedIds.length : ''} rule{selectedIds.length === 1 ? '' : 's'}
+              </Button>
+            </div>
+          </TabsContent>
+        </Tabs>
+
+        {message && <p className="text-xs text-green-500">{message}</p>}
+        {errors.length > 0 && (
+          <div className="space-y-1">
+            {errors.map(error => (
+              <div key={error} className="flex items-start gap-2 text-destructive text-xs">
+                <AlertCircle className="w-3 h-3 mt-0.5 shrink-0" />
+                {error}
+              </div>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -11,24 +11,44 @@ import {
   XCircle,
   ChevronRight,
   Plus,
-  RefreshCw
+  RefreshCw,
+  ShieldAlert,
+  BarChart3,
+  Flame,
+  TrendingUp,
+  Library,
+  FileWarning,
+  PauseCircle,
+  Palmtree
 } from "lucide-react";
 import { cn } from "@/lib/utils";
-import type { GoalWithEvaluation, PendingWindow } from "@/hooks/useGoalTracking";
+import type { AggregateDay, ConfidenceSplit, GoalForecast, GoalPause, GoalWithEvaluation, PendingWindow, RuleLint } from "@/hooks/useGoalTracking";
+
+const formatDay = (date: string) =>
+  new Date(`${date}T00:00:00Z`).toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' });
 
 interface GoalCardProps {
   goal: GoalWithEvaluation;
+  lints: RuleLint[];
   onSelect: (goalId: string) => void;
 }
 
-function GoalCard({ goal, onSelect }: GoalCardProps) {
-  const { rule, evaluation } = goal;
+function GoalCard({ goal, lints, onSelect }: GoalCardProps) {
+  const { rule, evaluation, streak } = goal;
   
   const status = evaluation?.status || 'off_track';
   const completions = evaluation?.completions_in_window || 0;
   const required = evaluation?.required_in_window || rule.required_completions;
   const progress = required > 0 ? (completions / required) * 100 : 0;
   const pendingWindows = (evaluation?.pending_windows || []) as PendingWindow[];
+  const protectedWindow = pendingWindows.find(w => w.avoid);
+  const aggregateDays = rule.rule_type === 'aggregate'
+    ? (evaluation?.details?.days as AggregateDay[] | undefined) || []
+    : [];
+  const today = aggregateDays[aggregateDays.length - 1];
+  const forecast = evaluation?.details?.forecast as GoalForecast | undefined;
+  const split = evaluation?.details?.confidence_split as ConfidenceSplit | undefined;
+  const paused = evaluation?.details?.paused as GoalPause | undefined;
   
   const statusConfig = {
     completed: { 
@@ -60,6 +80,9 @@ function GoalCard({ goal, onSelect }: GoalCardProps) {
   const config = statusConfig[status];
   const StatusIcon = config.icon;
   
+  const formatHorizon = (iso: string) =>
+    new Date(iso).toLocaleString('en-US', { weekday: 'short', hour: '2-digit', minute: '2-digit' });
+
   // Calculate time remaining for at-risk windows
   const getTimeRemaining = (window: PendingWindow) => {
     const remaining = new Date(window.window_end).getTime() - Date.now();
@@ -97,6 +120,22 @@ function GoalCard({ goal, onSelect }: GoalCardProps) {
               </span>
             </div>
             
+            {paused && (
+              <div className="flex items-center gap-1 mt-1">
+                <PauseCircle className="h-3 w-3 text-muted-foreground" />
+                <span className="text-[10px] text-muted-foreground">
+                  {paused.kind === 'excused' ? 'Excused today' : `Paused until ${formatDay(paused.ends_on)}`}
+                  {paused.reason && ` · ${paused.reason}`}
+                </span>
+              </div>
+            )}
+            
+            {split && split.inferred > 0 && (
+              <p className="text-[10px] text-muted-foreground mt-1">
+                {split.confirmed} confirmed · {split.inferred} inferred (below {split.min_confidence} confidence)
+              </p>
+            )}
+            
             {pendingWindows.length > 0 && status === 'at_risk' && (
               <div className="flex items-center gap-1 mt-2">
                 <Clock className="h-3 w-3 text-amber-500" />
@@ -105,6 +144,62 @@ function GoalCard({ goal, onSelect }: GoalCardProps) {
                 </span>
               </div>
             )}
+            
+            {today && (
+              <div className="flex items-center gap-1 mt-2">
+                <BarChart3 className={cn("h-3 w-3", today.met ? "text-green-500" : "text-muted-foreground")} />
+                <span className={cn("text-xs", today.met ? "text-green-500" : "text-muted-foreground")}>
+                  Today: {today.value === null ? '—' : Number(today.value.toFixed(1))} {evaluation?.details?.operator === 'lte' ? '≤' : '≥'} {String(evaluation?.details?.threshold)}
+                </span>
+              </div>
+            )}
+            
+            {forecast && (
+              <div className="mt-2 space-y-0.5">
+                <div className="flex items-center gap-1">
+                  <TrendingUp className="h-3 w-3 text-muted-foreground" />
+                  <span className="text-xs">
+                    {Math.round(forecast.probability * 100)}% chance by {formatHorizon(forecast.horizon_end)}
+                  </span>
+                  {!forecast.sufficient_data && (
+                    <span className="text-[10px] text-muted-foreground">
+                      (too little history to set status)
+                    </span>
+                  )}
+                </div>
+                {forecast.reasons.map(reason => (
+                  <p key={reason} className="text-[10px] text-muted-foreground pl-4 truncate">
+                    {reason}
+                  </p>
+                ))}
+              </div>
+            )}
+            
+            {protectedWindow && (
+              <div className="flex items-center gap-1 mt-2">
+                <ShieldAlert className="h-3 w-3 text-amber-500" />
+                <span className="text-xs text-amber-500">
+                  Avoid {protectedWindow.avoid} for {getTimeRemaining(protectedWindow)}
+                </span>
+              </div>
+            )}
+            
+            {lints.length > 0 && (
+              <div className="mt-2 space-y-0.5">
+                {lints.map(lint => (
+                  <div
+                    key={`${lint.code}:${lint.message}`}
+                    className={cn(
+                      "flex items-start gap-1 text-[10px]",
+                      lint.severity === 'error' ? "text-red-500" : "text-amber-500"
+                    )}
+                  >
+                    <FileWarning className="h-3 w-3 mt-px shrink-0" />
+                    <span>{lint.message}</span>
+                  </div>
+                ))}
+              </div>
+            )}
           </div>
           
           <div className="flex flex-col items-end gap-2">
@@ -114,6 +209,12 @@ function GoalCard({ goal, onSelect }: GoalCardProps) {
             >
               {config.label}
             </Badge>
+            {streak.current > 0 && (
+              <span className="flex items-center gap-0.5 text-[10px] font-mono text-orange-500">
+                <Flame className="h-3 w-3" />
+                {streak.current}{streak.unit === 'week' ? 'wk' : 'd'}
+              </span>
+            )}
             <ChevronRight className="h-4 w-4 text-muted-foreground" />
           </div>
         </div>
@@ -124,20 +225,32 @@ function GoalCard({ goal, onSelect }: GoalCardProps) {
 
 interface GoalListProps {
   goals: GoalWithEvaluation[];
+  // Rule lints from the server's validate action
+  lints?: RuleLint[];
   isLoading: boolean;
   isEvaluating: boolean;
   onSelectGoal: (goalId: string) => void;
   onRefresh: () => void;
   onAddGoal: () => void;
+  onOpenLibrary: () => void;
+  // The pause of every goal in effect today, if any
+  vacation?: GoalPause | null;
+  onStartVacation: () => void;
+  onEndVacation: (pause: GoalPause) => void;
 }
 
 export function GoalList({ 
   goals, 
+  lints = [],
   isLoading, 
   isEvaluating,
   onSelectGoal, 
   onRefresh,
-  onAddGoal 
+  onAddGoal,
+  onOpenLibrary,
+  vacation,
+  onStartVacation,
+  onEndVacation
 }: GoalListProps) {
   const [filter, setFilter] = useState<'all' | 'at_risk' | 'off_track'>('all');
   
@@ -201,6 +314,22 @@ export function GoalList({
           >
             <RefreshCw className={cn("h-4 w-4", isEvaluating && "animate-spin")} />
           </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={onStartVacation}
+            title="Vacation mode: pause every goal"
+          >
+            <Palmtree className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={onOpenLibrary}
+            title="Templates, import and export"
+          >
+            <Library className="h-4 w-4" />
+          </Button>
           <Button
             variant="outline"
             size="sm"
@@ -212,6 +341,23 @@ export function GoalList({
         </div>
       </div>
 
+      {vacation && (
+        <Card className="p-3">
+          <div className="flex items-center justify-between gap-2">
+            <div className="flex items-center gap-2 text-sm">
+              <Palmtree className="h-4 w-4 text-muted-foreground" />
+              <span>
+                Vacation mode until {formatDay(vacation.ends_on)}
+                {vacation.reason && <span className="text-muted-foreground"> · {vacation.reason}</span>}
+              </span>
+            </div>
+            <Button variant="ghost" size="sm" onClick={() => onEndVacation(vacation)}>
+              End
+            </Button>
+          </div>
+        </Card>
+      )}
+
       {filteredGoals.length === 0 ? (
         <Card className="p-8">
           <div className="text-center text-muted-foreground">
@@ -235,6 +381,7 @@ export function GoalList({
             <GoalCard 
               key={goal.rule.id} 
               goal={goal} 
+              lints={lints.filter(l => l.rule_id === goal.rule.id)}
               onSelect={onSelectGoal}
             />
           ))}
@@ -0,0 +1,133 @@
+import { useState, useEffect } from "react";
+import { AlertCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { getLocalDate } from "@shared/goal-engine";
+import type { GoalPause } from "@/hooks/useGoalTracking";
+
+interface GoalPauseDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  // The goal to pause, or null to pause every goal (vacation mode)
+  goalRuleId: string | null;
+  goalName?: string;
+  timeZone: string;
+  onSave: (pause: Omit<GoalPause, 'id' | 'created_at'>) => Promise<{ error: { message: string } | null }>;
+}
+
+export function GoalPauseDialog({ isOpen, onClose, goalRuleId, goalName, timeZone, onSave }: GoalPauseDialogProps) {
+  const [kind, setKind] = useState<GoalPause['kind']>('pause');
+  const [startsOn, setStartsOn] = useState('');
+  const [endsOn, setEndsOn] = useState('');
+  const [reason, setReason] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const today = getLocalDate(new Date(), timeZone);
+    setKind('pause');
+    setStartsOn(today);
+    setEndsOn(today);
+    setReason('');
+    setError(null);
+  }, [isOpen, timeZone]);
+
+  // An excused day is a single day, and needs a reason
+  const effectiveEnd = kind === 'excused' ? startsOn : endsOn;
+  const problem = !startsOn || !effectiveEnd
+    ? 'Choose the dates'
+    : effectiveEnd < startsOn
+      ? 'The end date is before the start date'
+      : kind === 'excused' && !reason.trim()
+        ? 'Give a reason for the excused day'
+        : null;
+
+  const handleSave = async () => {
+    if (problem) return;
+    setIsSaving(true);
+    const { error } = await onSave({
+      goal_rule_id: goalRuleId,
+      kind,
+      starts_on: startsOn,
+      ends_on: effectiveEnd,
+      reason: reason.trim() || null,
+    });
+    setIsSaving(false);
+    if (error) setError(error.message);
+    else onClose();
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle>{goalRuleId ? `Pause ${goalName || 'goal'}` : 'Vacation mode'}</DialogTitle>
+          <DialogDescription>
+            {goalRuleId
+              ? 'Paused and excused days are left out of this goal\'s window and streak'
+              : 'Every goal is paused for these days'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {goalRuleId && (
+            <Tabs value={kind} onValueChange={(value) => setKind(value as GoalPause['kind'])}>
+              <TabsList className="grid w-full grid-cols-2">
+                <TabsTrigger value="pause">Pause</TabsTrigger>
+                <TabsTrigger value="excused">Excuse a day</TabsTrigger>
+              </TabsList>
+            </Tabs>
+          )}
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="pauseStartsOn">{kind === 'excused' ? 'Day' : 'From'}</Label>
+              <Input id="pauseStartsOn" type="date" value={startsOn} onChange={(e) => setStartsOn(e.target.value)} />
+            </div>
+            {kind === 'pause' && (
+              <div className="space-y-2">
+                <Label htmlFor="pauseEndsOn">Until</Label>
+                <Input id="pauseEndsOn" type="date" value={endsOn} min={startsOn} onChange={(e) => setEndsOn(e.target.value)} />
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="pauseReason">Reason{kind === 'pause' && ' (optional)'}</Label>
+            <Input
+              id="pauseReason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder={kind === 'excused' ? 'e.g. Sick' : 'e.g. Travel, deload week'}
+            />
+          </div>
+
+          {(error || (problem && startsOn)) && (
+            <div className="flex items-center gap-2 text-destructive text-xs">
+              <AlertCircle className="h-3 w-3" />
+              {error || problem}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button onClick={handleSave} disabled={!!problem || isSaving}>
+            {isSaving ? 'Saving...' : kind === 'excused' ? 'Excuse Day' : 'Pause'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -2,19 +2,56 @@ import { useState } from "react";
 import { GoalList } from "./GoalList";
 import { GoalDetail } from "./GoalDetail";
 import { GoalEditor } from "./GoalEditor";
+import { GoalLibrary } from "./GoalLibrary";
+import { GoalPauseDialog } from "./GoalPauseDialog";
+import { getLocalDate, getRulePauses } from "@shared/goal-engine";
 import { useGoalTracking } from "@/hooks/useGoalTracking";
+import type { Trackable } from "@/hooks/useTracking";
 
-export function GoalTrackingView() {
+interface GoalTrackingViewProps {
+  trackables: Trackable[];
+  timeZone: string;
+}
+
+export function GoalTrackingView({ trackables, timeZone }: GoalTrackingViewProps) {
   const [selectedGoalId, setSelectedGoalId] = useState<string | null>(null);
   const [isEditorOpen, setIsEditorOpen] = useState(false);
+  const [isLibraryOpen, setIsLibraryOpen] = useState(false);
+  // Goal being paused, or null for every goal; undefined while the pause dialog is closed
+  const [pauseTarget, setPauseTarget] = useState<{ id: string; name: string } | null | undefined>(undefined);
   
   const {
     goals,
     isLoading,
     isEvaluating,
     evaluateGoals,
+    previewGoalRule,
+    backtestGoalRule,
+    explainGoal,
     addGoalRule,
-  } = useGoalTracking();
+    importGoalRules,
+    exportGoalRules,
+    eventCatalog,
+    ruleLints,
+    pauses,
+    addGoalPause,
+    endGoalPause,
+    deleteGoalPause,
+  } = useGoalTracking(timeZone);
+
+  const today = getLocalDate(new Date(), timeZone);
+  const vacation = pauses.find(p => p.goal_rule_id === null && p.starts_on <= today && today <= p.ends_on) || null;
+
+  const pauseDialog = (
+    <GoalPauseDialog
+      isOpen={pauseTarget !== undefined}
+      onClose={() => setPauseTarget(undefined)}
+      goalRuleId={pauseTarget?.id ?? null}
+      goalName={pauseTarget?.name}
+      timeZone={timeZone}
+      onSave={addGoalPause}
+    />
+  );
 
   const selectedGoal = selectedGoalId 
     ? goals.find(g => g.rule.id === selectedGoalId) 
@@ -22,10 +59,19 @@ export function GoalTrackingView() {
 
   if (selectedGoal) {
     return (
-      <GoalDetail 
-        goal={selectedGoal} 
-        onBack={() => setSelectedGoalId(null)} 
-      />
+      <>
+        <GoalDetail 
+          goal={selectedGoal} 
+          onBack={() => setSelectedGoalId(null)} 
+          timeZone={timeZone}
+          pauses={getRulePauses(selectedGoal.rule.id, pauses)}
+          onPause={() => setPauseTarget({ id: selectedGoal.rule.id, name: selectedGoal.rule.name })}
+          onEndPause={endGoalPause}
+          onDeletePause={deleteGoalPause}
+          onExplain={explainGoal}
+        />
+        {pauseDialog}
+      </>
     );
   }
 
@@ -33,18 +79,38 @@ export function GoalTrackingView() {
     <>
       <GoalList
         goals={goals}
+        lints={ruleLints}
         isLoading={isLoading}
         isEvaluating={isEvaluating}
         onSelectGoal={setSelectedGoalId}
         onRefresh={() => evaluateGoals()}
         onAddGoal={() => setIsEditorOpen(true)}
+        onOpenLibrary={() => setIsLibraryOpen(true)}
+        vacation={vacation}
+        onStartVacation={() => setPauseTarget(null)}
+        onEndVacation={endGoalPause}
       />
       
       <GoalEditor
         isOpen={isEditorOpen}
         onClose={() => setIsEditorOpen(false)}
         onSave={addGoalRule}
+        onPreview={previewGoalRule}
+        onBacktest={backtestGoalRule}
+        trackables={trackables}
+        rules={goals.map(g => g.rule)}
+        eventCatalog={eventCatalog}
       />
+      
+      <GoalLibrary
+        isOpen={isLibraryOpen}
+        onClose={() => setIsLibraryOpen(false)}
+        goals={goals}
+        onImport={importGoalRules}
+        onExport={exportGoalRules}
+      />
+      
+      {pauseDialog}
     </>
   );
 }
@@ -0,0 +1,71 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { GitCommitHorizontal } from "lucide-react";
+import { buildVersionHistory } from "@shared/goal-engine";
+import type { RuleVersion } from "@/hooks/useGoalTracking";
+
+interface GoalVersionHistoryProps {
+  versions: RuleVersion[];
+  currentVersion?: number;
+  timeZone: string;
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === '') return 'none';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+export function GoalVersionHistory({ versions, currentVersion, timeZone }: GoalVersionHistoryProps) {
+  const history = buildVersionHistory(versions);
+
+  const formatDate = (isoString: string) =>
+    new Date(isoString).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit', timeZone });
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-sm flex items-center gap-2">
+          <GitCommitHorizontal className="h-4 w-4" />
+          Versions
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {history.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No versions recorded</p>
+        ) : (
+          <div className="space-y-4">
+            {history.map(({ version, changes }) => (
+              <div key={version.version} className="space-y-1">
+                <div className="flex items-center justify-between gap-2">
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm font-mono font-medium">v{version.version}</span>
+                    {version.version === currentVersion && (
+                      <Badge variant="secondary" className="text-xs">current</Badge>
+                    )}
+                  </div>
+                  <span className="text-xs text-muted-foreground">{formatDate(version.created_at)}</span>
+                </div>
+                {version.version === 1 ? (
+                  <p className="text-xs text-muted-foreground">Created</p>
+                ) : changes.length === 0 ? (
+                  <p className="text-xs text-muted-foreground">No changes to the definition</p>
+                ) : (
+                  changes.map(change => (
+                    <div key={change.path} className="text-xs">
+                      <span className="font-mono text-muted-foreground">{change.path.replace(/^rule_config\./, '')}</span>
+                      {': '}
+                      <span className="line-through text-red-500/80 break-all">{formatValue(change.before)}</span>
+                      {' → '}
+                      <span className="text-green-600 break-all">{formatValue(change.after)}</span>
+                    </div>
+                  ))
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,11 +1,14 @@
+import type { ReactNode } from "react";
 import { HelpCircle, Settings } from "lucide-react";
 import { Button } from "@/components/ui/button";
 
 interface HeaderProps {
   onWhatIfClick?: () => void;
+  onSettingsClick?: () => void;
+  inbox?: ReactNode;
 }
 
-export function Header({ onWhatIfClick }: HeaderProps) {
+export function Header({ onWhatIfClick, onSettingsClick, inbox }: HeaderProps) {
   return (
     <header className="sticky top-0 z-40 backdrop-blur-panel border-b border-border">
       <div className="container max-w-2xl mx-auto px-4 h-14 flex items-center justify-between">
@@ -28,7 +31,8 @@ export function Header({ onWhatIfClick }: HeaderProps) {
             <HelpCircle className="w-4 h-4 mr-1.5" />
             What if?
           </Button>
-          <Button variant="ghost" size="icon" className="text-muted-foreground">
+          {inbox}
+          <Button variant="ghost" size="icon" onClick={onSettingsClick} className="text-muted-foreground">
             <Settings className="w-4 h-4" />
           </Button>
         </div>
@@ -0,0 +1,105 @@
+import { useState } from "react";
+import { AlertTriangle, Bell, Clock, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { useGoalNotifications, type GoalNotification } from "@/hooks/useGoalNotifications";
+
+interface NotificationInboxProps {
+  timeZone: string;
+}
+
+const KIND_ICONS: Record<GoalNotification['kind'], typeof Bell> = {
+  at_risk: AlertTriangle,
+  window_closing: Clock,
+};
+
+export function NotificationInbox({ timeZone }: NotificationInboxProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const { notifications, unreadCount, isLoading, refresh, markRead, markAllRead, deleteNotification } =
+    useGoalNotifications();
+
+  const formatTime = (isoString: string) =>
+    new Date(isoString).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit', timeZone });
+
+  // "closes at 14:30", or "closed" once the window has passed
+  const closingLabel = (notification: GoalNotification) => {
+    const windowEnd = notification.details.window_end as string | undefined;
+    if (!windowEnd) return null;
+    if (new Date(windowEnd).getTime() <= Date.now()) return 'Window closed';
+    return `Closes ${new Date(windowEnd).toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit', hour12: false, timeZone })}`;
+  };
+
+  const handleOpenChange = (open: boolean) => {
+    setIsOpen(open);
+    if (open) refresh();
+  };
+
+  return (
+    <Popover open={isOpen} onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="icon" className="relative text-muted-foreground" aria-label="Notifications">
+          <Bell className="w-4 h-4" />
+          {unreadCount > 0 && (
+            <span className="absolute top-1 right-1 min-w-4 h-4 px-1 rounded-full bg-destructive text-destructive-foreground text-[10px] font-mono leading-4">
+              {unreadCount > 9 ? '9+' : unreadCount}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-0">
+        <div className="flex items-center justify-between px-4 py-2 border-b border-border">
+          <span className="text-sm font-medium">Notifications</span>
+          {unreadCount > 0 && (
+            <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={() => markAllRead()}>
+              Mark all read
+            </Button>
+          )}
+        </div>
+        <div className="max-h-96 overflow-y-auto">
+          {isLoading ? (
+            <p className="p-4 text-sm text-muted-foreground">Loading...</p>
+          ) : notifications.length === 0 ? (
+            <p className="p-4 text-sm text-muted-foreground">No notifications</p>
+          ) : (
+            notifications.map(notification => {
+              const Icon = KIND_ICONS[notification.kind] || Bell;
+              const closing = notification.kind === 'window_closing' ? closingLabel(notification) : null;
+              return (
+                <div
+                  key={notification.id}
+                  className={`group flex gap-3 px-4 py-3 border-b border-border last:border-0 cursor-pointer hover:bg-muted/50 ${
+                    notification.read_at ? 'opacity-60' : ''
+                  }`}
+                  onClick={() => !notification.read_at && markRead([notification.id])}
+                >
+                  <Icon className={`h-4 w-4 mt-0.5 shrink-0 ${
+                    notification.kind === 'at_risk' ? 'text-amber-500' : 'text-blue-500'
+                  }`} />
+                  <div className="flex-1 min-w-0 space-y-0.5">
+                    <p className={`text-sm ${notification.read_at ? '' : 'font-medium'}`}>{notification.title}</p>
+                    {notification.body && <p className="text-xs text-muted-foreground">{notification.body}</p>}
+                    <p className="text-xs text-muted-foreground/70 font-mono">
+                      {formatTime(notification.created_at)}{closing && ` · ${closing}`}
+                    </p>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-6 w-6 opacity-0 group-hover:opacity-100"
+                    aria-label="Dismiss"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      deleteNotification(notification.id);
+                    }}
+                  >
+                    <X className="h-3 w-3" />
+                  </Button>
+                </div>
+              );
+            })
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
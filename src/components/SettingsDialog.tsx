@@ -0,0 +1,92 @@
+import { useState, useEffect } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { getBrowserTimeZone } from "@/hooks/useUserSettings";
+
+const COMMON_TIME_ZONES = [
+  "UTC",
+  "America/Los_Angeles",
+  "America/Denver",
+  "America/Chicago",
+  "America/New_York",
+  "America/Sao_Paulo",
+  "Europe/London",
+  "Europe/Berlin",
+  "Europe/Helsinki",
+  "Africa/Johannesburg",
+  "Asia/Dubai",
+  "Asia/Kolkata",
+  "Asia/Singapore",
+  "Asia/Tokyo",
+  "Australia/Brisbane",
+  "Australia/Sydney",
+  "Pacific/Auckland",
+];
+
+interface SettingsDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  timeZone: string;
+  onSaveTimeZone: (timeZone: string) => Promise<unknown>;
+}
+
+export function SettingsDialog({ isOpen, onClose, timeZone, onSaveTimeZone }: SettingsDialogProps) {
+  const [selected, setSelected] = useState(timeZone);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) setSelected(timeZone);
+  }, [isOpen, timeZone]);
+
+  const options = Array.from(new Set([timeZone, getBrowserTimeZone(), ...COMMON_TIME_ZONES]));
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await onSaveTimeZone(selected);
+      onClose();
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle>Settings</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-2 py-4">
+          <Label>Time Zone</Label>
+          <Select value={selected} onValueChange={setSelected}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {options.map(zone => (
+                <SelectItem key={zone} value={zone}>
+                  {zone}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-muted-foreground">
+            Daily totals and calendar goal windows start at midnight in this zone.
+          </p>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving}>
+            {isSaving ? 'Saving...' : 'Save'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,80 @@
+import { useState, useEffect, useCallback, useMemo } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import type { ActionPlan } from "@shared/goal-engine";
+import type { Command } from "@/hooks/usePebbleState";
+
+export type { ActionPlan, PlanSegment } from "@shared/goal-engine";
+
+function formatClock(iso: string, timeZone: string): string {
+  return new Date(iso).toLocaleTimeString("en-US", { hour: "2-digit", minute: "2-digit", hour12: false, timeZone });
+}
+
+// Turn a plan into a command card, e.g. "protein bolus between 14:10 and 15:40 to satisfy 2 goals"
+export function planToCommand(
+  plan: ActionPlan,
+  ruleNames: Record<string, string>,
+  timeZone: string,
+  isPrimary: boolean
+): Command {
+  const action = plan.event_name.replace(/_/g, " ");
+  const range = plan.earliest && plan.latest
+    ? plan.earliest === plan.latest
+      ? `at ${formatClock(plan.earliest, timeZone)}`
+      : `between ${formatClock(plan.earliest, timeZone)} and ${formatClock(plan.latest, timeZone)}`
+    : `before ${formatClock(plan.window_end, timeZone)}`;
+  const goalCount = plan.completes.length;
+  const names = (ids: string[]) => ids.map(id => ruleNames[id] || id).join(", ");
+
+  return {
+    id: `plan-${plan.rule_id}-${plan.event_a_id}`,
+    title: action.toUpperCase(),
+    description: goalCount > 0
+      ? `Do ${action} ${range} to satisfy ${goalCount} goal${goalCount === 1 ? "" : "s"}.`
+      : `Do ${action} ${range}.`,
+    timeLabel: plan.latest ? `By ${formatClock(plan.latest, timeZone)}` : undefined,
+    causalNote: [
+      goalCount > 0 ? `Completes: ${names(plan.completes)}` : null,
+      plan.at_risk.length > 0 ? `Puts at risk: ${names(plan.at_risk)}` : null,
+    ].filter(Boolean).join(" · ") || undefined,
+    isPrimary,
+  };
+}
+
+export function useActionPlans(timeZone: string) {
+  const [plans, setPlans] = useState<ActionPlan[]>([]);
+  const [ruleNames, setRuleNames] = useState<Record<string, string>>({});
+  const [isLoading, setIsLoading] = useState(true);
+
+  const fetchPlans = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const { data, error } = await supabase.functions.invoke("goal-evaluator", {
+        body: { action: "plan" }
+      });
+
+      if (error) throw error;
+      setPlans(data?.plans || []);
+      setRuleNames(data?.rule_names || {});
+    } catch (error) {
+      console.error("Error planning actions:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchPlans();
+  }, [fetchPlans]);
+
+  const commands = useMemo(
+    () => plans.map((plan, i) => planToCommand(plan, ruleNames, timeZone, i === 0)),
+    [plans, ruleNames, timeZone]
+  );
+
+  return {
+    plans,
+    commands,
+    isLoading,
+    refresh: fetchPlans,
+  };
+}
@@ -0,0 +1,81 @@
+import { useState, useEffect, useCallback } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import type { GoalNotification as EngineGoalNotification } from "@shared/goal-engine";
+
+// Most recent notifications shown in the inbox
+const INBOX_LIMIT = 50;
+// Sweeps raise notifications in the background, so the inbox checks for new ones this often
+const POLL_MINUTES = 5;
+
+export interface GoalNotification extends EngineGoalNotification {
+  id: string;
+  read_at: string | null;
+  created_at: string;
+}
+
+export function useGoalNotifications() {
+  const [notifications, setNotifications] = useState<GoalNotification[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const fetchNotifications = useCallback(async () => {
+    const { data, error } = await supabase
+      .from('goal_notifications')
+      .select('*')
+      .order('created_at', { ascending: false })
+      .limit(INBOX_LIMIT);
+
+    if (error) {
+      console.error("Error fetching notifications:", error);
+    } else {
+      setNotifications((data || []) as unknown as GoalNotification[]);
+    }
+    setIsLoading(false);
+  }, []);
+
+  useEffect(() => {
+    fetchNotifications();
+    const interval = setInterval(fetchNotifications, POLL_MINUTES * 60 * 1000);
+    return () => clearInterval(interval);
+  }, [fetchNotifications]);
+
+  const markRead = useCallback(async (ids: string[]) => {
+    if (ids.length === 0) return { error: null };
+    const readAt = new Date().toISOString();
+    const { error } = await supabase
+      .from('goal_notifications')
+      .update({ read_at: readAt })
+      .in('id', ids);
+
+    if (!error) {
+      setNotifications(prev => prev.map(n => ids.includes(n.id) && !n.read_at ? { ...n, read_at: readAt } : n));
+    }
+    return { error };
+  }, []);
+
+  const markAllRead = useCallback(
+    () => markRead(notifications.filter(n => !n.read_at).map(n => n.id)),
+    [markRead, notifications]
+  );
+
+  const deleteNotification = useCallback(async (id: string) => {
+    const { error } = await supabase
+      .from('goal_notifications')
+      .delete()
+      .eq('id', id);
+
+    if (!error) {
+      setNotifications(prev => prev.filter(n => n.id !== id));
+    }
+    return { error };
+  }, []);
+
+  return {
+    notifications,
+    unreadCount: notifications.filter(n => !n.read_at).length,
+    isLoading,
+    refresh: fetchNotifications,
+    markRead,
+    markAllRead,
+    deleteNotification,
+  };
+}
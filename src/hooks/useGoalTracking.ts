@@ -1,103 +1,122 @@
 import { useState, useEffect, useCallback } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import type { Json } from "@/integrations/supabase/types";
-
-// Types
-export interface GoalRule {
-  id: string;
-  name: string;
-  description: string | null;
-  rule_type: 'sequence' | 'count' | 'gate' | 'compound';
-  rule_config: SequenceConfig | CountConfig | GateConfig | CompoundConfig;
-  rolling_window_days: number;
-  required_completions: number;
-  is_active: boolean;
+import {
+  addDays,
+  applyPauses,
+  computeStreak,
+  evaluateGoals as evaluateGoalsLocally,
+  exportRules,
+  getLocalDate,
+  getRequiredHistoryDays,
+  getRulePauses,
+  importRules,
+  orderRulesByDependencies,
+  type DecisionImpact as EngineDecisionImpact,
+  type GoalEvaluation as EngineGoalEvaluation,
+  type GoalPause as EngineGoalPause,
+  type EventShift,
+  type GoalRule as EngineGoalRule,
+  type GoalStreak,
+  type BacktestResult,
+  type RuleExplanation,
+  type RuleLint,
+  type StreakEvaluation,
+  type NormalizedEvent as EngineNormalizedEvent,
+  type TrackableValue as EngineTrackableValue,
+} from "@shared/goal-engine";
+
+// Rule and evaluation types come from the shared goal engine; these add the database columns
+export type {
+  EventPattern,
+  MetadataPredicate,
+  SequenceStep,
+  SequenceConfig,
+  CountConfig,
+  GateConfig,
+  CompoundConfig,
+  AvoidanceConfig,
+  AggregateConfig,
+  AggregateDay,
+  CompoundChildStatus,
+  PendingWindow,
+  WindowType,
+  BrokenStreak,
+  GoalStreak,
+  HistoryEvaluation,
+  StatusHistoryDay,
+  EventShift,
+  WhatIfDiff,
+  GoalForecast,
+  ConfidencePolicy,
+  ConfidenceSplit,
+  GoalTemplate,
+  RuleBundle,
+  RuleDefinition,
+  RuleTextError,
+  RuleLint,
+  BacktestDay,
+  BacktestResult,
+  RuleVersion,
+  RuleVersionChange,
+  RuleExplanation,
+  TraceAnchor,
+  TraceCandidate,
+  TraceStep,
+  TraceVerdict,
+} from "@shared/goal-engine";
+
+// How far back evaluation history is read when computing streaks
+const STREAK_HISTORY_DAYS = 120;
+// Recent events read to suggest event names and types in the editor
+const EVENT_CATALOG_LIMIT = 1000;
+
+export interface GoalRule extends EngineGoalRule {
   priority: number;
   created_at: string;
   updated_at: string;
 }
 
-export interface SequenceConfig {
-  events: { name: string; type?: string }[];
-  min_hours: number;
-  max_hours: number;
-}
-
-export interface CountConfig {
-  event_pattern: { name: string; type?: string };
-  required_count: number;
-  rolling_days: number;
-}
-
-export interface GateConfig {
-  condition: {
-    event_name: string;
-    min_hours_ago?: number;
-    max_hours_ago?: number;
-    min_magnitude?: number;
-  };
-  gated_rule_id: string;
-}
-
-export interface CompoundConfig {
-  operator: 'AND' | 'OR';
-  child_rule_ids: string[];
+export interface GoalEvaluation extends EngineGoalEvaluation {
+  id: string;
+  evaluated_at: string;
 }
 
-export interface PendingWindow {
-  event_a_name: string;
-  event_a_time: string;
-  window_start: string;
-  window_end: string;
-  event_a_id: string;
+export interface NormalizedEvent extends EngineNormalizedEvent {
+  created_at: string;
 }
 
-export interface GoalEvaluation {
+export interface DecisionImpact extends EngineDecisionImpact {
   id: string;
-  goal_rule_id: string;
-  evaluated_at: string;
-  status: 'on_track' | 'at_risk' | 'off_track' | 'completed';
-  completions_in_window: number;
-  required_in_window: number;
-  pending_windows: PendingWindow[];
-  last_success_at: string | null;
-  last_fail_at: string | null;
-  last_fail_reason: string | null;
-  confidence: number;
-  details: Record<string, unknown>;
+  created_at: string;
 }
 
-export interface NormalizedEvent {
+export interface GoalPause extends EngineGoalPause {
   id: string;
-  event_type: string;
-  event_name: string;
-  occurred_at: string;
-  magnitude: number | null;
-  confidence: number;
-  metadata: Record<string, unknown>;
-  source_type: string | null;
-  source_id: string | null;
   created_at: string;
 }
 
-export interface DecisionImpact {
-  id: string;
-  event_id: string;
-  goal_rule_id: string;
-  impact_type: 'window_created' | 'window_completed' | 'window_expired' | 'gate_opened' | 'gate_closed';
-  impact_details: Record<string, unknown>;
-  created_at: string;
+// Event names and types seen in normalized_events
+export interface EventCatalog {
+  names: string[];
+  types: string[];
 }
 
 export interface GoalWithEvaluation {
   rule: GoalRule;
   evaluation: GoalEvaluation | null;
+  streak: GoalStreak;
 }
 
-export function useGoalTracking() {
+export function useGoalTracking(timeZone = 'UTC') {
   const [goals, setGoals] = useState<GoalWithEvaluation[]>([]);
   const [events, setEvents] = useState<NormalizedEvent[]>([]);
+  // How many days back `events` reaches
+  const [eventDays, setEventDays] = useState(0);
   const [impacts, setImpacts] = useState<DecisionImpact[]>([]);
+  const [eventCatalog, setEventCatalog] = useState<EventCatalog>({ names: [], types: [] });
+  const [ruleLints, setRuleLints] = useState<RuleLint[]>([]);
+  const [pauses, setPauses] = useState<GoalPause[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [isEvaluating, setIsEvaluating] = useState(false);
 
@@ -119,6 +138,16 @@ export function useGoalTracking() {
 
     const rules = (rulesData || []) as unknown as GoalRule[];
     const goalsWithEvals: GoalWithEvaluation[] = [];
+    const now = new Date();
+    const historyStart = new Date(now.getTime() - STREAK_HISTORY_DAYS * 24 * 60 * 60 * 1000);
+
+    // Pauses over the streak history, so paused periods neither break nor extend streaks
+    const { data: pausesData } = await supabase
+      .from('goal_pauses')
+      .select('*')
+      .gte('ends_on', historyStart.toISOString().slice(0, 10))
+      .order('starts_on', { ascending: true });
+    const loadedPauses = (pausesData || []) as GoalPause[];
 
     for (const rule of rules) {
       const { data: evalData } = await supabase
@@ -129,15 +158,24 @@ export function useGoalTracking() {
         .limit(1)
         .single();
 
+      const { data: historyData } = await supabase
+        .from('goal_evaluations')
+        .select('status, evaluated_at, last_fail_reason')
+        .eq('goal_rule_id', rule.id)
+        .gte('evaluated_at', historyStart.toISOString())
+        .order('evaluated_at', { ascending: true });
+
       goalsWithEvals.push({
         rule,
-        evaluation: evalData as unknown as GoalEvaluation | null
+        evaluation: evalData as unknown as GoalEvaluation | null,
+        streak: computeStreak(rule, (historyData || []) as StreakEvaluation[], now, timeZone, getRulePauses(rule.id, loadedPauses))
       });
     }
 
+    setPauses(loadedPauses);
     setGoals(goalsWithEvals);
     setIsLoading(false);
-  }, []);
+  }, [timeZone]);
 
   // Fetch recent events
   const fetchEvents = useCallback(async (days: number = 7) => {
@@ -151,7 +189,38 @@ export function useGoalTracking() {
 
     if (!error && data) {
       setEvents(data as unknown as NormalizedEvent[]);
+      setEventDays(days);
+    }
+  }, []);
+
+  // Fetch the distinct event names and types for autocomplete
+  const fetchEventCatalog = useCallback(async () => {
+    const { data, error } = await supabase
+      .from('normalized_events')
+      .select('event_name, event_type')
+      .order('occurred_at', { ascending: false })
+      .limit(EVENT_CATALOG_LIMIT);
+
+    if (!error && data) {
+      setEventCatalog({
+        names: [...new Set(data.map(e => e.event_name))].sort(),
+        types: [...new Set(data.map(e => e.event_type))].sort(),
+      });
+    }
+  }, []);
+
+  // Lint the stored rules on the server: malformed configs, dangling references,
+  // event names never recorded, windows and counts that cannot fit
+  const lintGoalRules = useCallback(async () => {
+    const { data, error } = await supabase.functions.invoke('goal-evaluator', {
+      body: { action: 'validate' }
+    });
+
+    if (error) {
+      console.error("Error validating goal rules:", error);
+      return;
     }
+    setRuleLints((data?.lints || []) as RuleLint[]);
   }, []);
 
   // Fetch decision impacts for an event
@@ -191,11 +260,54 @@ export function useGoalTracking() {
     }
   }, [fetchGoals, fetchEvents]);
 
+  // Pause one goal, or every goal when goal_rule_id is null, or excuse days; goals are
+  // re-evaluated so the change shows straight away
+  const addGoalPause = useCallback(async (pause: Omit<GoalPause, 'id' | 'created_at'>) => {
+    const { error } = await supabase
+      .from('goal_pauses')
+      .insert({
+        goal_rule_id: pause.goal_rule_id,
+        kind: pause.kind,
+        starts_on: pause.starts_on,
+        ends_on: pause.ends_on,
+        reason: pause.reason
+      });
+
+    // The pause is saved even if re-evaluating fails; reload so it still shows
+    if (!error) await evaluateGoals().catch(() => fetchGoals());
+    return { error };
+  }, [evaluateGoals, fetchGoals]);
+
+  // End a pause early: it stops yesterday, or is removed if it has not started
+  const endGoalPause = useCallback(async (pause: GoalPause) => {
+    const today = getLocalDate(new Date(), timeZone);
+    const query = pause.starts_on >= today
+      ? supabase.from('goal_pauses').delete().eq('id', pause.id)
+      : supabase.from('goal_pauses').update({ ends_on: addDays(today, -1) }).eq('id', pause.id);
+    const { error } = await query;
+
+    if (!error) await evaluateGoals().catch(() => fetchGoals());
+    return { error };
+  }, [timeZone, evaluateGoals, fetchGoals]);
+
+  const deleteGoalPause = useCallback(async (id: string) => {
+    const { error } = await supabase
+      .from('goal_pauses')
+      .delete()
+      .eq('id', id);
+
+    if (!error) await evaluateGoals().catch(() => fetchGoals());
+    return { error };
+  }, [evaluateGoals, fetchGoals]);
+
   // What-if simulation
-  const simulateWhatIf = useCallback(async (hypotheticalEvents: Omit<NormalizedEvent, 'id' | 'created_at'>[]) => {
+  const simulateWhatIf = useCallback(async (
+    hypotheticalEvents: Omit<NormalizedEvent, 'id' | 'created_at'>[],
+    changes: { removeEventIds?: string[]; shiftEvents?: EventShift[] } = {}
+  ) => {
     try {
       const { data, error } = await supabase.functions.invoke('goal-evaluator', {
-        body: { action: 'what_if', hypotheticalEvents }
+        body: { action: 'what_if', hypotheticalEvents, ...changes }
       });
 
       if (error) throw error;
@@ -206,6 +318,79 @@ export function useGoalTracking() {
     }
   }, []);
 
+  // Preview a draft rule locally, without calling the edge function. Events older than the
+  // loaded ones, and trackable values for aggregates, are read when the draft's window (or
+  // a rule it depends on) reaches back further. The draft keeps its ID when editing.
+  const previewGoalRule = useCallback(async (
+    rule: Omit<GoalRule, 'id' | 'created_at' | 'updated_at'> & { id?: string }
+  ) => {
+    const now = new Date();
+    const draft = { ...rule, id: rule.id || 'preview', is_active: true };
+    const others = goals.filter(g => g.rule.id !== draft.id).map(g => ({ ...g.rule, is_active: false }));
+    const allRules = [...others, draft];
+    const { ordered } = orderRulesByDependencies([draft], new Map(allRules.map(r => [r.id, r])));
+    // Paused days stretch rolling windows back, so size the history from the stretched rules
+    const days = getRequiredHistoryDays(ordered.map(r => applyPauses(r, pauses, now, timeZone)));
+    const since = new Date(now.getTime() - days * 24 * 60 * 60 * 1000).toISOString();
+
+    let previewEvents: EngineNormalizedEvent[] = events;
+    if (days > eventDays) {
+      const { data, error } = await supabase
+        .from('normalized_events')
+        .select('*')
+        .gte('occurred_at', since)
+        .order('occurred_at', { ascending: true });
+      if (error) throw error;
+      previewEvents = (data || []) as unknown as EngineNormalizedEvent[];
+    }
+
+    let trackableValues: EngineTrackableValue[] = [];
+    if (ordered.some(r => r.rule_type === 'aggregate')) {
+      const { data, error } = await supabase
+        .from('trackable_values')
+        .select('id, trackable_id, value, logged_at, trackables(name)')
+        .gte('logged_at', since)
+        .order('logged_at', { ascending: true });
+      if (error) throw error;
+      trackableValues = (data || []).map(row => ({
+        id: row.id,
+        trackable_id: row.trackable_id,
+        trackable_name: row.trackables?.name || '',
+        value: Number(row.value),
+        logged_at: row.logged_at
+      }));
+    }
+
+    const { evaluations } = evaluateGoalsLocally(allRules, previewEvents, now, { timeZone, pauses, trackableValues });
+    return evaluations[0] || null;
+  }, [goals, events, eventDays, pauses, timeZone]);
+
+  // Replay a rule (saved or draft) over the last `days` days of events; nothing is written.
+  // The draft keeps its ID when editing so it stands in for the stored rule.
+  const backtestGoalRule = useCallback(async (
+    rule: Omit<GoalRule, 'id' | 'created_at' | 'updated_at'> & { id?: string },
+    days: number
+  ) => {
+    const to = new Date();
+    const from = new Date(to.getTime() - days * 24 * 60 * 60 * 1000);
+    const { data, error } = await supabase.functions.invoke('goal-evaluator', {
+      body: { action: 'backtest', rule, as_of: { from: from.toISOString(), to: to.toISOString() } }
+    });
+
+    if (error) throw error;
+    return data as BacktestResult;
+  }, []);
+
+  // Explain a goal's current status on the server: the events considered and why each counted or not
+  const explainGoal = useCallback(async (ruleId: string) => {
+    const { data, error } = await supabase.functions.invoke('goal-evaluator', {
+      body: { action: 'explain', ruleId }
+    });
+
+    if (error) throw error;
+    return data as RuleExplanation;
+  }, []);
+
   // Add a new goal rule
   const addGoalRule = useCallback(async (rule: Omit<GoalRule, 'id' | 'created_at' | 'updated_at'>) => {
     const { data, error } = await supabase
@@ -216,7 +401,9 @@ export function useGoalTracking() {
         rule_type: rule.rule_type,
         rule_config: rule.rule_config as unknown as Json,
         rolling_window_days: rule.rolling_window_days,
+        window_type: rule.window_type,
         required_completions: rule.required_completions,
+        confidence_policy: (rule.confidence_policy ?? null) as unknown as Json,
         is_active: rule.is_active,
         priority: rule.priority
       })
@@ -230,7 +417,42 @@ export function useGoalTracking() {
     return null;
   }, [fetchGoals]);
 
-  // Update a goal rule
+  // Insert rules from an imported bundle or template. IDs are assigned up front so gates
+  // and compounds in the same batch can reference each other.
+  const importGoalRules = useCallback(async (bundle: unknown) => {
+    const { rules, errors } = importRules(bundle, () => crypto.randomUUID());
+    if (errors.length > 0) return { count: 0, errors };
+
+    const { error } = await supabase
+      .from('goal_rules')
+      .insert(rules.map(rule => ({
+        id: rule.id,
+        name: rule.name,
+        description: rule.description,
+        rule_type: rule.rule_type,
+        rule_config: rule.rule_config as unknown as Json,
+        rolling_window_days: rule.rolling_window_days,
+        window_type: rule.window_type,
+        required_completions: rule.required_completions,
+        confidence_policy: (rule.confidence_policy ?? null) as unknown as Json,
+        is_active: rule.is_active,
+        priority: rule.priority
+      })));
+
+    if (error) return { count: 0, errors: [error.message] };
+    await fetchGoals();
+    return { count: rules.length, errors: [] };
+  }, [fetchGoals]);
+
+  // Export rules with everything they reference; reads inactive rules too
+  const exportGoalRules = useCallback(async (ruleIds: string[]) => {
+    const { data, error } = await supabase.from('goal_rules').select('*');
+    if (error) throw error;
+    return exportRules((data || []) as unknown as GoalRule[], ruleIds);
+  }, []);
+
+  // Update a goal rule. Changes to its definition are saved as a new version by the
+  // goal_rules trigger, leaving earlier evaluations tied to the version they used.
   const updateGoalRule = useCallback(async (id: string, updates: Partial<GoalRule>) => {
     const updateData: Record<string, unknown> = {};
     if (updates.name !== undefined) updateData.name = updates.name;
@@ -238,7 +460,9 @@ export function useGoalTracking() {
     if (updates.rule_type !== undefined) updateData.rule_type = updates.rule_type;
     if (updates.rule_config !== undefined) updateData.rule_config = updates.rule_config as unknown as Json;
     if (updates.rolling_window_days !== undefined) updateData.rolling_window_days = updates.rolling_window_days;
+    if (updates.window_type !== undefined) updateData.window_type = updates.window_type;
     if (updates.required_completions !== undefined) updateData.required_completions = updates.required_completions;
+    if (updates.confidence_policy !== undefined) updateData.confidence_policy = updates.confidence_policy as unknown as Json;
     if (updates.is_active !== undefined) updateData.is_active = updates.is_active;
     if (updates.priority !== undefined) updateData.priority = updates.priority;
 
@@ -296,20 +520,39 @@ export function useGoalTracking() {
   useEffect(() => {
     fetchGoals();
     fetchEvents();
-  }, [fetchGoals, fetchEvents]);
+    fetchEventCatalog();
+  }, [fetchGoals, fetchEvents, fetchEventCatalog]);
+
+  // Re-lint when rules are added, changed or removed
+  const rulesKey = goals.map(g => `${g.rule.id}:${g.rule.updated_at}`).join('|');
+  useEffect(() => {
+    if (rulesKey) lintGoalRules();
+  }, [rulesKey, lintGoalRules]);
 
   return {
     goals,
     events,
     impacts,
+    eventCatalog,
+    ruleLints,
+    pauses,
     isLoading,
     isEvaluating,
     fetchGoals,
     fetchEvents,
     fetchImpactsForEvent,
+    lintGoalRules,
     evaluateGoals,
+    addGoalPause,
+    endGoalPause,
+    deleteGoalPause,
     simulateWhatIf,
+    previewGoalRule,
+    backtestGoalRule,
+    explainGoal,
     addGoalRule,
+    importGoalRules,
+    exportGoalRules,
     updateGoalRule,
     deleteGoalRule,
     addEvent,
@@ -18,32 +18,6 @@ export interface TimetableEntry {
   causalImpact?: string;
 }
 
-const initialCommands: Command[] = [
-  {
-    id: "1",
-    title: "EAT THIS NOW",
-    description: "300g beef mince + glass of whole milk. Pan-fry the mince with minimal oil.",
-    timeLabel: "NOW",
-    causalNote: "Protein + iron timing aligned with cortisol trough for optimal absorption",
-    isPrimary: true,
-  },
-  {
-    id: "2",
-    title: "PREPARE FOR TOMORROW",
-    description: "Defrost 400g salmon fillet from freezer. Move to refrigerator section.",
-    timeLabel: "Before 10 PM",
-    causalNote: "Omega-3 intake scheduled for tomorrow's inflammation window",
-    isPrimary: false,
-  },
-  {
-    id: "3",
-    title: "HYDRATION CHECK",
-    description: "500ml water. You've had 1.2L today, target is 2.5L based on activity level.",
-    timeLabel: "Within 2 hours",
-    isPrimary: false,
-  },
-];
-
 const initialTimetable: TimetableEntry[] = [
   { id: "t1", time: "07:00", action: "Morning hydration: 500ml water with lemon", status: "completed", causalImpact: "Cortisol modulation" },
   { id: "t2", time: "08:30", action: "Breakfast: Eggs + spinach + avocado", status: "completed" },
@@ -54,7 +28,8 @@ const initialTimetable: TimetableEntry[] = [
 ];
 
 export function usePebbleState() {
-  const [commands, setCommands] = useState<Command[]>(initialCommands);
+  // Commands come from the goal planner (see useActionPlans)
+  const [commands, setCommands] = useState<Command[]>([]);
   const [timetable, setTimetable] = useState<TimetableEntry[]>(initialTimetable);
   const [causalModel, setCausalModel] = useState<CausalModel | null>(null);
   const [foodLogs, setFoodLogs] = useState<string[]>([]);
@@ -93,6 +68,10 @@ export function usePebbleState() {
     setCommands(prev => prev.filter(c => c.id !== commandId));
   }, []);
 
+  const replaceCommands = useCallback((next: Command[]) => {
+    setCommands(next);
+  }, []);
+
   const logFood = useCallback((input: string) => {
     const timestamp = new Date();
     const timeStr = timestamp.toLocaleTimeString("en-US", { hour: "2-digit", minute: "2-digit", hour12: false });
@@ -146,6 +125,7 @@ export function usePebbleState() {
     foodLogs,
     executeCommand,
     dismissCommand,
+    replaceCommands,
     logFood,
     markTimetableComplete,
     setCausalModel,
@@ -1,6 +1,7 @@
 import { useState, useEffect, useCallback } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import type { Json } from "@/integrations/supabase/types";
+import { getLocalDate } from "@shared/goal-engine";
 
 export interface InventoryItem {
   id: string;
@@ -46,7 +47,7 @@ export interface ActivityLog {
   created_at: string;
 }
 
-export function useTracking() {
+export function useTracking(timeZone = "UTC") {
   const [inventory, setInventory] = useState<InventoryItem[]>([]);
   const [trackables, setTrackables] = useState<Trackable[]>([]);
   const [trackableValues, setTrackableValues] = useState<TrackableValue[]>([]);
@@ -226,13 +227,13 @@ export function useTracking() {
     return { data: data as ActivityLog | null, error };
   }, [trackables, logTrackableValue, deductFromInventory]);
 
-  // Get today's values for a trackable
+  // Get today's values for a trackable, where today starts at local midnight in the user's time zone
   const getTodayTotal = useCallback((trackableId: string) => {
-    const today = new Date().toISOString().split("T")[0];
+    const today = getLocalDate(new Date(), timeZone);
     return trackableValues
-      .filter(v => v.trackable_id === trackableId && v.logged_at.startsWith(today))
+      .filter(v => v.trackable_id === trackableId && getLocalDate(new Date(v.logged_at), timeZone) === today)
       .reduce((sum, v) => sum + v.value, 0);
-  }, [trackableValues]);
+  }, [trackableValues, timeZone]);
 
   return {
     inventory,
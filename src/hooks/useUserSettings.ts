@@ -0,0 +1,70 @@
+import { useState, useEffect, useCallback } from "react";
+import { supabase } from "@/integrations/supabase/client";
+
+export interface UserSettings {
+  id: string;
+  timezone: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export function getBrowserTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC";
+}
+
+export function useUserSettings() {
+  const [settings, setSettings] = useState<UserSettings | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  // Fetch the settings row, creating it with the browser's time zone on first use
+  useEffect(() => {
+    const fetchSettings = async () => {
+      setIsLoading(true);
+
+      const { data } = await supabase
+        .from("user_settings")
+        .select("*")
+        .order("created_at")
+        .limit(1)
+        .maybeSingle();
+
+      if (data) {
+        setSettings(data);
+      } else {
+        const { data: created } = await supabase
+          .from("user_settings")
+          .insert({ timezone: getBrowserTimeZone() })
+          .select()
+          .single();
+        if (created) setSettings(created);
+      }
+
+      setIsLoading(false);
+    };
+
+    fetchSettings();
+  }, []);
+
+  const updateTimeZone = useCallback(async (timezone: string) => {
+    if (!settings) return { error: new Error("Settings not loaded") };
+
+    const { data, error } = await supabase
+      .from("user_settings")
+      .update({ timezone })
+      .eq("id", settings.id)
+      .select()
+      .single();
+
+    if (!error && data) {
+      setSettings(data);
+    }
+    return { error };
+  }, [settings]);
+
+  return {
+    settings,
+    timeZone: settings?.timezone || getBrowserTimeZone(),
+    isLoading,
+    updateTimeZone,
+  };
+}
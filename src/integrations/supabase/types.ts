@@ -55,6 +55,7 @@ export type Database = {
           id: string
           impact_details: Json | null
           impact_type: string
+          rule_version: number | null
         }
         Insert: {
           created_at?: string
@@ -63,6 +64,7 @@ export type Database = {
           id?: string
           impact_details?: Json | null
           impact_type: string
+          rule_version?: number | null
         }
         Update: {
           created_at?: string
@@ -71,6 +73,7 @@ export type Database = {
           id?: string
           impact_details?: Json | null
           impact_type?: string
+          rule_version?: number | null
         }
         Relationships: [
           {
@@ -102,6 +105,7 @@ export type Database = {
           last_success_at: string | null
           pending_windows: Json | null
           required_in_window: number
+          rule_version: number | null
           status: string
         }
         Insert: {
@@ -116,6 +120,7 @@ export type Database = {
           last_success_at?: string | null
           pending_windows?: Json | null
           required_in_window?: number
+          rule_version?: number | null
           status: string
         }
         Update: {
@@ -130,6 +135,7 @@ export type Database = {
           last_success_at?: string | null
           pending_windows?: Json | null
           required_in_window?: number
+          rule_version?: number | null
           status?: string
         }
         Relationships: [
@@ -142,8 +148,144 @@ export type Database = {
           },
         ]
       }
+      goal_notifications: {
+        Row: {
+          body: string | null
+          created_at: string
+          dedupe_key: string
+          details: Json | null
+          goal_rule_id: string
+          id: string
+          kind: string
+          read_at: string | null
+          title: string
+        }
+        Insert: {
+          body?: string | null
+          created_at?: string
+          dedupe_key: string
+          details?: Json | null
+          goal_rule_id: string
+          id?: string
+          kind: string
+          read_at?: string | null
+          title: string
+        }
+        Update: {
+          body?: string | null
+          created_at?: string
+          dedupe_key?: string
+          details?: Json | null
+          goal_rule_id?: string
+          id?: string
+          kind?: string
+          read_at?: string | null
+          title?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "goal_notifications_goal_rule_id_fkey"
+            columns: ["goal_rule_id"]
+            isOneToOne: false
+            referencedRelation: "goal_rules"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      goal_pauses: {
+        Row: {
+          created_at: string
+          ends_on: string
+          goal_rule_id: string | null
+          id: string
+          kind: string
+          reason: string | null
+          starts_on: string
+        }
+        Insert: {
+          created_at?: string
+          ends_on: string
+          goal_rule_id?: string | null
+          id?: string
+          kind?: string
+          reason?: string | null
+          starts_on: string
+        }
+        Update: {
+          created_at?: string
+          ends_on?: string
+          goal_rule_id?: string | null
+          id?: string
+          kind?: string
+          reason?: string | null
+          starts_on?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "goal_pauses_goal_rule_id_fkey"
+            columns: ["goal_rule_id"]
+            isOneToOne: false
+            referencedRelation: "goal_rules"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      goal_rule_versions: {
+        Row: {
+          confidence_policy: Json | null
+          created_at: string
+          description: string | null
+          goal_rule_id: string
+          id: string
+          name: string
+          required_completions: number | null
+          rolling_window_days: number | null
+          rule_config: Json
+          rule_type: string
+          version: number
+          window_type: string
+        }
+        Insert: {
+          confidence_policy?: Json | null
+          created_at?: string
+          description?: string | null
+          goal_rule_id: string
+          id?: string
+          name: string
+          required_completions?: number | null
+          rolling_window_days?: number | null
+          rule_config: Json
+          rule_type: string
+          version: number
+          window_type: string
+        }
+        Update: {
+          confidence_policy?: Json | null
+          created_at?: string
+          description?: string | null
+          goal_rule_id?: string
+          id?: string
+          name?: string
+          required_completions?: number | null
+          rolling_window_days?: number | null
+          rule_config?: Json
+          rule_type?: string
+          version?: number
+          window_type?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "goal_rule_versions_goal_rule_id_fkey"
+            columns: ["goal_rule_id"]
+            isOneToOne: false
+            referencedRelation: "goal_rules"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       goal_rules: {
         Row: {
+          confidence_policy: Json | null
           created_at: string
           description: string | null
           id: string
@@ -155,8 +297,11 @@ export type Database = {
           rule_config: Json
           rule_type: string
           updated_at: string
+          version: number
+          window_type: string
         }
         Insert: {
+          confidence_policy?: Json | null
           created_at?: string
           description?: string | null
           id?: string
@@ -168,8 +313,11 @@ export type Database = {
           rule_config: Json
           rule_type: string
           updated_at?: string
+          version?: number
+          window_type?: string
         }
         Update: {
+          confidence_policy?: Json | null
           created_at?: string
           description?: string | null
           id?: string
@@ -181,6 +329,8 @@ export type Database = {
           rule_config?: Json
           rule_type?: string
           updated_at?: string
+          version?: number
+          window_type?: string
         }
         Relationships: []
       }
@@ -330,6 +480,27 @@ export type Database = {
         }
         Relationships: []
       }
+      user_settings: {
+        Row: {
+          created_at: string
+          id: string
+          timezone: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          timezone?: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          timezone?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
       [_ in never]: never
@@ -0,0 +1,193 @@
+import { z } from "zod";
+import { orderRulesByDependencies, type GoalRule } from "@shared/goal-engine";
+
+const optionalNumber = z.number().finite().optional();
+
+const eventPatternShape = z.object({
+  name: z.string().trim().min(1, "Event name is required"),
+  type: z.string().optional(),
+  min_magnitude: optionalNumber,
+  max_magnitude: optionalNumber,
+  min_confidence: z.number().min(0).max(1, "confidence is between 0 and 1").optional(),
+  metadata: z.array(z.object({
+    key: z.string().min(1),
+    op: z.enum(['eq', 'neq', 'gt', 'gte', 'lt', 'lte']),
+    value: z.union([z.string(), z.number(), z.boolean()]),
+  })).optional(),
+});
+
+const hasMagnitudeOrder = (p: z.infer<typeof eventPatternShape>) =>
+  p.min_magnitude === undefined || p.max_magnitude === undefined || p.min_magnitude <= p.max_magnitude;
+const magnitudeOrderError = { message: "min magnitude > max magnitude", path: ['max_magnitude'] };
+
+const eventPatternSchema = eventPatternShape.refine(hasMagnitudeOrder, magnitudeOrderError);
+
+const hours = z.number().finite().min(0, "Hours cannot be negative");
+
+const sequenceStepSchema = eventPatternShape
+  .extend({ min_hours: hours.optional(), max_hours: hours.optional() })
+  .refine(hasMagnitudeOrder, magnitudeOrderError)
+  .refine(
+    s => s.min_hours === undefined || s.max_hours === undefined || s.min_hours <= s.max_hours,
+    { message: "min_hours > max_hours", path: ['max_hours'] }
+  );
+
+const sequenceConfigSchema = z.object({
+  events: z.array(sequenceStepSchema).min(2, "A sequence needs at least 2 events"),
+  min_hours: hours,
+  max_hours: hours.positive("Max hours must be above 0"),
+}).refine(c => c.min_hours <= c.max_hours, { message: "min_hours > max_hours", path: ['max_hours'] });
+
+const countConfigSchema = z.object({
+  event_pattern: eventPatternSchema,
+  required_count: z.number().int().min(1, "Required count must be at least 1"),
+  rolling_days: z.number().int().min(1),
+});
+
+const avoidanceConfigSchema = z.object({
+  anchor: eventPatternSchema,
+  avoid: eventPatternSchema,
+  direction: z.enum(['before', 'after']),
+  hours: hours.positive("Hours must be above 0"),
+}).refine(
+  c => c.anchor.name.trim().toLowerCase() !== c.avoid.name.trim().toLowerCase(),
+  { message: "The avoided event must differ from the anchor", path: ['avoid', 'name'] }
+);
+
+const aggregateConfigSchema = z.object({
+  trackable: z.string().trim().min(1, "Pick a trackable"),
+  aggregation: z.enum(['sum', 'avg', 'min', 'max']),
+  operator: z.enum(['gte', 'lte']),
+  threshold: z.number().finite(),
+  required_days: z.number().int().min(1, "Required days must be at least 1"),
+});
+
+const gateConfigSchema = z.object({
+  condition: z.object({
+    event_name: z.string().trim().min(1, "Condition event is required"),
+    min_hours_ago: hours.optional(),
+    max_hours_ago: hours.optional(),
+    min_magnitude: optionalNumber,
+  }).refine(
+    c => c.min_hours_ago === undefined || c.max_hours_ago === undefined || c.min_hours_ago <= c.max_hours_ago,
+    { message: "min hours ago > max hours ago", path: ['max_hours_ago'] }
+  ),
+  gated_rule_id: z.string().min(1, "Pick the rule to gate"),
+});
+
+const compoundConfigSchema = z.object({
+  operator: z.enum(['AND', 'OR']),
+  child_rule_ids: z.array(z.string()).min(2, "Pick at least 2 child rules"),
+});
+
+const ruleConfigSchemas: Record<GoalRule['rule_type'], z.ZodTypeAny> = {
+  sequence: sequenceConfigSchema,
+  count: countConfigSchema,
+  avoidance: avoidanceConfigSchema,
+  aggregate: aggregateConfigSchema,
+  gate: gateConfigSchema,
+  compound: compoundConfigSchema,
+};
+
+const ruleSchema = z.object({
+  name: z.string().trim().min(1, "Name is required"),
+  rule_type: z.enum(['sequence', 'count', 'gate', 'compound', 'avoidance', 'aggregate']),
+  rule_config: z.unknown(),
+  rolling_window_days: z.number().int().min(1, "Window must be at least 1 day"),
+  required_completions: z.number().int().min(1, "Required completions must be at least 1"),
+  confidence_policy: z.object({
+    mode: z.enum(['threshold', 'fractional', 'require_confirmed']),
+    min_confidence: z.number().min(0).max(1, "Confidence is between 0 and 1").optional(),
+  }).nullable().optional(),
+});
+
+export type RuleErrors = Record<string, string>;
+
+type DraftRule = Omit<GoalRule, 'id'> & { id?: string };
+
+// Validate a draft rule and return its errors keyed by dotted path, e.g. "rule_config.max_hours"
+// or "rule_config.events.1.name". Gates and compounds are checked against `rules` for references
+// and dependency cycles.
+export function validateGoalRule(rule: DraftRule, rules: GoalRule[] = []): RuleErrors {
+  const errors: RuleErrors = {};
+  const add = (issues: z.ZodIssue[], prefix: string[] = []) => {
+    for (const issue of issues) {
+      const path = [...prefix, ...issue.path].join('.');
+      errors[path] ??= issue.message;
+    }
+  };
+
+  const base = ruleSchema.safeParse(rule);
+  if (!base.success) add(base.error.issues);
+
+  const config = ruleConfigSchemas[rule.rule_type]?.safeParse(rule.rule_config);
+  if (config && !config.success) add(config.error.issues, ['rule_config']);
+
+  if (rule.rule_type === 'aggregate' && (!rule.window_type || rule.window_type === 'rolling')) {
+    const requiredDays = (rule.rule_config as { required_days?: number }).required_days ?? 0;
+    if (requiredDays > rule.rolling_window_days) {
+      errors['rule_config.required_days'] ??= `Only ${rule.rolling_window_days} days in the window`;
+    }
+  }
+
+  // References must exist, and must not lead back to this rule
+  if (rule.rule_type === 'gate' || rule.rule_type === 'compound') {
+    const draftId = rule.id || 'draft';
+    const draft = { ...rule, id: draftId } as GoalRule;
+    const rulesById = new Map(rules.map(r => [r.id, r]));
+    rulesById.set(draftId, draft);
+
+    const refs = rule.rule_type === 'gate'
+      ? [(rule.rule_config as { gated_rule_id?: string }).gated_rule_id].filter(Boolean) as string[]
+      : (rule.rule_config as { child_rule_ids?: string[] }).child_rule_ids || [];
+    const refPath = rule.rule_type === 'gate' ? 'rule_config.gated_rule_id' : 'rule_config.child_rule_ids';
+    const missing = refs.filter(id => !rulesById.has(id));
+    if (missing.length > 0) errors[refPath] ??= `Unknown rule: ${missing.join(', ')}`;
+
+    const { cyclic } = orderRulesByDependencies([draft], rulesById);
+    if (cyclic.has(draftId)) {
+      const cycle = cyclic.get(draftId)!.map(id => id === draftId ? rule.name || 'this rule' : rulesById.get(id)?.name || id);
+      errors[refPath] ??= `Creates a dependency cycle: ${cycle.join(' → ')}`;
+    }
+  }
+
+  return errors;
+}
+
+function getEditDistance(a: string, b: string): number {
+  const row = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = row[j];
+      row[j] = Math.min(row[j] + 1, row[j - 1] + 1, diagonal + (a[i - 1] === b[j - 1] ? 0 : 1));
+      diagonal = above;
+    }
+  }
+  return row[b.length];
+}
+
+// Warning for an event name never seen in normalized_events, with the closest known name
+export function getUnknownEventWarning(name: string, knownNames: string[]): string | null {
+  const trimmed = name.trim();
+  if (!trimmed || knownNames.length === 0) return null;
+  if (knownNames.some(n => n.toLowerCase() === trimmed.toLowerCase())) return null;
+
+  const closest = knownNames
+    .map(n => ({ name: n, distance: getEditDistance(n.toLowerCase(), trimmed.toLowerCase()) }))
+    .sort((a, b) => a.distance - b.distance)[0];
+  return closest.distance <= Math.max(2, Math.floor(trimmed.length / 4))
+    ? `No "${trimmed}" events yet. Did you mean ${closest.name}?`
+    : `No "${trimmed}" events recorded yet`;
+}
+
+// Event types, unlike names, match case-sensitively
+export function getUnknownTypeWarning(type: string, knownTypes: string[]): string | null {
+  const trimmed = type.trim();
+  if (!trimmed || knownTypes.length === 0 || knownTypes.includes(trimmed)) return null;
+  const caseMatch = knownTypes.find(t => t.toLowerCase() === trimmed.toLowerCase());
+  return caseMatch
+    ? `Types are case-sensitive: recorded events use "${caseMatch}"`
+    : `No events of type "${trimmed}" recorded yet`;
+}
@@ -0,0 +1,29 @@
+import { parse, stringify } from "yaml";
+import type { RuleBundle } from "@shared/goal-engine";
+
+export type RuleFileFormat = "json" | "yaml";
+
+export function serializeRuleBundle(bundle: RuleBundle, format: RuleFileFormat): string {
+  return format === "yaml" ? stringify(bundle) : JSON.stringify(bundle, null, 2);
+}
+
+// JSON is valid YAML, so one parser reads both
+export function parseRuleFile(content: string): { data: unknown; error: string | null } {
+  try {
+    return { data: parse(content), error: null };
+  } catch (error) {
+    return { data: null, error: error instanceof Error ? error.message : "Could not parse file" };
+  }
+}
+
+export function downloadRuleBundle(bundle: RuleBundle, format: RuleFileFormat) {
+  const blob = new Blob([serializeRuleBundle(bundle, format)], {
+    type: format === "yaml" ? "application/yaml" : "application/json",
+  });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `goal-rules-${bundle.exported_at.slice(0, 10)}.${format === "yaml" ? "yaml" : "json"}`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useState, useEffect } from "react";
 import { Header } from "@/components/Header";
 import { ViewToggle } from "@/components/ViewToggle";
 import { CommandCard } from "@/components/CommandCard";
@@ -12,8 +12,12 @@ import { TrackablesList } from "@/components/TrackablesList";
 import { ActivityLogList } from "@/components/ActivityLogList";
 import { ActivityInput } from "@/components/ActivityInput";
 import { GoalTrackingView } from "@/components/GoalTrackingView";
+import { SettingsDialog } from "@/components/SettingsDialog";
+import { NotificationInbox } from "@/components/NotificationInbox";
 import { usePebbleState } from "@/hooks/usePebbleState";
 import { useTracking } from "@/hooks/useTracking";
+import { useUserSettings } from "@/hooks/useUserSettings";
+import { useActionPlans } from "@/hooks/useActionPlans";
 
 type ViewType = "command" | "timetable" | "model" | "inventory" | "trackables" | "activity" | "goals";
 
@@ -21,6 +25,7 @@ export default function Index() {
   const [activeView, setActiveView] = useState<ViewType>("command");
   const [isWhatIfOpen, setIsWhatIfOpen] = useState(false);
   const [isImportOpen, setIsImportOpen] = useState(false);
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
   
   const {
     commands,
@@ -28,11 +33,19 @@ export default function Index() {
     causalModel,
     executeCommand,
     dismissCommand,
+    replaceCommands,
     logFood,
     markTimetableComplete,
     setCausalModel,
   } = usePebbleState();
 
+  const { timeZone, updateTimeZone } = useUserSettings();
+  const { commands: plannedCommands } = useActionPlans(timeZone);
+
+  useEffect(() => {
+    replaceCommands(plannedCommands);
+  }, [plannedCommands, replaceCommands]);
+
   const {
     inventory,
     trackables,
@@ -46,7 +59,7 @@ export default function Index() {
     deleteTrackable,
     getTodayTotal,
     logActivity,
-  } = useTracking();
+  } = useTracking(timeZone);
 
   const handleViewChange = (view: ViewType) => {
     setActiveView(view);
@@ -54,7 +67,11 @@ export default function Index() {
 
   return (
     <div className="min-h-screen bg-background">
-      <Header onWhatIfClick={() => setIsWhatIfOpen(true)} />
+      <Header 
+        onWhatIfClick={() => setIsWhatIfOpen(true)} 
+        onSettingsClick={() => setIsSettingsOpen(true)} 
+        inbox={<NotificationInbox timeZone={timeZone} />}
+      />
       
       <main className="container max-w-2xl mx-auto px-4 py-6 space-y-6">
         {/* Model status */}
@@ -161,7 +178,7 @@ export default function Index() {
 
         {/* Goals View */}
         {activeView === "goals" && (
-          <GoalTrackingView />
+          <GoalTrackingView trackables={trackables} timeZone={timeZone} />
         )}
 
         {/* Model View */}
@@ -186,6 +203,13 @@ export default function Index() {
         onClose={() => setIsImportOpen(false)}
         onImport={setCausalModel}
       />
+      
+      <SettingsDialog
+        isOpen={isSettingsOpen}
+        onClose={() => setIsSettingsOpen(false)}
+        timeZone={timeZone}
+        onSaveTimeZone={updateTimeZone}
+      />
     </div>
   );
 }
@@ -0,0 +1,81 @@
+import { describe, it, expect } from "vitest";
+import {
+  backtestRule,
+  type GoalRule,
+  type TrackableValue,
+} from "@shared/goal-engine";
+import { event } from "./goal-engine-fixtures";
+
+const sauna: GoalRule = {
+  id: "sauna",
+  name: "Sauna",
+  description: null,
+  rule_type: "count",
+  rule_config: { event_pattern: { name: "sauna_session" }, required_count: 2, rolling_days: 7 },
+  rolling_window_days: 7,
+  required_completions: 2,
+  is_active: true,
+};
+
+const events = [
+  event("before", "sauna_session", "2026-02-28T18:00:00Z"),
+  event("a", "sauna_session", "2026-03-03T18:00:00Z"),
+  event("b", "sauna_session", "2026-03-04T18:00:00Z"),
+  event("late", "sauna_session", "2026-03-10T18:00:00Z"),
+];
+
+describe("backtestRule", () => {
+  const result = backtestRule(
+    sauna,
+    [sauna],
+    events,
+    new Date("2026-03-01T00:00:00Z"),
+    new Date("2026-03-10T12:00:00Z")
+  );
+
+  it("evaluates the rule at the end of each day with only the events known by then", () => {
+    expect(result.days.map(d => d.date)).toEqual([
+      "2026-03-01", "2026-03-02", "2026-03-03", "2026-03-04", "2026-03-05",
+      "2026-03-06", "2026-03-07", "2026-03-08", "2026-03-09", "2026-03-10",
+    ]);
+    expect(result.days.map(d => d.completions_in_window)).toEqual([1, 1, 2, 3, 3, 3, 2, 2, 2, 2]);
+    expect(result.days.map(d => d.status).slice(0, 3)).toEqual(["at_risk", "at_risk", "completed"]);
+  });
+
+  it("counts completions finished within the range and tallies failure reasons", () => {
+    // "before" falls ahead of the range and "late" after `to`
+    expect(result.total_completions).toBe(2);
+    expect(result.status_days).toEqual({ completed: 8, on_track: 0, at_risk: 2, off_track: 0 });
+    expect(result.failure_reasons).toEqual([{ reason: "at risk", days: 2 }]);
+  });
+
+  it("replays drafts against the other rules and counts aggregate days once", () => {
+    const protein: GoalRule = {
+      id: "backtest",
+      name: "Protein",
+      description: null,
+      rule_type: "aggregate",
+      rule_config: { trackable: "Protein", aggregation: "sum", operator: "gte", threshold: 160, required_days: 2 },
+      rolling_window_days: 7,
+      required_completions: 2,
+      is_active: true,
+    };
+    const trackableValues: TrackableValue[] = [
+      { id: "v0", trackable_id: "t1", trackable_name: "protein", value: 170, logged_at: "2026-02-27T12:00:00Z" },
+      { id: "v1", trackable_id: "t1", trackable_name: "protein", value: 170, logged_at: "2026-03-02T12:00:00Z" },
+      { id: "v2", trackable_id: "t1", trackable_name: "protein", value: 120, logged_at: "2026-03-03T12:00:00Z" },
+      { id: "v3", trackable_id: "t1", trackable_name: "protein", value: 165, logged_at: "2026-03-04T12:00:00Z" },
+    ];
+    const { days, total_completions } = backtestRule(
+      protein,
+      [sauna],
+      [],
+      new Date("2026-03-01T00:00:00Z"),
+      new Date("2026-03-05T23:00:00Z"),
+      { trackableValues }
+    );
+
+    expect(days.map(d => d.completions_in_window)).toEqual([1, 2, 2, 3, 3]);
+    expect(total_completions).toBe(2);
+  });
+});
@@ -0,0 +1,132 @@
+import { describe, it, expect } from "vitest";
+import {
+  evaluateGoals,
+  exportRules,
+  importRules,
+  GOAL_TEMPLATES,
+  RULE_BUNDLE_FORMAT,
+  type CompoundConfig,
+  type GateConfig,
+  type GoalRule,
+} from "@shared/goal-engine";
+import { rule } from "./goal-engine-fixtures";
+import { parseRuleFile, serializeRuleBundle } from "@/lib/ruleFiles";
+
+const sauna = rule({
+  id: "sauna",
+  rule_type: "count",
+  rule_config: { event_pattern: { name: "sauna_session" }, required_count: 3, rolling_days: 7 },
+});
+const gate = rule({
+  id: "gate",
+  rule_type: "gate",
+  rule_config: { condition: { event_name: "fasting_state", max_hours_ago: 4 }, gated_rule_id: "sauna" },
+});
+const protein = rule({
+  id: "protein",
+  rule_type: "sequence",
+  confidence_policy: { mode: "threshold", min_confidence: 0.5 },
+  rule_config: { events: [{ name: "training_session" }, { name: "protein_bolus" }], min_hours: 0, max_hours: 2 },
+});
+const both = rule({
+  id: "both",
+  rule_type: "compound",
+  rule_config: { operator: "AND", child_rule_ids: ["gate", "protein"] },
+});
+const rules = [sauna, gate, protein, both];
+
+let counter = 0;
+const createId = () => `new-${++counter}`;
+
+describe("rule bundles", () => {
+  it("exports selected rules with everything they reference", () => {
+    const bundle = exportRules(rules, ["both"], new Date("2026-03-10T12:00:00Z"));
+
+    expect(bundle.format).toBe(RULE_BUNDLE_FORMAT);
+    expect(bundle.rules.map(r => r.key).sort()).toEqual(["both", "gate", "protein", "sauna"]);
+    expect(bundle.rules.find(r => r.key === "protein")?.confidence_policy).toEqual({ mode: "threshold", min_confidence: 0.5 });
+    expect(exportRules(rules, ["protein"]).rules).toHaveLength(1);
+  });
+
+  it("imports under new IDs and remaps gate and compound references", () => {
+    counter = 0;
+    const { rules: imported, errors } = importRules(exportRules(rules, ["both"]), createId);
+    const byName = new Map(imported.map(r => [r.name, r]));
+
+    expect(errors).toEqual([]);
+    expect(imported.every(r => r.id.startsWith("new-"))).toBe(true);
+    expect((byName.get("gate")!.rule_config as GateConfig).gated_rule_id).toBe(byName.get("sauna")!.id);
+    expect((byName.get("both")!.rule_config as CompoundConfig).child_rule_ids).toEqual([
+      byName.get("gate")!.id,
+      byName.get("protein")!.id,
+    ]);
+  });
+
+  it("reports every problem and imports nothing from an invalid bundle", () => {
+    const { rules: imported, errors } = importRules({
+      format: RULE_BUNDLE_FORMAT,
+      version: 1,
+      rules: [
+        { key: "a", name: "A", rule_type: "gate", rule_config: { condition: { event_name: "x" }, gated_rule_id: "missing" } },
+        { key: "a", name: "", rule_type: "nope", rule_config: {} },
+      ],
+    }, createId);
+
+    expect(imported).toEqual([]);
+    expect(errors).toEqual([
+      'Duplicate rule key "a"',
+      "Rule #2 has no name",
+      'Rule #2 has unknown type "nope"',
+      'Rule "A" references "missing", which is not in the bundle',
+    ]);
+    expect(importRules({ hello: "world" }, createId).errors).toEqual(['Not a goal rule bundle: missing "rules" list']);
+  });
+
+  it("validates each rule's name, config, window and target before importing any", () => {
+    const { rules: imported, errors } = importRules({
+      rules: [
+        { key: "a", name: 42, rule_type: "count", rule_config: { event_pattern: { name: "x" }, required_count: 1 } },
+        { key: "b", name: "B", rule_type: "count", rule_config: { event_pattern: {}, required_count: "three" } },
+        {
+          key: "c",
+          name: "C",
+          rule_type: "compound",
+          rule_config: { operator: "AND", child_rule_ids: ["a"] },
+          rolling_window_days: 0,
+          window_type: "fortnightly",
+          required_completions: "1",
+          confidence_policy: "strict",
+        },
+        { key: "d", name: "D", rule_type: "gate", rule_config: { condition: {}, gated_rule_id: "a" } },
+      ],
+    }, createId);
+
+    expect(imported).toEqual([]);
+    expect(errors).toEqual([
+      "Rule #1 has no name",
+      'Rule "B": rule_config.event_pattern.name: must be a non-empty string',
+      'Rule "B": rule_config.required_count: must be a number',
+      'Rule "C": rolling_window_days: must be at least 1',
+      'Rule "C": required_completions: must be a number',
+      'Rule "C": window_type: must be one of rolling, calendar_day, iso_week, calendar_month',
+      'Rule "C": confidence_policy: must be an object',
+      'Rule "D": rule_config.condition.event_name: must be a non-empty string',
+    ]);
+  });
+
+  it("round-trips through YAML and JSON files", () => {
+    const bundle = exportRules(rules, ["both"], new Date("2026-03-10T12:00:00Z"));
+
+    expect(parseRuleFile(serializeRuleBundle(bundle, "yaml")).data).toEqual(JSON.parse(JSON.stringify(bundle)));
+    expect(parseRuleFile(serializeRuleBundle(bundle, "json")).data).toEqual(JSON.parse(JSON.stringify(bundle)));
+    expect(parseRuleFile("rules: [").error).not.toBeNull();
+  });
+
+  it("ships templates that import and evaluate cleanly", () => {
+    for (const template of GOAL_TEMPLATES) {
+      const { rules: imported, errors } = importRules({ rules: template.rules }, createId);
+      expect(errors).toEqual([]);
+      expect(evaluateGoals(imported, [], new Date()).validation_errors).toEqual([]);
+    }
+  });
+});
@@ -0,0 +1,149 @@
+import { describe, it, expect } from "vitest";
+import {
+  evaluateGoals,
+  orderRulesByDependencies,
+  type GoalEvaluation,
+  type GoalRule,
+} from "@shared/goal-engine";
+import { event, rule, now } from "./goal-engine-fixtures";
+
+type Status = GoalEvaluation["status"];
+
+// A count rule needing 10 events: 10 completes it, 7 is on track, 3 at risk, none off track
+const EVENTS_FOR: Record<Status, number> = { completed: 10, on_track: 7, at_risk: 3, off_track: 0 };
+
+function child(id: string): GoalRule {
+  return rule({
+    id,
+    rule_type: "count",
+    rule_config: { event_pattern: { name: `${id}_event` }, required_count: 10, rolling_days: 7 },
+    is_active: false,
+  });
+}
+
+function compound(id: string, operator: "AND" | "OR", childIds: string[]): GoalRule {
+  return rule({ id, rule_type: "compound", rule_config: { operator, child_rule_ids: childIds } });
+}
+
+function evaluateCompound(operator: "AND" | "OR", a: Status, b: Status) {
+  const events = (["a", "b"] as const).flatMap(id =>
+    Array.from({ length: EVENTS_FOR[id === "a" ? a : b] }, (_, i) => event(`${id}${i}`, `${id}_event`, i + 1))
+  );
+  const { evaluations } = evaluateGoals([compound("parent", operator, ["a", "b"]), child("a"), child("b")], events, now);
+  return evaluations[0];
+}
+
+describe("compound rules", () => {
+  it("sets up each child status it is given", () => {
+    for (const status of Object.keys(EVENTS_FOR) as Status[]) {
+      const { evaluations } = evaluateGoals(
+        [{ ...child("a"), is_active: true }],
+        Array.from({ length: EVENTS_FOR[status] }, (_, i) => event(`a${i}`, "a_event", i + 1)),
+        now
+      );
+      expect(evaluations[0].status).toBe(status);
+    }
+  });
+
+  it.each([
+    ["completed", "completed", "completed"],
+    ["completed", "on_track", "on_track"],
+    ["on_track", "at_risk", "at_risk"],
+    ["completed", "at_risk", "at_risk"],
+    ["at_risk", "off_track", "off_track"],
+    ["completed", "off_track", "off_track"],
+  ] as [Status, Status, Status][])("AND of %s and %s is %s", (a, b, expected) => {
+    const evaluation = evaluateCompound("AND", a, b);
+    expect(evaluation.status).toBe(expected);
+    expect(evaluation.required_in_window).toBe(2);
+  });
+
+  it.each([
+    ["completed", "off_track", "completed"],
+    ["on_track", "off_track", "on_track"],
+    ["at_risk", "on_track", "on_track"],
+    ["at_risk", "off_track", "at_risk"],
+    ["off_track", "off_track", "off_track"],
+  ] as [Status, Status, Status][])("OR of %s and %s is %s", (a, b, expected) => {
+    const evaluation = evaluateCompound("OR", a, b);
+    expect(evaluation.status).toBe(expected);
+    expect(evaluation.required_in_window).toBe(1);
+  });
+
+  it("reports each child and why the ones still open are not done", () => {
+    const evaluation = evaluateCompound("AND", "completed", "at_risk");
+
+    expect(evaluation.completions_in_window).toBe(1);
+    expect(evaluation.last_fail_reason).toBe("b: at risk");
+    expect(evaluation.details.children).toEqual([
+      expect.objectContaining({ rule_id: "a", status: "completed", completions_in_window: 10 }),
+      expect.objectContaining({ rule_id: "b", status: "at_risk", completions_in_window: 3 }),
+    ]);
+  });
+
+  it("reports a missing child as off track", () => {
+    const { evaluations } = evaluateGoals([compound("parent", "AND", ["a", "gone"]), child("a")], [], now);
+    expect(evaluations[0].status).toBe("off_track");
+    expect(evaluations[0].last_fail_reason).toContain("gone: Child rule not found: gone");
+  });
+});
+
+describe("dependency order", () => {
+  const rules = [
+    compound("top", "AND", ["middle", "a"]),
+    compound("middle", "OR", ["a", "b"]),
+    rule({ id: "gate", rule_type: "gate", rule_config: { condition: { event_name: "x" }, gated_rule_id: "b" } }),
+    child("a"),
+    child("b"),
+  ];
+  const rulesById = new Map(rules.map(r => [r.id, r]));
+
+  it("orders every rule after the rules it depends on, once each", () => {
+    const { ordered, cyclic } = orderRulesByDependencies([rulesById.get("top")!, rulesById.get("gate")!], rulesById);
+
+    expect(ordered.map(r => r.id)).toEqual(["a", "b", "middle", "top", "gate"]);
+    expect(cyclic.size).toBe(0);
+  });
+
+  it("lets a compound see the statuses of nested compounds", () => {
+    const events = Array.from({ length: 10 }, (_, i) => event(`a${i}`, "a_event", i + 1));
+    const { evaluations } = evaluateGoals(rules, events, now);
+    const byId = new Map(evaluations.map(e => [e.goal_rule_id, e.status]));
+
+    expect(byId.get("middle")).toBe("completed");
+    expect(byId.get("top")).toBe("completed");
+  });
+});
+
+describe("dependency cycles", () => {
+  const cycle = [
+    compound("x", "AND", ["y"]),
+    compound("y", "OR", ["z", "a"]),
+    compound("z", "AND", ["x"]),
+    compound("outside", "AND", ["x"]),
+    child("a"),
+  ];
+
+  it("reports every rule in a cycle as a validation error instead of evaluating it", () => {
+    const { evaluations, validation_errors } = evaluateGoals(cycle, [], now);
+    const byId = new Map(evaluations.map(e => [e.goal_rule_id, e]));
+
+    expect(validation_errors.map(e => e.rule_id).sort()).toEqual(["x", "y", "z"]);
+    expect(validation_errors[0].message).toMatch(/^Dependency cycle: /);
+    expect(byId.get("y")).toMatchObject({ status: "off_track", last_fail_reason: "Dependency cycle: x → y → z → x" });
+    expect(byId.get("y")!.details.validation_errors).toHaveLength(1);
+  });
+
+  it("still evaluates rules that only depend on a cycle", () => {
+    const { evaluations, validation_errors } = evaluateGoals(cycle, [], now);
+
+    expect(validation_errors.some(e => e.rule_id === "outside")).toBe(false);
+    expect(evaluations.find(e => e.goal_rule_id === "outside")!.status).toBe("off_track");
+  });
+
+  it("reports a rule that depends on itself", () => {
+    const self = compound("self", "AND", ["self"]);
+    const { validation_errors } = evaluateGoals([self], [], now);
+    expect(validation_errors).toEqual([{ rule_id: "self", message: "Dependency cycle: self → self" }]);
+  });
+});
@@ -0,0 +1,126 @@
+import { describe, it, expect } from "vitest";
+import { evaluateGoals, type ConfidenceSplit, type GoalForecast, type GoalRule } from "@shared/goal-engine";
+import { event, rule, now } from "./goal-engine-fixtures";
+
+const ghToProtein = rule({
+  id: "gh",
+  rule_type: "sequence",
+  required_completions: 2,
+  rule_config: { events: [{ name: "GH_stimulus" }, { name: "protein_bolus" }], min_hours: 0, max_hours: 3 },
+});
+
+// One chain on a confirmed GH_stimulus, one on an inferred one at 0.3
+const events = [
+  event("g1", "GH_stimulus", 30),
+  event("p1", "protein_bolus", 29),
+  event("g2", "GH_stimulus", 6, { confidence: 0.3, source_type: "derived" }),
+  event("p2", "protein_bolus", 5),
+];
+
+function evaluate(r: GoalRule, evts = events) {
+  return evaluateGoals([r], evts, now).evaluations[0];
+}
+
+describe("confidence policies", () => {
+  it("counts every event in full without a policy, reporting the split", () => {
+    const evaluation = evaluate(ghToProtein);
+
+    expect(evaluation.status).toBe("completed");
+    expect(evaluation.details.confidence_split).toEqual<ConfidenceSplit>({ confirmed: 1, inferred: 1, min_confidence: 0.9 });
+  });
+
+  it("ignores events below the threshold", () => {
+    const evaluation = evaluate({ ...ghToProtein, confidence_policy: { mode: "threshold", min_confidence: 0.5 } });
+
+    expect(evaluation.completions_in_window).toBe(1);
+    expect(evaluation.status).not.toBe("completed");
+    expect(evaluation.details.confidence_split).toMatchObject({ confirmed: 1, inferred: 0 });
+  });
+
+  it("counts completions by the confidence of their weakest event", () => {
+    const evaluation = evaluate({ ...ghToProtein, confidence_policy: { mode: "fractional" } });
+
+    expect(evaluation.completions_in_window).toBe(1.3);
+    expect(evaluation.status).toBe("at_risk");
+    expect(evaluation.last_fail_reason).toContain("weigh 1.3");
+  });
+
+  it("requires at least one confirmed completion", () => {
+    const policy = { mode: "require_confirmed" as const };
+    const inferredOnly = [event("g2", "GH_stimulus", 6, { confidence: 0.3, source_type: "derived" }), event("p2", "protein_bolus", 5)];
+    const single = { ...ghToProtein, required_completions: 1, confidence_policy: policy };
+
+    expect(evaluate(single, inferredOnly).status).toBe("on_track");
+    expect(evaluate(single, inferredOnly).last_fail_reason).toContain("No confirmed completion");
+    expect(evaluate(single).status).toBe("completed");
+  });
+
+  it("weights count rules per event", () => {
+    const count = rule({
+      id: "count",
+      rule_type: "count",
+      confidence_policy: { mode: "fractional" },
+      rule_config: { event_pattern: { name: "GH_stimulus" }, required_count: 2, rolling_days: 7 },
+    });
+    const evaluation = evaluate(count);
+
+    expect(evaluation.completions_in_window).toBe(1.3);
+    expect(evaluation.required_in_window).toBe(2);
+    expect(evaluation.status).toBe("at_risk");
+  });
+
+  it("derives the status from the weighted total, not the raw count", () => {
+    const count = rule({
+      id: "count",
+      rule_type: "count",
+      confidence_policy: { mode: "fractional" },
+      rule_config: { event_pattern: { name: "sauna_session" }, required_count: 10, rolling_days: 7 },
+    });
+    // 8 of 10 events would be on track; weighted at 0.3 they are 2.4 of 10
+    const inferred = Array.from({ length: 8 }, (_, i) => event(`s${i}`, "sauna_session", i + 1, { confidence: 0.3 }));
+    const evaluation = evaluate(count, inferred);
+
+    expect(evaluation.completions_in_window).toBe(2.4);
+    expect(evaluation.status).toBe("off_track");
+  });
+
+  it("forecasts a partly weighted rule in whole events", () => {
+    const count = rule({
+      id: "count",
+      rule_type: "count",
+      confidence_policy: { mode: "fractional" },
+      rule_config: { event_pattern: { name: "sauna_session" }, required_count: 3, rolling_days: 7 },
+    });
+    const inferred = [
+      event("s1", "sauna_session", 30, { confidence: 0.5 }),
+      event("s2", "sauna_session", 6, { confidence: 0.8 }),
+    ];
+    const history = [...events, ...inferred];
+    const [weighted, sequence] = evaluateGoals(
+      [count, { ...ghToProtein, required_completions: 3, confidence_policy: { mode: "fractional" } }],
+      history,
+      now,
+      { history }
+    ).evaluations;
+
+    expect(weighted.completions_in_window).toBe(1.3);
+    expect((weighted.details.forecast as GoalForecast).reasons[1]).toMatch(/^Needs 2 more;/);
+    expect(sequence.completions_in_window).toBe(1.3);
+    expect((sequence.details.forecast as GoalForecast).probability).toBeGreaterThanOrEqual(0);
+  });
+
+  it("applies a gated rule's policy through the gate", () => {
+    const gated = { ...ghToProtein, required_completions: 2, is_active: false, confidence_policy: { mode: "threshold" as const } };
+    const gate = rule({
+      id: "gate",
+      rule_type: "gate",
+      required_completions: 2,
+      rule_config: { condition: { event_name: "GH_stimulus", max_hours_ago: 1 }, gated_rule_id: "gh" },
+    });
+    const evaluation = evaluateGoals([gated, gate], events, now).evaluations[0];
+    const unfiltered = evaluateGoals([{ ...gated, confidence_policy: null }, gate], events, now).evaluations[0];
+
+    expect(evaluation.completions_in_window).toBe(1);
+    expect(unfiltered.completions_in_window).toBe(2);
+  });
+});
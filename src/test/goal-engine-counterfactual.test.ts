@@ -0,0 +1,60 @@
+import { describe, it, expect } from "vitest";
+import {
+  applyWhatIfScenario,
+  diffEvaluations,
+  evaluateGoals,
+  type GoalRule,
+} from "@shared/goal-engine";
+import { event, now } from "./goal-engine-fixtures";
+
+const trainingToProtein: GoalRule = {
+  id: "seq",
+  name: "Protein after training",
+  description: null,
+  rule_type: "sequence",
+  rule_config: { events: [{ name: "training_session" }, { name: "protein_bolus" }], min_hours: 0, max_hours: 2 },
+  rolling_window_days: 7,
+  required_completions: 1,
+  is_active: true,
+};
+
+const training = event("t", "training_session", "2026-03-09T08:00:00Z");
+const protein = event("p", "protein_bolus", "2026-03-09T11:00:00Z");
+
+describe("applyWhatIfScenario", () => {
+  it("removes, shifts and adds events in time order", () => {
+    const { events, unknownEventIds } = applyWhatIfScenario([training, protein], {
+      remove: ["p"],
+      shift: [{ event_id: "t", hours: -2 }],
+      add: [{ ...protein, occurred_at: "2026-03-09T05:00:00Z" }],
+    });
+
+    expect(unknownEventIds).toEqual([]);
+    expect(events.map(e => [e.id, e.occurred_at])).toEqual([
+      ["hypothetical-0", "2026-03-09T05:00:00Z"],
+      ["t", "2026-03-09T06:00:00.000Z"],
+    ]);
+  });
+
+  it("moves events to an absolute time", () => {
+    const { events } = applyWhatIfScenario([training], { shift: [{ event_id: "t", occurred_at: "2026-03-09T10:00:00Z" }] });
+    expect(events[0].occurred_at).toBe("2026-03-09T10:00:00.000Z");
+  });
+
+  it("reports IDs that are not among the events", () => {
+    expect(applyWhatIfScenario([training], { remove: ["x"], shift: [{ event_id: "y", hours: 1 }] }).unknownEventIds)
+      .toEqual(["x", "y"]);
+  });
+});
+
+describe("counterfactual evaluation", () => {
+  it("shows that training 2h later would have completed the sequence", () => {
+    const baseline = evaluateGoals([trainingToProtein], [training, protein], now).evaluations;
+    const { events } = applyWhatIfScenario([training, protein], { shift: [{ event_id: "t", hours: 2 }] });
+    const simulated = evaluateGoals([trainingToProtein], events, now).evaluations;
+
+    expect(diffEvaluations(baseline, simulated)).toEqual([
+      { goal_id: "seq", baseline_status: "off_track", simulated_status: "completed", completions_delta: 1 },
+    ]);
+  });
+});
@@ -0,0 +1,164 @@
+import { describe, it, expect } from "vitest";
+import {
+  formatRuleText,
+  parseRuleText,
+  GOAL_TEMPLATES,
+  type CountConfig,
+  type GoalRule,
+  type RuleDefinition,
+} from "@shared/goal-engine";
+
+const rules = [
+  { id: "rule-training", name: "Training sessions" },
+  { id: "rule-gh", name: "gh_fast" },
+];
+
+function parse(text: string): RuleDefinition {
+  const { rule, error } = parseRuleText(text, rules);
+  expect(error).toBeNull();
+  return rule!;
+}
+
+describe("parseRuleText", () => {
+  it("parses a sequence with completions per rolling window", () => {
+    expect(parse("protein_bolus within 0h..2h after training_session, 3x per 7d")).toEqual({
+      rule_type: "sequence",
+      rule_config: {
+        events: [{ name: "training_session" }, { name: "protein_bolus" }],
+        min_hours: 0,
+        max_hours: 2,
+      },
+      window_type: "rolling",
+      rolling_window_days: 7,
+      required_completions: 3,
+    });
+  });
+
+  it("reads longer sequences last step first, keeping per-step gaps", () => {
+    const rule = parse("c:meal[protein_g >= 40] within 1h..4h after b within 0h..2h after a");
+    expect(rule.rule_config).toEqual({
+      events: [
+        { name: "a" },
+        { name: "b" },
+        { name: "c", type: "meal", metadata: [{ key: "protein_g", op: "gte", value: 40 }], min_hours: 1, max_hours: 4 },
+      ],
+      min_hours: 0,
+      max_hours: 2,
+    });
+    expect(rule.required_completions).toBe(1);
+  });
+
+  it("parses a count per calendar week", () => {
+    expect(parse("count sauna_session >= 3 per calendar week")).toEqual({
+      rule_type: "count",
+      rule_config: { event_pattern: { name: "sauna_session" }, required_count: 3, rolling_days: 7 },
+      window_type: "iso_week",
+      rolling_window_days: 7,
+      required_completions: 3,
+    });
+  });
+
+  it("parses avoidance, aggregate, gate and compound rules", () => {
+    expect(parse("no caffeine_dose[magnitude >= 50] within 8h before sleep_episode, 5x per 7d").rule_config).toEqual({
+      anchor: { name: "sleep_episode" },
+      avoid: { name: "caffeine_dose", min_magnitude: 50 },
+      direction: "before",
+      hours: 8,
+    });
+    expect(parse('sum "Protein (g)" >= 160 on 6 days per 7d').rule_config).toEqual({
+      trackable: "Protein (g)",
+      aggregation: "sum",
+      operator: "gte",
+      threshold: 160,
+      required_days: 6,
+    });
+    expect(parse('@"Training sessions" only within 4h after fasting_state, 3x per 7d').rule_config).toEqual({
+      condition: { event_name: "fasting_state", max_hours_ago: 4 },
+      gated_rule_id: "rule-training",
+    });
+    expect(parse('any of @"training sessions", @rule-gh').rule_config).toEqual({
+      operator: "OR",
+      child_rule_ids: ["rule-training", "rule-gh"],
+    });
+  });
+
+  it("points errors at the offending position", () => {
+    const text = "protein_bolus within 0h..2h after training_session, 3 per 7d";
+    const { rule, error } = parseRuleText(text);
+    expect(rule).toBeNull();
+    expect(error).toEqual({ message: 'Expected completions, e.g. "3x", found "3"', position: text.indexOf("3 per") });
+
+    expect(parseRuleText("count sauna >= 3").error).toEqual({
+      message: 'Expected "per", found end of text',
+      position: 16,
+    });
+    expect(parseRuleText("no caffeine within 8h before").error?.position).toBe(28);
+    expect(parseRuleText("count sauna[foo ~ 1] >= 3 per 7d").error?.position).toBe(12);
+    expect(parseRuleText("@Unknown only after fasting_state").error).toEqual({ message: 'Unknown rule "Unknown"', position: 1 });
+  });
+
+  it("asks for keywords used as names to be quoted", () => {
+    expect(parseRuleText("count count >= 1 per 7d").error?.message).toMatch(/quote it/);
+    expect(parse('count "count" >= 1 per 7d').rule_config).toMatchObject({ event_pattern: { name: "count" } });
+  });
+});
+
+describe("formatRuleText", () => {
+  it("renders back to the syntax it was parsed from", () => {
+    const texts = [
+      "protein_bolus within 0h..2h after training_session, 3x per 7d",
+      "c:meal[protein_g >= 40] within 1h..4h after b within 0h..2h after a, 1x per 7d",
+      "count sauna_session >= 3 per calendar week",
+      "no caffeine_dose within 8h before sleep_episode, 5x per 7d",
+      'max "Resting HR" <= 60 on 5 days per calendar month',
+      '@"Training sessions" only within 1h..4h after fasting_state[magnitude >= 2], 3x per 14d',
+      '@gh_fast only after fasting_state, 1x per calendar day',
+      'all of @"Training sessions", @gh_fast',
+    ];
+    for (const text of texts) {
+      expect(formatRuleText(parse(text), rules)).toBe(text);
+    }
+  });
+
+  it("round-trips every template rule", () => {
+    for (const template of GOAL_TEMPLATES) {
+      const refs = template.rules.map(r => ({ id: r.key, name: r.name }));
+      for (const rule of template.rules) {
+        const text = formatRuleText(rule as unknown as GoalRule, refs);
+        const { rule: parsed, error } = parseRuleText(text, refs);
+        expect(error).toBeNull();
+        expect(formatRuleText(parsed!, refs)).toBe(text);
+        expect(parsed!.rule_type).toBe(rule.rule_type);
+      }
+    }
+  });
+
+  it("round-trips a count rule by the window and target it is evaluated with", () => {
+    const count = (config: Partial<CountConfig>, rule: Partial<RuleDefinition> = {}): RuleDefinition => ({
+      rule_type: "count",
+      rule_config: { event_pattern: { name: "sauna_session" }, ...config } as CountConfig,
+      rolling_window_days: 7,
+      required_completions: 2,
+      ...rule,
+    });
+    const withoutTarget = count({ rolling_days: 7 });
+    const ownWindow = count({ required_count: 3, rolling_days: 14 });
+
+    expect(formatRuleText(withoutTarget)).toBe("count sauna_session >= 2 per 7d");
+    expect(parse(formatRuleText(withoutTarget)).rule_config).toEqual({ ...withoutTarget.rule_config, required_count: 2 });
+    expect(formatRuleText(ownWindow)).toBe("count sauna_session >= 3 per 14d");
+    expect(parse(formatRuleText(ownWindow)).rule_config).toEqual(ownWindow.rule_config);
+  });
+
+  it("falls back to rule IDs for unknown or ambiguous names", () => {
+    const definition: RuleDefinition = {
+      rule_type: "compound",
+      rule_config: { operator: "AND", child_rule_ids: ["a-1", "b-2"] },
+      rolling_window_days: 7,
+      required_completions: 1,
+    };
+    const duplicates = [{ id: "a-1", name: "Same" }, { id: "b-2", name: "same" }];
+    expect(formatRuleText(definition, duplicates)).toBe("all of @a-1, @b-2");
+    expect(parseRuleText("all of @a-1, @b-2", duplicates).rule?.rule_config).toEqual(definition.rule_config);
+  });
+});
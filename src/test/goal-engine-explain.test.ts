@@ -0,0 +1,109 @@
+import { describe, it, expect } from "vitest";
+import {
+  explainRule,
+  type GoalRule,
+} from "@shared/goal-engine";
+import { event } from "./goal-engine-fixtures";
+
+const now = new Date("2026-03-10T20:00:00Z");
+
+describe("explainRule", () => {
+  const proteinAfterTraining: GoalRule = {
+    id: "seq",
+    name: "Protein after training",
+    description: null,
+    rule_type: "sequence",
+    rule_config: {
+      events: [{ name: "training_session" }, { name: "protein_bolus", type: "test" }],
+      min_hours: 0.5,
+      max_hours: 2,
+    },
+    rolling_window_days: 7,
+    required_completions: 3,
+    is_active: true,
+  };
+
+  it("traces each A event and why every B event was or was not used", () => {
+    const events = [
+      event("t1", "training_session", "2026-03-09T08:00:00Z"),
+      event("p1", "protein_bolus", "2026-03-09T08:10:00Z"),
+      event("t3", "training_session", "2026-03-09T08:30:00Z"),
+      event("p2", "protein_bolus", "2026-03-09T09:00:00Z"),
+      event("p3", "protein_bolus", "2026-03-09T09:30:00Z"),
+      event("p4", "protein_bolus", "2026-03-09T11:00:00Z"),
+      event("t2", "training_session", "2026-03-09T12:00:00Z"),
+      event("p5", "protein_bolus", "2026-03-09T13:00:00Z", { event_type: "snack" }),
+    ];
+    const explanation = explainRule(proteinAfterTraining, [proteinAfterTraining], events, now);
+
+    expect(explanation).toMatchObject({ status: "on_track", summary: expect.stringContaining("protein_bolus did not occur") });
+    expect(explanation.anchors.map(a => [a.event_id, a.outcome])).toEqual([
+      ["t1", "completed"],
+      ["t3", "completed"],
+      ["t2", "expired"],
+    ]);
+    const verdicts = (i: number) => explanation.anchors[i].steps[0].candidates.map(c => [c.event_id, c.verdict]);
+    expect(verdicts(0)).toEqual([["p1", "too_early"], ["p2", "matched"], ["p3", "not_needed"], ["p4", "too_late"]]);
+    expect(verdicts(1)).toEqual([["p2", "already_used"], ["p3", "matched"], ["p4", "too_late"]]);
+    expect(verdicts(2)).toEqual([["p5", "wrong_type"]]);
+    expect(explanation.anchors[2].steps[0]).toMatchObject({
+      window_start: "2026-03-09T12:30:00.000Z",
+      window_end: "2026-03-09T14:00:00.000Z",
+    });
+  });
+
+  it("lists the events a count rule counted and those it left out", () => {
+    const sauna: GoalRule = {
+      id: "sauna",
+      name: "Sauna",
+      description: null,
+      rule_type: "count",
+      rule_config: { event_pattern: { name: "sauna_session", min_magnitude: 15 }, required_count: 3, rolling_days: 7 },
+      rolling_window_days: 7,
+      required_completions: 3,
+      is_active: true,
+      confidence_policy: { mode: "threshold", min_confidence: 0.8 },
+    };
+    const events = [
+      event("s1", "sauna_session", "2026-03-01T18:00:00Z", { magnitude: 20 }),
+      event("s2", "sauna_session", "2026-03-05T18:00:00Z", { magnitude: 20 }),
+      event("s3", "sauna_session", "2026-03-06T18:00:00Z", { magnitude: 10 }),
+      event("s4", "sauna_session", "2026-03-07T18:00:00Z", { magnitude: 20, confidence: 0.5 }),
+      event("x", "cold_plunge", "2026-03-07T19:00:00Z"),
+    ];
+    const explanation = explainRule(sauna, [sauna], events, now);
+
+    expect(explanation.events.map(e => [e.event_id, e.verdict])).toEqual([
+      ["s1", "outside_window"],
+      ["s2", "counted"],
+      ["s3", "wrong_type"],
+      ["s4", "low_confidence"],
+    ]);
+  });
+
+  it("explains the rules beneath a compound", () => {
+    const count: GoalRule = {
+      id: "count",
+      name: "Train",
+      description: null,
+      rule_type: "count",
+      rule_config: { event_pattern: { name: "training_session" }, required_count: 1, rolling_days: 7 },
+      rolling_window_days: 7,
+      required_completions: 1,
+      is_active: true,
+    };
+    const compound: GoalRule = {
+      ...count,
+      id: "both",
+      name: "Train and refuel",
+      rule_type: "compound",
+      rule_config: { operator: "AND", child_rule_ids: ["count", "seq"] },
+    };
+    const events = [event("t1", "training_session", "2026-03-09T08:00:00Z")];
+    const explanation = explainRule(compound, [compound, count, proteinAfterTraining], events, now);
+
+    expect(explanation.window_start).toBeNull();
+    expect(explanation.children.map(c => [c.rule_id, c.status])).toEqual([["count", "completed"], ["seq", "off_track"]]);
+    expect(explanation.children[1].anchors[0]).toMatchObject({ event_id: "t1", outcome: "expired" });
+  });
+});
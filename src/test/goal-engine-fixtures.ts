@@ -0,0 +1,42 @@
+import type { GoalRule, NormalizedEvent } from "@shared/goal-engine";
+
+// Shared fixtures for the goal engine tests
+export const now = new Date("2026-03-10T12:00:00Z");
+export const HOUR = 60 * 60 * 1000;
+export const DAY = 24 * HOUR;
+
+// A confirmed manual event at an ISO time, a Date, or a number of hours before `now`
+export function event(
+  id: string,
+  name: string,
+  at: string | Date | number,
+  overrides: Partial<NormalizedEvent> = {}
+): NormalizedEvent {
+  const occurredAt = typeof at === "number"
+    ? new Date(now.getTime() - at * HOUR).toISOString()
+    : typeof at === "string" ? at : at.toISOString();
+  return {
+    id,
+    event_type: "test",
+    event_name: name,
+    occurred_at: occurredAt,
+    magnitude: null,
+    confidence: 1,
+    metadata: {},
+    source_type: "manual",
+    source_id: null,
+    ...overrides,
+  };
+}
+
+// An active rule named after its id, over a 7-day rolling window, needing one completion
+export function rule(overrides: Partial<GoalRule> & Pick<GoalRule, "id" | "rule_type" | "rule_config">): GoalRule {
+  return {
+    name: overrides.id,
+    description: null,
+    rolling_window_days: 7,
+    required_completions: 1,
+    is_active: true,
+    ...overrides,
+  };
+}
@@ -0,0 +1,108 @@
+import { describe, it, expect } from "vitest";
+import {
+  evaluateGoals,
+  getChanceOfAtLeast,
+  getEventRate,
+  getExpectedEvents,
+  type GoalForecast,
+  type GoalRule,
+  type NormalizedEvent,
+} from "@shared/goal-engine";
+import { event, rule, now, HOUR, DAY } from "./goal-engine-fixtures";
+
+// One event per day at the given UTC hour, for the last `days` days (not today)
+function dailyAt(name: string, hour: number, days: number): NormalizedEvent[] {
+  return Array.from({ length: days }, (_, i) => {
+    const day = new Date(now.getTime() - (i + 1) * DAY);
+    day.setUTCHours(hour, 0, 0, 0);
+    return event(`${name}-${i}`, name, day);
+  });
+}
+
+function forecastOf(rules: GoalRule[], events: NormalizedEvent[], history = events) {
+  const { evaluations } = evaluateGoals(rules, events, now, { history });
+  return evaluations.map(e => ({ status: e.status, forecast: e.details.forecast as GoalForecast | undefined }));
+}
+
+describe("event rates", () => {
+  it("spreads history over local hours and counts per week", () => {
+    const rate = getEventRate({ name: "walk" }, dailyAt("walk", 18, 14), now);
+
+    expect(rate.total).toBe(14);
+    expect(rate.per_week).toBeCloseTo(7);
+    expect(rate.hourly[18]).toBeCloseTo(1);
+    expect(rate.hourly[8]).toBe(0);
+  });
+
+  it("expects events only in the hours they usually happen", () => {
+    const rate = getEventRate({ name: "walk" }, dailyAt("walk", 18, 14), now);
+
+    expect(getExpectedEvents(rate, now, new Date(now.getTime() + 4 * HOUR))).toBe(0);
+    expect(getExpectedEvents(rate, now, new Date(now.getTime() + 8 * HOUR))).toBeCloseTo(1);
+  });
+
+  it("combines independent chances with a Poisson count", () => {
+    expect(getChanceOfAtLeast([0.5, 0.5], 0, 2)).toBeCloseTo(0.25);
+    expect(getChanceOfAtLeast([], 1, 1)).toBeCloseTo(1 - Math.exp(-1));
+    expect(getChanceOfAtLeast([1], 0, 0)).toBe(1);
+  });
+});
+
+describe("goal forecasts", () => {
+  const dailyWalk = rule({
+    id: "walk",
+    rule_type: "count",
+    window_type: "calendar_day",
+    rolling_window_days: 1,
+    rule_config: { event_pattern: { name: "walk" }, required_count: 1, rolling_days: 1 },
+  });
+
+  it("lifts a goal whose event usually happens later in the window", () => {
+    const [{ status, forecast }] = forecastOf([dailyWalk], dailyAt("walk", 18, 14));
+
+    expect(forecast?.sufficient_data).toBe(true);
+    // Once a day at 18:00 gives 1 - e^-1 for the rest of today
+    expect(forecast?.probability).toBeCloseTo(0.632, 2);
+    expect(forecast?.heuristic_status).toBe("off_track");
+    expect(status).toBe("at_risk");
+  });
+
+  it("marks a goal off track when its event usually happens earlier in the day", () => {
+    const [{ status, forecast }] = forecastOf([dailyWalk], dailyAt("walk", 8, 14));
+
+    expect(forecast?.probability).toBe(0);
+    expect(status).toBe("off_track");
+  });
+
+  it("keeps the heuristic status when there is too little history", () => {
+    const [{ status, forecast }] = forecastOf([dailyWalk], dailyAt("walk", 18, 3));
+
+    expect(forecast?.sufficient_data).toBe(false);
+    expect(status).toBe("off_track");
+  });
+
+  it("forecasts an open sequence window from when the next step usually happens", () => {
+    const sequence = rule({
+      id: "protein",
+      rule_type: "sequence",
+      required_completions: 7,
+      rule_config: { events: [{ name: "training" }, { name: "protein" }], min_hours: 0, max_hours: 3 },
+    });
+    // Six completed chains in the window; today's needs protein before 14:00, usually had at 13:00
+    const history = [...dailyAt("training", 11, 14), ...dailyAt("protein", 13, 14)];
+    const events = [...history, event("t", "training", new Date(now.getTime() - HOUR))];
+    const [{ status, forecast }] = forecastOf([sequence], events);
+
+    expect(forecast?.reasons.some(r => r.startsWith("Open window for protein"))).toBe(true);
+    expect(forecast?.probability).toBeGreaterThan(0.5);
+    expect(status).not.toBe("off_track");
+  });
+
+  it("does not forecast completed goals or rules evaluated without history", () => {
+    const done = forecastOf([dailyWalk], [...dailyAt("walk", 18, 14), event("today", "walk", new Date(now.getTime() - HOUR))]);
+    expect(done[0]).toEqual({ status: "completed", forecast: undefined });
+
+    const { evaluations } = evaluateGoals([dailyWalk], dailyAt("walk", 18, 14), now);
+    expect(evaluations[0].details.forecast).toBeUndefined();
+  });
+});
@@ -0,0 +1,131 @@
+import { describe, it, expect } from "vitest";
+import { evaluateGoals, evaluateRule, type GateConfig, type GoalRule, type NormalizedEvent } from "@shared/goal-engine";
+import { event, rule, now } from "./goal-engine-fixtures";
+
+// GH stimulus only counts after a fast of at least 12h that was logged 1-4h before it
+const ghStimulus = rule({
+  id: "gh",
+  rule_type: "count",
+  rule_config: { event_pattern: { name: "GH_stimulus" }, required_count: 2, rolling_days: 7 },
+  is_active: false,
+});
+
+function gate(condition: GateConfig["condition"]): GoalRule {
+  return rule({
+    id: "gate",
+    rule_type: "gate",
+    rule_config: { condition, gated_rule_id: "gh" },
+    required_completions: 2,
+  });
+}
+
+const fasted = gate({ event_name: "fasting_state", min_hours_ago: 1, max_hours_ago: 4, min_magnitude: 12 });
+
+function evaluateGate(g: GoalRule, events: NormalizedEvent[]) {
+  return evaluateRule(g, new Map([[g.id, g], [ghStimulus.id, ghStimulus]]), events, now);
+}
+
+// Each GH stimulus 3h ago, with fasting logged `hoursBefore` it
+function stimulusAfterFast(hoursBefore: number, magnitude: number | null = 14) {
+  return [
+    event("f1", "fasting_state", 3 + hoursBefore, { magnitude }),
+    event("s1", "GH_stimulus", 3),
+  ];
+}
+
+describe("gate rules", () => {
+  it("opens when the condition was met and counts the gated occurrence", () => {
+    const { evaluation, impacts } = evaluateGate(fasted, stimulusAfterFast(2));
+
+    expect(evaluation.completions_in_window).toBe(1);
+    expect(impacts).toEqual([
+      expect.objectContaining({
+        event_id: "s1",
+        goal_rule_id: "gate",
+        impact_type: "gate_opened",
+        impact_details: { condition_event_id: "f1", condition: "fasting_state", gated_rule_id: "gh" },
+      }),
+    ]);
+  });
+
+  it("closes when the condition is missing and leaves the occurrence out", () => {
+    const { evaluation, impacts } = evaluateGate(fasted, [event("s1", "GH_stimulus", 3)]);
+
+    expect(evaluation.completions_in_window).toBe(0);
+    expect(evaluation.last_fail_reason).toBe("1 GH_stimulus event(s) did not count: fasting_state condition not met");
+    expect(impacts).toEqual([
+      expect.objectContaining({
+        event_id: "s1",
+        goal_rule_id: "gate",
+        impact_type: "gate_closed",
+        impact_details: { condition: (fasted.rule_config as GateConfig).condition, gated_rule_id: "gh" },
+      }),
+    ]);
+  });
+
+  it.each([
+    [0.5, "gate_closed"],  // too recent
+    [1, "gate_opened"],    // bounds are inclusive
+    [4, "gate_opened"],
+    [4.5, "gate_closed"],  // too old
+  ])("with the condition %sh before the anchor is %s", (hoursBefore, impactType) => {
+    const { impacts } = evaluateGate(fasted, stimulusAfterFast(hoursBefore));
+    expect(impacts.map(i => i.impact_type)).toEqual([impactType]);
+  });
+
+  it("ignores condition events logged after the anchor", () => {
+    const { impacts } = evaluateGate(gate({ event_name: "fasting_state" }), [
+      event("s1", "GH_stimulus", 3),
+      event("f1", "fasting_state", 2),
+    ]);
+    expect(impacts.map(i => i.impact_type)).toEqual(["gate_closed"]);
+  });
+
+  it("accepts a condition of any age without max_hours_ago", () => {
+    const { impacts } = evaluateGate(gate({ event_name: "fasting_state" }), stimulusAfterFast(48));
+    expect(impacts.map(i => i.impact_type)).toEqual(["gate_opened"]);
+  });
+
+  it.each([
+    [14, "gate_opened"],
+    [12, "gate_opened"],
+    [8, "gate_closed"],
+    [null, "gate_closed"],
+  ])("with a condition magnitude of %s is %s", (magnitude, impactType) => {
+    const { impacts } = evaluateGate(fasted, stimulusAfterFast(2, magnitude));
+    expect(impacts.map(i => i.impact_type)).toEqual([impactType]);
+  });
+
+  it("uses the most recent qualifying condition event", () => {
+    const { impacts } = evaluateGate(fasted, [
+      event("f1", "fasting_state", 6.5, { magnitude: 16 }),
+      event("f2", "fasting_state", 5, { magnitude: 14 }),
+      event("f3", "fasting_state", 4.5, { magnitude: 6 }),
+      event("s1", "GH_stimulus", 3),
+    ]);
+    expect(impacts[0].impact_details.condition_event_id).toBe("f2");
+  });
+
+  it("decides each anchor on its own", () => {
+    const { evaluation, impacts } = evaluateGate(fasted, [
+      event("f1", "fasting_state", 30, { magnitude: 14 }),
+      event("s1", "GH_stimulus", 28),
+      event("s2", "GH_stimulus", 3),
+    ]);
+
+    expect(impacts.map(i => [i.event_id, i.impact_type])).toEqual([["s1", "gate_opened"], ["s2", "gate_closed"]]);
+    expect(evaluation).toMatchObject({ status: "at_risk", completions_in_window: 1 });
+  });
+
+  it("reports a malformed gated rule instead of failing on it", () => {
+    const broken = rule({ id: "gh", rule_type: "sequence", rule_config: { min_hours: 0, max_hours: 2 } as never, is_active: false });
+    const { evaluations } = evaluateGoals([fasted, broken, { ...ghStimulus, id: "gh2", is_active: true }], stimulusAfterFast(2), now);
+
+    expect(evaluations[0]).toMatchObject({
+      goal_rule_id: "gate",
+      status: "off_track",
+      last_fail_reason: "Gated rule gh is invalid: rule_config.events: must be a list",
+    });
+    expect(evaluations[1]).toMatchObject({ goal_rule_id: "gh2", status: "at_risk" });
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, it, expect } from "vitest";
+import { buildStatusHistory, type HistoryEvaluation } from "@shared/goal-engine";
+
+function evaluation(evaluatedAt: string, status: HistoryEvaluation["status"], completions: number): HistoryEvaluation {
+  return {
+    status,
+    evaluated_at: evaluatedAt,
+    last_fail_reason: null,
+    completions_in_window: completions,
+    required_in_window: 3,
+  };
+}
+
+describe("buildStatusHistory", () => {
+  it("keeps the last evaluation of each day and marks status changes", () => {
+    const history = buildStatusHistory([
+      evaluation("2026-03-02T08:00:00Z", "off_track", 0),
+      evaluation("2026-03-02T20:00:00Z", "off_track", 0),
+      evaluation("2026-03-04T09:00:00Z", "at_risk", 1),
+      evaluation("2026-03-04T18:00:00Z", "on_track", 2),
+      evaluation("2026-03-05T07:00:00Z", "on_track", 2),
+    ]);
+
+    expect(history).toEqual([
+      { date: "2026-03-02", status: "off_track", completions_in_window: 0, required_in_window: 3, previous_status: null, changed_at: null },
+      {
+        date: "2026-03-04",
+        status: "on_track",
+        completions_in_window: 2,
+        required_in_window: 3,
+        previous_status: "off_track",
+        changed_at: "2026-03-04T09:00:00Z",
+      },
+      { date: "2026-03-05", status: "on_track", completions_in_window: 2, required_in_window: 3, previous_status: null, changed_at: null },
+    ]);
+  });
+
+  it("groups by the user's local day and accepts unsorted input", () => {
+    const history = buildStatusHistory([
+      evaluation("2026-03-02T14:00:00Z", "completed", 3),
+      evaluation("2026-03-02T10:00:00Z", "at_risk", 2),
+    ], "Australia/Sydney");
+
+    expect(history.map(d => [d.date, d.status])).toEqual([
+      ["2026-03-02", "at_risk"],
+      ["2026-03-03", "completed"],
+    ]);
+    expect(history[1].previous_status).toBe("at_risk");
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, it, expect } from "vitest";
+import {
+  collectImpactsOverRange,
+  dedupeImpacts,
+  type DecisionImpact,
+  type GoalRule,
+} from "@shared/goal-engine";
+import { event } from "./goal-engine-fixtures";
+
+const trainingToProtein: GoalRule = {
+  id: "seq",
+  name: "Protein after training",
+  description: null,
+  rule_type: "sequence",
+  rule_config: { events: [{ name: "training_session" }, { name: "protein_bolus" }], min_hours: 0, max_hours: 2 },
+  rolling_window_days: 7,
+  required_completions: 1,
+  is_active: true,
+};
+
+describe("dedupeImpacts", () => {
+  it("keeps one impact per event, rule and type", () => {
+    const impact = (details: Record<string, unknown>): DecisionImpact =>
+      ({ event_id: "e1", goal_rule_id: "r1", impact_type: "window_created", impact_details: details });
+
+    expect(dedupeImpacts([impact({ n: 1 }), impact({ n: 2 }), { ...impact({}), impact_type: "window_expired" }]))
+      .toEqual([impact({ n: 2 }), { ...impact({}), impact_type: "window_expired" }]);
+  });
+});
+
+describe("collectImpactsOverRange", () => {
+  it("records both the opened and the later expired window", () => {
+    const events = [
+      event("old", "training_session", "2026-02-20T08:00:00Z"),
+      event("a", "training_session", "2026-03-02T08:00:00Z"),
+      event("b", "training_session", "2026-03-03T08:00:00Z"),
+      event("c", "protein_bolus", "2026-03-03T09:00:00Z"),
+    ];
+    const impacts = collectImpactsOverRange(
+      [trainingToProtein],
+      events,
+      new Date("2026-03-01T09:00:00Z"),
+      new Date("2026-03-05T00:00:00Z")
+    );
+
+    expect(impacts.map(i => `${i.event_id}:${i.impact_type}`).sort()).toEqual([
+      "a:window_created",
+      "a:window_expired",
+      "b:window_created",
+      "c:window_completed",
+    ]);
+  });
+
+  it("records a window shorter than a day that opens and completes between midnights", () => {
+    const events = [
+      event("t", "training_session", "2026-03-03T08:00:00Z"),
+      event("p", "protein_bolus", "2026-03-03T09:30:00Z"),
+    ];
+    const impacts = collectImpactsOverRange(
+      [trainingToProtein],
+      events,
+      new Date("2026-03-03T00:00:00Z"),
+      new Date("2026-03-04T00:00:00Z")
+    );
+
+    expect(impacts.map(i => `${i.event_id}:${i.impact_type}`).sort()).toEqual([
+      "p:window_completed",
+      "t:window_created",
+    ]);
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, it, expect } from "vitest";
+import {
+  evaluateGoals,
+  getAffectedRuleIds,
+  hasEvaluationChanged,
+  type GoalRule,
+  type NormalizedEvent,
+} from "@shared/goal-engine";
+import { rule } from "./goal-engine-fixtures";
+
+const seq = rule({
+  id: "seq",
+  rule_type: "sequence",
+  rule_config: { events: [{ name: "training_session" }, { name: "protein_bolus" }], min_hours: 0, max_hours: 2 },
+});
+const sauna = rule({
+  id: "sauna",
+  rule_type: "count",
+  rule_config: { event_pattern: { name: "sauna_session", type: "recovery" }, required_count: 3, rolling_days: 7 },
+});
+const gate = rule({
+  id: "gate",
+  rule_type: "gate",
+  rule_config: { condition: { event_name: "fasting_state", max_hours_ago: 4 }, gated_rule_id: "sauna" },
+});
+const both = rule({
+  id: "both",
+  rule_type: "compound",
+  rule_config: { operator: "AND", child_rule_ids: ["seq", "gate"] },
+});
+const protein = rule({
+  id: "protein",
+  rule_type: "aggregate",
+  rule_config: { trackable: "Protein", aggregation: "sum", operator: "gte", threshold: 160, required_days: 6 },
+});
+const rules = [seq, sauna, gate, both, protein];
+
+describe("getAffectedRuleIds", () => {
+  it("finds rules matching the event and everything that depends on them", () => {
+    expect([...getAffectedRuleIds({ event_name: "Protein_Bolus", event_type: "meal" }, rules)].sort())
+      .toEqual(["both", "seq"]);
+    expect([...getAffectedRuleIds({ event_name: "sauna_session", event_type: "recovery" }, rules)].sort())
+      .toEqual(["both", "gate", "sauna"]);
+    expect([...getAffectedRuleIds({ event_name: "fasting_state", event_type: "state" }, rules)].sort())
+      .toEqual(["both", "gate"]);
+  });
+
+  it("respects event types and ignores unrelated events", () => {
+    expect(getAffectedRuleIds({ event_name: "sauna_session", event_type: "meal" }, rules).size).toBe(0);
+    expect(getAffectedRuleIds({ event_name: "walk", event_type: "activity" }, rules).size).toBe(0);
+  });
+});
+
+describe("evaluateGoals with a rule subset", () => {
+  it("only evaluates the requested rules", () => {
+    const event: NormalizedEvent = {
+      id: "e1",
+      event_type: "meal",
+      event_name: "protein_bolus",
+      occurred_at: "2026-03-10T10:00:00Z",
+      magnitude: null,
+      confidence: 1,
+      metadata: {},
+      source_type: "manual",
+      source_id: null,
+    };
+    const { evaluations } = evaluateGoals(rules, [event], new Date("2026-03-10T12:00:00Z"), {}, getAffectedRuleIds(event, rules));
+    expect(evaluations.map(e => e.goal_rule_id)).toEqual(["seq", "both"]);
+  });
+});
+
+describe("hasEvaluationChanged", () => {
+  const stored = { status: "on_track" as const, completions_in_window: 2, required_in_window: 3, pending_windows: [] };
+
+  it("ignores evaluations that match the stored one", () => {
+    expect(hasEvaluationChanged(stored, { ...stored })).toBe(false);
+  });
+
+  it("detects status, count and open window changes", () => {
+    expect(hasEvaluationChanged(null, stored)).toBe(true);
+    expect(hasEvaluationChanged(stored, { ...stored, status: "at_risk" })).toBe(true);
+    expect(hasEvaluationChanged(stored, { ...stored, completions_in_window: 3 })).toBe(true);
+    expect(hasEvaluationChanged(stored, {
+      ...stored,
+      pending_windows: [{
+        event_a_id: "e1",
+        event_a_name: "training_session",
+        event_a_time: "2026-03-10T10:00:00Z",
+        window_start: "2026-03-10T10:00:00Z",
+        window_end: "2026-03-10T12:00:00Z",
+      }],
+    })).toBe(true);
+  });
+});
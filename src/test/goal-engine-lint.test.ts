@@ -0,0 +1,123 @@
+import { describe, it, expect } from "vitest";
+import {
+  evaluateGoals,
+  getLintEventNames,
+  lintRules,
+  validateRuleConfig,
+  type GoalRule,
+} from "@shared/goal-engine";
+import { rule } from "./goal-engine-fixtures";
+
+const sauna = rule({
+  id: "sauna",
+  rule_type: "count",
+  rule_config: { event_pattern: { name: "sauna_session" }, required_count: 3, rolling_days: 7 },
+});
+
+describe("validateRuleConfig", () => {
+  it("accepts well-formed rules", () => {
+    expect(validateRuleConfig(sauna)).toEqual([]);
+    expect(validateRuleConfig(rule({
+      id: "seq",
+      rule_type: "sequence",
+      rule_config: { events: [{ name: "a" }, { name: "b", max_hours: 4 }], min_hours: 0, max_hours: 2 },
+    }))).toEqual([]);
+  });
+
+  it("reports each problem with its path", () => {
+    const errors = validateRuleConfig(rule({
+      id: "seq",
+      rule_type: "sequence",
+      rule_config: { events: [{ name: "" }], min_hours: 3, max_hours: 2 } as never,
+    }));
+    expect(errors).toEqual([
+      "rule_config.max_hours: min_hours is greater than max_hours",
+      "rule_config.events: a sequence needs at least 2 events",
+      "rule_config.events.0.name: must be a non-empty string",
+      "rule_config.events.0: min_hours is greater than max_hours",
+    ]);
+  });
+
+  it("checks the config for the rule's type", () => {
+    expect(validateRuleConfig(rule({ id: "x", rule_type: "gate", rule_config: { operator: "AND", child_rule_ids: [] } as never })))
+      .toEqual(["rule_config.gated_rule_id: must be a non-empty string", "rule_config.condition: must be an object"]);
+    expect(validateRuleConfig(rule({ id: "x", rule_type: "avoidance", rule_config: { anchor: { name: "sleep" }, avoid: { name: "coffee" }, direction: "during", hours: 8 } as never })))
+      .toEqual(["rule_config.direction: must be one of before, after"]);
+    expect(validateRuleConfig(rule({ id: "x", rule_type: "streak" as never, rule_config: {} as never })))
+      .toEqual(["rule_type: must be one of sequence, count, gate, compound, avoidance, aggregate"]);
+  });
+
+  it("keeps malformed rules out of evaluation", () => {
+    const broken = rule({ id: "broken", rule_type: "count", rule_config: { required_count: 2 } as never });
+    const { evaluations, validation_errors } = evaluateGoals([broken, sauna], [], new Date("2026-03-10T12:00:00Z"));
+    expect(validation_errors).toEqual([{ rule_id: "broken", message: "rule_config.event_pattern: must be an event pattern object" }]);
+    expect(evaluations.find(e => e.goal_rule_id === "broken")?.status).toBe("off_track");
+    expect(evaluations.find(e => e.goal_rule_id === "sauna")?.last_fail_reason).toBeNull();
+  });
+});
+
+describe("lintRules", () => {
+  it("reports dangling references and cycles as errors", () => {
+    const gate = rule({
+      id: "gate",
+      rule_type: "gate",
+      rule_config: { condition: { event_name: "fasting_state" }, gated_rule_id: "gone" },
+    });
+    const a = rule({ id: "a", rule_type: "compound", rule_config: { operator: "AND", child_rule_ids: ["b", "sauna"] } });
+    const b = rule({ id: "b", rule_type: "compound", rule_config: { operator: "OR", child_rule_ids: ["a"] } });
+    const lints = lintRules([gate, a, b, sauna]);
+    expect(lints).toEqual([
+      { rule_id: "gate", severity: "error", code: "dangling_reference", message: "References a rule that does not exist (gone)" },
+      { rule_id: "a", severity: "error", code: "dependency_cycle", message: "Dependency cycle: a → b → a" },
+      { rule_id: "b", severity: "error", code: "dependency_cycle", message: "Dependency cycle: b → a → b" },
+    ]);
+  });
+
+  it("warns about event names never recorded", () => {
+    const lints = lintRules([sauna], [sauna], ["SAUNA_SESSION"]);
+    expect(lints).toEqual([]);
+    expect(lintRules([sauna], [sauna], ["training_session"])).toEqual([
+      { rule_id: "sauna", severity: "warning", code: "unknown_event", message: 'No "sauna_session" events have been recorded' },
+    ]);
+  });
+
+  it("warns about windows and counts the rule's window cannot hold", () => {
+    const longSequence = rule({
+      id: "long",
+      rule_type: "sequence",
+      rule_config: { events: [{ name: "a" }, { name: "b" }, { name: "c" }], min_hours: 0, max_hours: 20 },
+      window_type: "calendar_day",
+    });
+    const impossibleSequence = rule({
+      ...longSequence,
+      id: "impossible",
+      rule_config: { events: [{ name: "a" }, { name: "b" }], min_hours: 30, max_hours: 40 },
+    });
+    const wideCount = rule({
+      ...sauna,
+      id: "wide",
+      rule_config: { event_pattern: { name: "sauna_session" }, required_count: 3, rolling_days: 14 },
+    });
+    const protein = rule({
+      id: "protein",
+      rule_type: "aggregate",
+      rule_config: { trackable: "Protein", aggregation: "sum", operator: "gte", threshold: 160, required_days: 8 },
+      window_type: "iso_week",
+    });
+
+    const codes = lintRules([longSequence, impossibleSequence, wideCount, protein])
+      .map(l => `${l.rule_id}:${l.code}`);
+    expect(codes).toEqual([
+      "long:window_too_long",
+      "impossible:unreachable_count",
+      "wide:window_too_long",
+      "protein:unreachable_count",
+    ]);
+  });
+
+  it("stops at config errors and skips malformed rules when collecting event names", () => {
+    const broken = rule({ id: "broken", rule_type: "avoidance", rule_config: { direction: "before", hours: 8 } as never });
+    expect(lintRules([broken], [broken], []).map(l => l.code)).toEqual(["invalid_config", "invalid_config"]);
+    expect(getLintEventNames([broken, sauna, { ...sauna, id: "again" }])).toEqual(["sauna_session"]);
+  });
+});
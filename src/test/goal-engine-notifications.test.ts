@@ -0,0 +1,90 @@
+import { describe, it, expect } from "vitest";
+import {
+  detectNotifications,
+  type GoalEvaluation,
+  type GoalRule,
+  type PendingWindow,
+} from "@shared/goal-engine";
+
+const protein: GoalRule = {
+  id: "seq",
+  name: "Protein after training",
+  description: null,
+  rule_type: "sequence",
+  rule_config: {
+    events: [{ name: "training_session" }, { name: "protein_bolus" }],
+    min_hours: 0,
+    max_hours: 2,
+  },
+  rolling_window_days: 7,
+  required_completions: 3,
+  is_active: true,
+};
+
+function evaluation(overrides: Partial<GoalEvaluation> = {}): GoalEvaluation {
+  return {
+    goal_rule_id: "seq",
+    status: "on_track",
+    completions_in_window: 1,
+    required_in_window: 3,
+    pending_windows: [],
+    last_success_at: null,
+    last_fail_at: null,
+    last_fail_reason: null,
+    confidence: 1,
+    details: {},
+    ...overrides,
+  };
+}
+
+function window(windowEnd: string, overrides: Partial<PendingWindow> = {}): PendingWindow {
+  return {
+    event_a_name: "training_session",
+    event_a_time: "2026-03-10T12:00:00Z",
+    window_start: "2026-03-10T12:00:00Z",
+    window_end: windowEnd,
+    event_a_id: "t1",
+    waiting_for: "protein_bolus",
+    step_index: 1,
+    ...overrides,
+  };
+}
+
+const now = new Date("2026-03-10T13:00:00Z");
+
+describe("detectNotifications", () => {
+  it("notifies when a goal turns at risk, once a day", () => {
+    const atRisk = evaluation({ status: "at_risk" });
+    const [notification] = detectNotifications([protein], new Map([["seq", { status: "on_track" as const }]]), [atRisk], now);
+    expect(notification).toMatchObject({
+      kind: "at_risk",
+      title: "Protein after training is at risk",
+      body: "1 of 3 done in this window",
+      dedupe_key: "at_risk:seq:2026-03-10",
+    });
+    expect(detectNotifications([protein], new Map([["seq", { status: "at_risk" as const }]]), [atRisk], now)).toEqual([]);
+  });
+
+  it("notifies about windows about to close, but not protected or distant ones", () => {
+    const pending = evaluation({
+      pending_windows: [
+        window("2026-03-10T14:00:00Z"),
+        window("2026-03-10T18:00:00Z", { event_a_id: "t2" }),
+        window("2026-03-10T14:30:00Z", { event_a_id: "t3", avoid: "alcohol" }),
+      ],
+    });
+    const notifications = detectNotifications([protein], new Map(), [pending], now);
+    expect(notifications.map(n => n.dedupe_key)).toEqual(["window_closing:seq:t1:1"]);
+    expect(notifications[0].body).toBe("Log protein bolus before the window after training session closes");
+    expect(notifications[0].details.window_end).toBe("2026-03-10T14:00:00Z");
+  });
+
+  it("raises nothing for paused goals", () => {
+    const paused = evaluation({
+      status: "at_risk",
+      pending_windows: [window("2026-03-10T14:00:00Z")],
+      details: { paused: { kind: "pause" } },
+    });
+    expect(detectNotifications([protein], new Map(), [paused], now)).toEqual([]);
+  });
+});
@@ -0,0 +1,115 @@
+import { describe, it, expect } from "vitest";
+import {
+  applyPauses,
+  computeStreak,
+  evaluateGoals,
+  findPause,
+  type CountConfig,
+  type GoalPause,
+  type GoalRule,
+} from "@shared/goal-engine";
+import { event } from "./goal-engine-fixtures";
+
+function pause(startsOn: string, endsOn: string, overrides: Partial<GoalPause> = {}): GoalPause {
+  return { goal_rule_id: null, kind: "pause", starts_on: startsOn, ends_on: endsOn, reason: null, ...overrides };
+}
+
+const sauna: GoalRule = {
+  id: "sauna",
+  name: "Sauna",
+  description: null,
+  rule_type: "count",
+  rule_config: { event_pattern: { name: "sauna_session" }, required_count: 3, rolling_days: 7 },
+  rolling_window_days: 7,
+  required_completions: 3,
+  is_active: true,
+};
+
+// Tuesday
+const now = new Date("2026-03-10T20:00:00Z");
+
+describe("applyPauses", () => {
+  it("stretches rolling windows back over paused days", () => {
+    const paused = applyPauses(sauna, [pause("2026-03-05", "2026-03-07")], now);
+    expect(paused.rolling_window_days).toBe(10);
+    expect((paused.rule_config as CountConfig).rolling_days).toBe(10);
+    expect(applyPauses(sauna, [pause("2026-02-01", "2026-02-03")], now)).toEqual(sauna);
+  });
+
+  it("scales required counts of calendar windows to the unpaused days", () => {
+    const weekly: GoalRule = { ...sauna, window_type: "iso_week" };
+    // Three of the seven days of the week of March 9th are excused
+    const paused = applyPauses(weekly, [pause("2026-03-13", "2026-03-15", { goal_rule_id: "sauna", kind: "excused" })], now);
+    expect(paused.required_completions).toBe(2);
+    expect((paused.rule_config as CountConfig).required_count).toBe(2);
+    // Pauses of other goals do not apply
+    expect(applyPauses(weekly, [pause("2026-03-13", "2026-03-15", { goal_rule_id: "other" })], now)).toEqual(weekly);
+  });
+});
+
+describe("evaluating paused goals", () => {
+  const events = [
+    event("a", "sauna_session", "2026-03-02T18:00:00Z"),
+    event("b", "sauna_session", "2026-03-03T18:00:00Z"),
+    event("c", "sauna_session", "2026-03-04T18:00:00Z"),
+  ];
+
+  it("counts completions from before the pause towards the window", () => {
+    const unpaused = evaluateGoals([sauna], events, now).evaluations[0];
+    expect(unpaused.completions_in_window).toBe(1);
+
+    const { evaluations } = evaluateGoals([sauna], events, now, { pauses: [pause("2026-03-05", "2026-03-08")] });
+    expect(evaluations[0]).toMatchObject({ status: "completed", completions_in_window: 3 });
+  });
+
+  it("leaves out events logged on paused days", () => {
+    const duringPause = [
+      event("d", "sauna_session", "2026-03-05T18:00:00Z"),
+      event("e", "sauna_session", "2026-03-06T18:00:00Z"),
+    ];
+    const onlyDuring = evaluateGoals([sauna], duringPause, now, { pauses: [pause("2026-03-05", "2026-03-08")] });
+    expect(onlyDuring.evaluations[0].completions_in_window).toBe(0);
+
+    // The stretched window holds a, b and c from before the pause; d and e add nothing
+    const all = evaluateGoals([{ ...sauna, rule_config: { ...(sauna.rule_config as CountConfig), required_count: 5 } }], [...events, ...duringPause], now, {
+      pauses: [pause("2026-03-05", "2026-03-08")],
+    });
+    expect(all.evaluations[0].completions_in_window).toBe(3);
+  });
+
+  it("leaves out events on excused days of a calendar window only for the excused goal", () => {
+    const weekly: GoalRule = { ...sauna, window_type: "iso_week" };
+    const excused = pause("2026-03-09", "2026-03-09", { goal_rule_id: "sauna", kind: "excused" });
+    const monday = [event("m", "sauna_session", "2026-03-09T18:00:00Z"), event("t", "sauna_session", "2026-03-10T08:00:00Z")];
+
+    expect(evaluateGoals([weekly], monday, now, { pauses: [excused] }).evaluations[0].completions_in_window).toBe(1);
+    expect(evaluateGoals([{ ...weekly, id: "other" }], monday, now, { pauses: [excused] }).evaluations[0].completions_in_window).toBe(2);
+  });
+
+  it("reports a goal paused today as on track with the pause", () => {
+    const vacation = pause("2026-03-09", "2026-03-20", { reason: "Travel" });
+    const [evaluation] = evaluateGoals([sauna], [], now, { pauses: [vacation] }).evaluations;
+    expect(evaluation.status).toBe("on_track");
+    expect(evaluation.last_fail_reason).toBeNull();
+    expect(evaluation.details.paused).toEqual(vacation);
+    expect(findPause("sauna", [vacation], "2026-03-21")).toBeNull();
+  });
+});
+
+describe("computeStreak with pauses", () => {
+  const daily = { rolling_window_days: 1, window_type: "calendar_day" as const };
+  const evaluations = [
+    { status: "completed" as const, evaluated_at: "2026-03-05T12:00:00Z", last_fail_reason: null },
+    { status: "completed" as const, evaluated_at: "2026-03-06T12:00:00Z", last_fail_reason: null },
+    { status: "off_track" as const, evaluated_at: "2026-03-07T12:00:00Z", last_fail_reason: "Sick" },
+    { status: "completed" as const, evaluated_at: "2026-03-08T12:00:00Z", last_fail_reason: null },
+    { status: "completed" as const, evaluated_at: "2026-03-09T12:00:00Z", last_fail_reason: null },
+  ];
+
+  it("skips excused days instead of breaking the streak", () => {
+    // Today carries yesterday's completion, so it extends either streak
+    expect(computeStreak(daily, evaluations, now)).toMatchObject({ current: 3, best: 3 });
+    expect(computeStreak(daily, evaluations, now, "UTC", [pause("2026-03-07", "2026-03-07", { kind: "excused" })]))
+      .toMatchObject({ current: 5, best: 5, broken: [] });
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, it, expect } from "vitest";
+import { planActions, type GoalRule } from "@shared/goal-engine";
+import { event, rule, now, HOUR } from "./goal-engine-fixtures";
+
+const trainingToProtein = rule({
+  id: "protein",
+  rule_type: "sequence",
+  rule_config: { events: [{ name: "training_session" }, { name: "protein_bolus" }], min_hours: 0, max_hours: 3 },
+});
+const ghToProtein = rule({
+  id: "gh",
+  rule_type: "sequence",
+  rule_config: { events: [{ name: "GH_stimulus" }, { name: "protein_bolus" }], min_hours: 0, max_hours: 4 },
+});
+const noMealAfterGh = rule({
+  id: "fast",
+  rule_type: "avoidance",
+  rule_config: { anchor: { name: "GH_stimulus" }, avoid: { name: "protein_bolus" }, direction: "after", hours: 2 },
+});
+
+describe("planActions", () => {
+  it("returns the window in which the next step completes the goal", () => {
+    const [plan] = planActions([trainingToProtein], [event("t", "training_session", 1)], now);
+
+    expect(plan).toMatchObject({ rule_id: "protein", event_a_id: "t", event_name: "protein_bolus", completes: ["protein"] });
+    expect(plan.earliest).toBe(now.toISOString());
+    expect(plan.latest).toBe(new Date(now.getTime() + 2 * HOUR).toISOString());
+  });
+
+  it("finds the timing that satisfies several goals without breaking an avoidance rule", () => {
+    const plans = planActions(
+      [trainingToProtein, ghToProtein, noMealAfterGh],
+      [event("t", "training_session", 1), event("g", "GH_stimulus", 1)],
+      now
+    );
+    const plan = plans.find(p => p.rule_id === "protein")!;
+
+    // Before 13:00 the protein breaks the fast; from then until the training window closes it completes both
+    expect(plan.segments[0]).toMatchObject({ completes: ["protein", "gh"], at_risk: ["fast"] });
+    expect(plan).toMatchObject({ completes: ["protein", "gh"], at_risk: [] });
+    expect(plan.earliest).toBe(new Date(now.getTime() + 1.25 * HOUR).toISOString());
+    expect(plan.latest).toBe(new Date(now.getTime() + 2 * HOUR).toISOString());
+  });
+
+  it("plans a window shared by a compound and its sequence once, from the sequence", () => {
+    const shake = rule({
+      id: "shake",
+      rule_type: "sequence",
+      rule_config: { events: [{ name: "training_session" }, { name: "protein_bolus", type: "shake", min_magnitude: 30 }], min_hours: 0, max_hours: 3 },
+    });
+    const both = rule({ id: "both", rule_type: "compound", rule_config: { operator: "AND", child_rule_ids: ["shake"] } });
+    const plans = planActions([both, shake], [event("t", "training_session", 1)], now);
+
+    expect(plans).toHaveLength(1);
+    expect(plans[0]).toMatchObject({ rule_id: "shake", event_name: "protein_bolus", completes: ["both", "shake"] });
+  });
+
+  it("plans a compound's window when its sequence is not active on its own", () => {
+    const both = rule({ id: "both", rule_type: "compound", rule_config: { operator: "OR", child_rule_ids: ["protein"] } });
+    const plans = planActions([both, { ...trainingToProtein, is_active: false }], [event("t", "training_session", 1)], now);
+
+    expect(plans).toHaveLength(1);
+    expect(plans[0]).toMatchObject({ rule_id: "both", event_name: "protein_bolus", completes: ["both"] });
+  });
+
+  it("skips protected windows", () => {
+    expect(planActions([noMealAfterGh], [event("g", "GH_stimulus", 1)], now)).toEqual([]);
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, it, expect } from "vitest";
+import {
+  evaluateRule,
+  formatEventFilters,
+  matchesEventPattern,
+  parseEventFilters,
+  type GoalRule,
+  type NormalizedEvent,
+} from "@shared/goal-engine";
+
+function event(overrides: Partial<NormalizedEvent> = {}): NormalizedEvent {
+  return {
+    id: "e1",
+    event_type: "training_session",
+    event_name: "training_session",
+    occurred_at: "2026-03-10T10:00:00Z",
+    magnitude: 6,
+    confidence: 0.9,
+    metadata: { intensity: "Heavy", protein_g: 45, macros: { carbs_g: 80 } },
+    source_type: "derived",
+    source_id: null,
+    ...overrides,
+  };
+}
+
+describe("matchesEventPattern", () => {
+  it("matches on name and type alone", () => {
+    expect(matchesEventPattern(event(), { name: "training_session" })).toBe(true);
+    expect(matchesEventPattern(event(), { name: "training_session", type: "meal" })).toBe(false);
+  });
+
+  it("filters on magnitude range and minimum confidence", () => {
+    expect(matchesEventPattern(event(), { name: "training_session", min_magnitude: 5, max_magnitude: 8 })).toBe(true);
+    expect(matchesEventPattern(event(), { name: "training_session", min_magnitude: 7 })).toBe(false);
+    expect(matchesEventPattern(event({ magnitude: null }), { name: "training_session", min_magnitude: 1 })).toBe(false);
+    expect(matchesEventPattern(event(), { name: "training_session", min_confidence: 0.95 })).toBe(false);
+  });
+
+  it("filters on metadata fields", () => {
+    const heavy = { name: "training_session", metadata: [{ key: "intensity", op: "eq" as const, value: "heavy" }] };
+    expect(matchesEventPattern(event(), heavy)).toBe(true);
+    expect(matchesEventPattern(event({ metadata: { intensity: "light" } }), heavy)).toBe(false);
+    expect(matchesEventPattern(event({ metadata: {} }), heavy)).toBe(false);
+
+    expect(matchesEventPattern(event(), {
+      name: "training_session",
+      metadata: [
+        { key: "protein_g", op: "gte", value: 40 },
+        { key: "macros.carbs_g", op: "lt", value: 100 },
+      ],
+    })).toBe(true);
+  });
+});
+
+describe("event filter text", () => {
+  it("round-trips through parse and format", () => {
+    const text = "magnitude >= 5, confidence >= 0.8, intensity = heavy, protein_g >= 40";
+    const { filters, error } = parseEventFilters(text);
+
+    expect(error).toBeNull();
+    expect(filters).toEqual({
+      min_magnitude: 5,
+      min_confidence: 0.8,
+      metadata: [
+        { key: "intensity", op: "eq", value: "heavy" },
+        { key: "protein_g", op: "gte", value: 40 },
+      ],
+    });
+    expect(formatEventFilters({ name: "x", ...filters })).toBe(text);
+  });
+
+  it("reports clauses it cannot parse", () => {
+    expect(parseEventFilters("intensity heavy").error).toMatch(/Cannot parse filter "intensity heavy"/);
+    expect(parseEventFilters("confidence <= 0.5").error).toBe("confidence supports >= only");
+  });
+});
+
+describe("rules with filtered patterns", () => {
+  it("does not count a light walk toward a heavy training goal", () => {
+    const rule: GoalRule = {
+      id: "heavy",
+      name: "Heavy training",
+      description: null,
+      rule_type: "count",
+      rule_config: {
+        event_pattern: { name: "training_session", metadata: [{ key: "intensity", op: "eq", value: "heavy" }] },
+        required_count: 2,
+        rolling_days: 7,
+      },
+      rolling_window_days: 7,
+      required_completions: 2,
+      is_active: true,
+    };
+    const events = [
+      event({ id: "a" }),
+      event({ id: "b", metadata: { intensity: "light" } }),
+    ];
+
+    const { evaluation } = evaluateRule(rule, new Map([[rule.id, rule]]), events, new Date("2026-03-11T00:00:00Z"));
+    expect(evaluation.completions_in_window).toBe(1);
+  });
+});
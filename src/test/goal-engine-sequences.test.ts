@@ -0,0 +1,158 @@
+import { describe, it, expect } from "vitest";
+import { evaluateSequenceRule, type NormalizedEvent } from "@shared/goal-engine";
+import { event, rule, now, HOUR } from "./goal-engine-fixtures";
+
+// Protein within 2h of training, then sleep 2-10h after the protein
+const chain = rule({
+  id: "chain",
+  rule_type: "sequence",
+  rule_config: {
+    events: [
+      { name: "training_session" },
+      { name: "protein_bolus" },
+      { name: "sleep_episode", min_hours: 2, max_hours: 10 },
+    ],
+    min_hours: 0,
+    max_hours: 2,
+  },
+});
+
+const hoursAgo = (hours: number) => new Date(now.getTime() - hours * HOUR).toISOString();
+
+function evaluateChain(events: NormalizedEvent[]) {
+  return evaluateSequenceRule(chain, events, now);
+}
+
+describe("three-step sequences", () => {
+  it("completes a chain and reports it on the last event", () => {
+    const { evaluation, impacts } = evaluateChain([
+      event("t1", "training_session", 12),
+      event("p1", "protein_bolus", 11),
+      event("s1", "sleep_episode", 5),
+    ]);
+
+    expect(evaluation).toMatchObject({ status: "completed", completions_in_window: 1, last_success_at: hoursAgo(5) });
+    expect(impacts).toEqual([
+      expect.objectContaining({
+        event_id: "s1",
+        impact_type: "window_completed",
+        impact_details: {
+          triggered_by: "t1",
+          sequence: ["training_session", "protein_bolus", "sleep_episode"],
+          chain: ["t1", "p1", "s1"],
+          window_hours: "0..2, 2..10",
+        },
+      }),
+    ]);
+  });
+
+  it.each([
+    [1, "off_track"],   // inside the rule's 0-2h gap but before the step's own 2h minimum
+    [2, "completed"],
+    [8, "completed"],   // past the rule's 2h maximum but inside the step's 10h
+    [10.5, "off_track"],
+  ])("with sleep %sh after the protein is %s", (gapHours, status) => {
+    const { evaluation } = evaluateChain([
+      event("t1", "training_session", 13),
+      event("p1", "protein_bolus", 12),
+      event("s1", "sleep_episode", 12 - gapHours),
+    ]);
+    expect(evaluation.status).toBe(status);
+  });
+
+  it("falls back to the rule's gap for steps without their own", () => {
+    const { evaluation } = evaluateChain([
+      event("t1", "training_session", 15),
+      event("p1", "protein_bolus", 12),
+      event("s1", "sleep_episode", 8),
+    ]);
+    expect(evaluation.last_fail_reason).toBe("protein_bolus did not occur within 0-2h after training_session");
+  });
+});
+
+describe("pending sequence windows", () => {
+  it("waits for the last step once the first two are in", () => {
+    const { evaluation, impacts } = evaluateChain([
+      event("t1", "training_session", 4),
+      event("p1", "protein_bolus", 3),
+    ]);
+
+    expect(evaluation.status).toBe("on_track");
+    expect(evaluation.pending_windows).toEqual([
+      {
+        event_a_name: "training_session",
+        event_a_time: hoursAgo(4),
+        event_a_id: "t1",
+        window_start: hoursAgo(1),
+        window_end: new Date(now.getTime() + 7 * HOUR).toISOString(),
+        waiting_for: "sleep_episode",
+        step_index: 2,
+        total_steps: 3,
+        completed_steps: [
+          { name: "training_session", event_id: "t1", occurred_at: hoursAgo(4) },
+          { name: "protein_bolus", event_id: "p1", occurred_at: hoursAgo(3) },
+        ],
+      },
+    ]);
+    expect(impacts).toEqual([
+      expect.objectContaining({
+        event_id: "p1",
+        impact_type: "window_created",
+        impact_details: { waiting_for: "sleep_episode", step_index: 2, window_end: evaluation.pending_windows[0].window_end },
+      }),
+    ]);
+  });
+
+  it("waits for the middle step and is at risk when its window is about to close", () => {
+    const { evaluation } = evaluateChain([event("t1", "training_session", 1.5)]);
+
+    expect(evaluation.status).toBe("at_risk");
+    expect(evaluation.pending_windows[0]).toMatchObject({
+      waiting_for: "protein_bolus",
+      step_index: 1,
+      window_end: new Date(now.getTime() + 0.5 * HOUR).toISOString(),
+    });
+    expect(evaluation.pending_windows[0].completed_steps).toHaveLength(1);
+  });
+});
+
+describe("expired sequence steps", () => {
+  it("fails on an expired middle step even when the last step happened", () => {
+    const { evaluation, impacts } = evaluateChain([
+      event("t1", "training_session", 20),
+      event("p1", "protein_bolus", 17),
+      event("s1", "sleep_episode", 12),
+    ]);
+
+    expect(evaluation).toMatchObject({
+      status: "off_track",
+      completions_in_window: 0,
+      pending_windows: [],
+      last_fail_at: hoursAgo(18),
+      last_fail_reason: "protein_bolus did not occur within 0-2h after training_session",
+    });
+    expect(impacts).toEqual([
+      expect.objectContaining({
+        event_id: "t1",
+        impact_type: "window_expired",
+        impact_details: { expected: "protein_bolus", step_index: 1, window_end: hoursAgo(18) },
+      }),
+    ]);
+  });
+
+  it("leaves the events after an expired step free for a later chain", () => {
+    const { evaluation, impacts } = evaluateChain([
+      event("t1", "training_session", 20),
+      event("t2", "training_session", 18),
+      event("p1", "protein_bolus", 17),
+      event("s1", "sleep_episode", 12),
+    ]);
+
+    expect(evaluation.completions_in_window).toBe(1);
+    expect(impacts.map(i => [i.event_id, i.impact_type])).toEqual([
+      ["t1", "window_expired"],
+      ["s1", "window_completed"],
+    ]);
+    expect(impacts[1].impact_details.chain).toEqual(["t2", "p1", "s1"]);
+  });
+});
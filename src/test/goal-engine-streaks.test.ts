@@ -0,0 +1,89 @@
+import { describe, it, expect } from "vitest";
+import { computeStreak, type StreakEvaluation } from "@shared/goal-engine";
+
+// Tuesday
+const now = new Date("2026-03-10T12:00:00Z");
+
+function evaluation(date: string, status: StreakEvaluation["status"], reason: string | null = null): StreakEvaluation {
+  return { status, evaluated_at: `${date}T09:00:00Z`, last_fail_reason: reason };
+}
+
+describe("computeStreak", () => {
+  const daily = { rolling_window_days: 1 };
+  const weekly = { rolling_window_days: 7 };
+
+  it("counts consecutive completed days up to today", () => {
+    const streak = computeStreak(daily, [
+      evaluation("2026-03-07", "completed"),
+      evaluation("2026-03-08", "off_track"),
+      evaluation("2026-03-08", "completed"),
+      evaluation("2026-03-09", "completed"),
+      evaluation("2026-03-10", "completed"),
+    ], now);
+
+    expect(streak).toEqual({ unit: "day", current: 4, best: 4, broken: [] });
+  });
+
+  it("keeps the streak alive while today is still open", () => {
+    const streak = computeStreak(daily, [
+      evaluation("2026-03-09", "completed"),
+      evaluation("2026-03-10", "at_risk"),
+    ], now);
+    expect(streak.current).toBe(1);
+  });
+
+  it("records broken streaks with the last failure reason", () => {
+    const streak = computeStreak(daily, [
+      evaluation("2026-03-04", "completed"),
+      evaluation("2026-03-05", "completed"),
+      evaluation("2026-03-06", "at_risk", "first"),
+      evaluation("2026-03-06", "off_track", "protein_bolus did not occur within 0-2h after training_session"),
+      evaluation("2026-03-08", "completed"),
+    ], now);
+
+    expect(streak.current).toBe(3);
+    expect(streak.best).toBe(3);
+    expect(streak.broken).toEqual([
+      {
+        length: 2,
+        started_at: "2026-03-04",
+        broken_at: "2026-03-06",
+        reason: "protein_bolus did not occur within 0-2h after training_session",
+      },
+    ]);
+  });
+
+  it("carries the last status through days without evaluations", () => {
+    const streak = computeStreak(daily, [
+      evaluation("2026-03-05", "completed"),
+      evaluation("2026-03-06", "off_track", "No sauna_session"),
+    ], now);
+
+    expect(streak.current).toBe(0);
+    expect(streak.broken).toEqual([
+      { length: 1, started_at: "2026-03-05", broken_at: "2026-03-06", reason: "No sauna_session" },
+    ]);
+  });
+
+  it("uses ISO weeks for rules with a weekly window", () => {
+    const streak = computeStreak(weekly, [
+      evaluation("2026-02-25", "completed"),
+      evaluation("2026-03-08", "completed"),
+      evaluation("2026-03-09", "on_track"),
+    ], now);
+
+    expect(streak).toMatchObject({ unit: "week", current: 2, best: 2 });
+  });
+
+  it("splits days at the user's local midnight", () => {
+    const evaluations: StreakEvaluation[] = [
+      { status: "completed", evaluated_at: "2026-03-07T23:00:00Z", last_fail_reason: null },
+      // 23:30 on the 8th in Sydney, the same day as the completion above
+      { status: "off_track", evaluated_at: "2026-03-08T12:30:00Z", last_fail_reason: "late" },
+      { status: "completed", evaluated_at: "2026-03-09T03:00:00Z", last_fail_reason: null },
+    ];
+
+    expect(computeStreak(daily, evaluations, now, "Australia/Sydney")).toMatchObject({ current: 3, broken: [] });
+    expect(computeStreak(daily, evaluations, now, "UTC")).toMatchObject({ current: 2, best: 2 });
+  });
+});
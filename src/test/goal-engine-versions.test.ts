@@ -0,0 +1,118 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildVersionHistory,
+  diffRuleVersions,
+  evaluateGoals,
+  hasEvaluationChanged,
+  type GoalRule,
+  type NormalizedEvent,
+  type RuleVersion,
+} from "@shared/goal-engine";
+
+const trainingToProtein: GoalRule = {
+  id: "seq",
+  name: "Protein after training",
+  description: null,
+  rule_type: "sequence",
+  rule_config: {
+    events: [{ name: "training_session" }, { name: "protein_bolus" }],
+    min_hours: 0,
+    max_hours: 2,
+  },
+  rolling_window_days: 7,
+  required_completions: 3,
+  is_active: true,
+  version: 2,
+};
+
+function version(number: number, overrides: Partial<RuleVersion> = {}): RuleVersion {
+  return {
+    goal_rule_id: "seq",
+    version: number,
+    name: trainingToProtein.name,
+    description: null,
+    rule_type: trainingToProtein.rule_type,
+    rule_config: trainingToProtein.rule_config,
+    rolling_window_days: 7,
+    window_type: "rolling",
+    required_completions: 3,
+    confidence_policy: null,
+    created_at: `2026-03-0${number}T09:00:00Z`,
+    ...overrides,
+  };
+}
+
+describe("diffRuleVersions", () => {
+  it("reports changed fields and rule_config paths", () => {
+    const next: GoalRule = {
+      ...trainingToProtein,
+      rule_config: {
+        events: [{ name: "training_session" }, { name: "protein_bolus", max_hours: 1 }],
+        min_hours: 0,
+        max_hours: 3,
+      },
+      required_completions: 4,
+    };
+    expect(diffRuleVersions(trainingToProtein, next)).toEqual([
+      { path: "rule_config.events.1.max_hours", before: null, after: 1 },
+      { path: "rule_config.max_hours", before: 2, after: 3 },
+      { path: "required_completions", before: 3, after: 4 },
+    ]);
+  });
+
+  it("treats unset optional fields as their defaults and reports a new rule type whole", () => {
+    expect(diffRuleVersions(trainingToProtein, { ...trainingToProtein, window_type: "rolling", confidence_policy: null }))
+      .toEqual([]);
+
+    const count: GoalRule = {
+      ...trainingToProtein,
+      rule_type: "count",
+      rule_config: { event_pattern: { name: "training_session" }, required_count: 3, rolling_days: 7 },
+    };
+    expect(diffRuleVersions(trainingToProtein, count).map(c => c.path)).toEqual(["rule_type", "rule_config"]);
+  });
+});
+
+describe("buildVersionHistory", () => {
+  it("pairs each version with its changes, newest first", () => {
+    const history = buildVersionHistory([
+      version(2, { name: "Protein soon after training" }),
+      version(1),
+      version(3, { name: "Protein soon after training", rolling_window_days: 14 }),
+    ]);
+    expect(history.map(h => h.version.version)).toEqual([3, 2, 1]);
+    expect(history.map(h => h.changes.map(c => c.path))).toEqual([["rolling_window_days"], ["name"], []]);
+  });
+});
+
+describe("evaluation lineage", () => {
+  const events: NormalizedEvent[] = [
+    {
+      id: "t1",
+      event_type: "test",
+      event_name: "training_session",
+      occurred_at: "2026-03-09T08:00:00Z",
+      magnitude: null,
+      confidence: 1,
+      metadata: {},
+      source_type: "manual",
+      source_id: null,
+    },
+  ];
+  const now = new Date("2026-03-09T09:00:00Z");
+
+  it("records the rule version on evaluations and impacts", () => {
+    const { evaluations, impacts } = evaluateGoals([trainingToProtein], events, now);
+    expect(evaluations[0].rule_version).toBe(2);
+    expect(impacts.length).toBeGreaterThan(0);
+    expect(impacts.every(i => i.rule_version === 2)).toBe(true);
+  });
+
+  it("writes a new evaluation when only the version changed", () => {
+    const [previous] = evaluateGoals([{ ...trainingToProtein, version: 1 }], events, now).evaluations;
+    const [next] = evaluateGoals([trainingToProtein], events, now).evaluations;
+    expect(hasEvaluationChanged(previous, previous)).toBe(false);
+    expect(hasEvaluationChanged(previous, next)).toBe(true);
+    expect(hasEvaluationChanged({ ...previous, rule_version: undefined }, { ...previous, rule_version: null })).toBe(false);
+  });
+});
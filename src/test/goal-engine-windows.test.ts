@@ -0,0 +1,115 @@
+import { describe, it, expect } from "vitest";
+import {
+  evaluateRule,
+  getLocalDate,
+  getLocalMidnight,
+  getWindowDates,
+  getWindowStart,
+  type GoalRule,
+  type NormalizedEvent,
+} from "@shared/goal-engine";
+
+// Tuesday 23:00 in Sydney (UTC+11)
+const now = new Date("2026-03-10T12:00:00Z");
+
+describe("local dates", () => {
+  it("uses the user's time zone for the calendar date", () => {
+    expect(getLocalDate(new Date("2026-03-10T14:00:00Z"), "UTC")).toBe("2026-03-10");
+    expect(getLocalDate(new Date("2026-03-10T14:00:00Z"), "Australia/Sydney")).toBe("2026-03-11");
+    expect(getLocalDate(new Date("2026-03-10T03:00:00Z"), "America/New_York")).toBe("2026-03-09");
+  });
+
+  it("finds local midnight across DST changes", () => {
+    expect(getLocalMidnight("2026-03-10", "Australia/Sydney").toISOString()).toBe("2026-03-09T13:00:00.000Z");
+    // New York switches to EDT on 2026-03-08
+    expect(getLocalMidnight("2026-03-08", "America/New_York").toISOString()).toBe("2026-03-08T05:00:00.000Z");
+    expect(getLocalMidnight("2026-03-09", "America/New_York").toISOString()).toBe("2026-03-09T04:00:00.000Z");
+  });
+});
+
+describe("evaluation windows", () => {
+  const base = { rolling_window_days: 7 };
+
+  it("keeps rolling windows relative to now", () => {
+    expect(getWindowStart(base, now, "Australia/Sydney").toISOString()).toBe("2026-03-03T12:00:00.000Z");
+  });
+
+  it("aligns calendar windows to local midnight", () => {
+    const tz = "Australia/Sydney";
+    expect(getWindowStart({ ...base, window_type: "calendar_day" }, now, tz).toISOString()).toBe("2026-03-09T13:00:00.000Z");
+    expect(getWindowStart({ ...base, window_type: "iso_week" }, now, tz).toISOString()).toBe("2026-03-08T13:00:00.000Z");
+    expect(getWindowStart({ ...base, window_type: "calendar_month" }, now, tz).toISOString()).toBe("2026-02-28T13:00:00.000Z");
+  });
+
+  it("lists every date of the current calendar period", () => {
+    expect(getWindowDates({ ...base, window_type: "iso_week" }, now)).toEqual([
+      "2026-03-09", "2026-03-10", "2026-03-11", "2026-03-12", "2026-03-13", "2026-03-14", "2026-03-15",
+    ]);
+    expect(getWindowDates({ ...base, window_type: "calendar_month" }, now)).toHaveLength(31);
+    expect(getWindowDates({ rolling_window_days: 3 }, now)).toEqual(["2026-03-08", "2026-03-09", "2026-03-10"]);
+  });
+});
+
+describe("calendar-aligned rules", () => {
+  const sauna: GoalRule = {
+    id: "sauna",
+    name: "Sauna this week",
+    description: null,
+    rule_type: "count",
+    rule_config: { event_pattern: { name: "sauna_session" }, required_count: 2, rolling_days: 7 },
+    rolling_window_days: 7,
+    window_type: "iso_week",
+    required_completions: 2,
+    is_active: true,
+  };
+
+  function sessionAt(occurredAt: string): NormalizedEvent {
+    return {
+      id: occurredAt,
+      event_type: "recovery",
+      event_name: "sauna_session",
+      occurred_at: occurredAt,
+      magnitude: null,
+      confidence: 1,
+      metadata: {},
+      source_type: "manual",
+      source_id: null,
+    };
+  }
+
+  it("only counts events since the start of the local week", () => {
+    const events = [
+      sessionAt("2026-03-08T12:00:00Z"),  // Sunday in UTC, Sunday 23:00 in Sydney
+      sessionAt("2026-03-08T14:00:00Z"),  // Monday 01:00 in Sydney
+      sessionAt("2026-03-10T01:00:00Z"),
+    ];
+    const byId = new Map([[sauna.id, sauna]]);
+
+    expect(evaluateRule(sauna, byId, events, now, new Map(), { timeZone: "UTC" }).evaluation.completions_in_window).toBe(1);
+    expect(evaluateRule(sauna, byId, events, now, new Map(), { timeZone: "Australia/Sydney" }).evaluation.completions_in_window).toBe(2);
+  });
+
+  it("groups daily totals by local day", () => {
+    const protein: GoalRule = {
+      id: "protein",
+      name: "Protein",
+      description: null,
+      rule_type: "aggregate",
+      rule_config: { trackable: "Protein", aggregation: "sum", operator: "gte", threshold: 100, required_days: 1 },
+      rolling_window_days: 1,
+      window_type: "calendar_day",
+      required_completions: 1,
+      is_active: true,
+    };
+    const value = (id: string, loggedAt: string) =>
+      ({ id, trackable_id: "t1", trackable_name: "Protein", value: 60, logged_at: loggedAt });
+    const trackableValues = [value("a", "2026-03-09T14:00:00Z"), value("b", "2026-03-10T08:00:00Z")];
+
+    const { evaluation } = evaluateRule(protein, new Map(), [], now, new Map(), {
+      trackableValues,
+      timeZone: "Australia/Sydney",
+    });
+    expect(evaluation.status).toBe("completed");
+    expect(evaluation.details!.days).toEqual([{ date: "2026-03-10", value: 120, met: true }]);
+  });
+});
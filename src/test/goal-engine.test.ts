@@ -0,0 +1,365 @@
+import { describe, it, expect } from "vitest";
+import {
+  evaluateGoals,
+  evaluateRule,
+  evaluateRules,
+  orderRulesByDependencies,
+  type AggregateDay,
+  type GoalRule,
+  type NormalizedEvent,
+  type TrackableValue,
+} from "@shared/goal-engine";
+import { event as eventAt, now, rule, HOUR } from "./goal-engine-fixtures";
+
+let nextId = 0;
+// An event `hoursAgo` before now, with an id of its own
+function event(name: string, hoursAgo: number, overrides: Partial<NormalizedEvent> = {}): NormalizedEvent {
+  nextId++;
+  return eventAt(`e${nextId}`, name, hoursAgo, overrides);
+}
+
+const trainingToProtein = rule({
+  id: "seq",
+  rule_type: "sequence",
+  rule_config: {
+    events: [{ name: "training_session" }, { name: "protein_bolus" }],
+    min_hours: 0,
+    max_hours: 2,
+  },
+});
+
+function evaluate(r: GoalRule, events: NormalizedEvent[], others: GoalRule[] = []) {
+  return evaluateRule(r, new Map([r, ...others].map(x => [x.id, x])), events, now);
+}
+
+describe("sequence rules", () => {
+  it("completes when B follows A inside the window", () => {
+    const a = event("training_session", 5);
+    const b = event("protein_bolus", 4);
+    const { evaluation, impacts } = evaluate(trainingToProtein, [a, b]);
+
+    expect(evaluation.status).toBe("completed");
+    expect(evaluation.completions_in_window).toBe(1);
+    expect(impacts).toEqual([
+      expect.objectContaining({ event_id: b.id, impact_type: "window_completed" }),
+    ]);
+  });
+
+  it("matches event names case-insensitively", () => {
+    const { evaluation } = evaluate(trainingToProtein, [
+      event("Training_Session", 5),
+      event("PROTEIN_BOLUS", 4),
+    ]);
+    expect(evaluation.status).toBe("completed");
+  });
+
+  it("reports an open window while waiting for B", () => {
+    const a = event("training_session", 1.5);
+    const { evaluation, impacts } = evaluate(trainingToProtein, [a]);
+
+    expect(evaluation.status).toBe("at_risk");
+    expect(evaluation.pending_windows).toHaveLength(1);
+    expect(evaluation.pending_windows![0]).toMatchObject({ event_a_id: a.id, waiting_for: "protein_bolus", step_index: 1 });
+    expect(impacts[0].impact_type).toBe("window_created");
+  });
+
+  it("expires the window when B never arrives", () => {
+    const { evaluation, impacts } = evaluate(trainingToProtein, [event("training_session", 10)]);
+
+    expect(evaluation.status).toBe("off_track");
+    expect(evaluation.last_fail_reason).toBe("protein_bolus did not occur within 0-2h after training_session");
+    expect(impacts[0].impact_type).toBe("window_expired");
+  });
+
+  it("does not reuse a B event for two A events", () => {
+    const { evaluation } = evaluate(trainingToProtein, [
+      event("training_session", 6),
+      event("training_session", 5.5),
+      event("protein_bolus", 5),
+    ]);
+    expect(evaluation.completions_in_window).toBe(1);
+  });
+
+  it("rejects sequences with fewer than two events", () => {
+    const { evaluation } = evaluate(
+      rule({ id: "bad", rule_type: "sequence", rule_config: { events: [{ name: "a" }], min_hours: 0, max_hours: 1 } }),
+      []
+    );
+    expect(evaluation.last_fail_reason).toBe("Sequence requires at least 2 events");
+  });
+
+  describe("multi-step chains", () => {
+    const chain = rule({
+      id: "chain",
+      rule_type: "sequence",
+      rule_config: {
+        events: [
+          { name: "training_session" },
+          { name: "protein_bolus" },
+          { name: "sleep_episode", min_hours: 2, max_hours: 10 },
+        ],
+        min_hours: 0,
+        max_hours: 2,
+      },
+    });
+
+    it("completes when every step falls inside its own gap", () => {
+      const { evaluation, impacts } = evaluate(chain, [
+        event("training_session", 12),
+        event("protein_bolus", 11),
+        event("sleep_episode", 5),
+      ]);
+      expect(evaluation.status).toBe("completed");
+      expect(impacts[0].impact_details.chain).toHaveLength(3);
+    });
+
+    it("reports the step a partial chain is waiting on", () => {
+      const { evaluation } = evaluate(chain, [
+        event("training_session", 4),
+        event("protein_bolus", 3),
+      ]);
+      expect(evaluation.status).toBe("on_track");
+      expect(evaluation.pending_windows![0]).toMatchObject({
+        waiting_for: "sleep_episode",
+        step_index: 2,
+        total_steps: 3,
+      });
+      expect(evaluation.pending_windows![0].completed_steps).toHaveLength(2);
+    });
+
+    it("fails on the step whose gap was missed", () => {
+      const { evaluation } = evaluate(chain, [
+        event("training_session", 20),
+        event("protein_bolus", 19),
+        event("sleep_episode", 18.5),
+      ]);
+      expect(evaluation.status).toBe("off_track");
+      expect(evaluation.last_fail_reason).toBe("sleep_episode did not occur within 2-10h after protein_bolus");
+    });
+  });
+});
+
+describe("count rules", () => {
+  const sauna = rule({
+    id: "sauna",
+    rule_type: "count",
+    rule_config: { event_pattern: { name: "sauna_session" }, required_count: 3, rolling_days: 7 },
+  });
+
+  it.each([
+    [3, "completed"],
+    [2, "at_risk"],
+    [0, "off_track"],
+  ])("with %i events is %s", (count, status) => {
+    const events = Array.from({ length: count }, (_, i) => event("sauna_session", 24 * (i + 1)));
+    expect(evaluate(sauna, events).evaluation.status).toBe(status);
+  });
+
+  it("ignores events outside the rolling window", () => {
+    const { evaluation } = evaluate(sauna, [event("sauna_session", 24 * 8)]);
+    expect(evaluation.completions_in_window).toBe(0);
+  });
+});
+
+describe("avoidance rules", () => {
+  const noCaffeineBeforeSleep = rule({
+    id: "caffeine",
+    rule_type: "avoidance",
+    rule_config: {
+      anchor: { name: "sleep_episode" },
+      avoid: { name: "caffeine_dose" },
+      direction: "before",
+      hours: 8,
+    },
+  });
+  const noMealAfterGh = rule({
+    id: "meal",
+    rule_type: "avoidance",
+    rule_config: {
+      anchor: { name: "GH_stimulus" },
+      avoid: { name: "meal" },
+      direction: "after",
+      hours: 3,
+    },
+  });
+
+  it("records a violation with a clear reason", () => {
+    const coffee = event("caffeine_dose", 30);
+    const { evaluation, impacts } = evaluate(noCaffeineBeforeSleep, [coffee, event("sleep_episode", 25)]);
+
+    expect(evaluation.status).toBe("off_track");
+    expect(evaluation.last_fail_reason).toBe("caffeine_dose occurred 5.0h before sleep_episode (must be at least 8h)");
+    expect(impacts).toContainEqual(expect.objectContaining({ event_id: coffee.id, impact_type: "avoidance_violated" }));
+  });
+
+  it("counts clean anchors as completions", () => {
+    const { evaluation } = evaluate(noCaffeineBeforeSleep, [event("caffeine_dose", 40), event("sleep_episode", 25)]);
+    expect(evaluation.status).toBe("completed");
+    expect(evaluation.completions_in_window).toBe(1);
+  });
+
+  it("reports a running protected window after the anchor", () => {
+    const gh = event("GH_stimulus", 1);
+    const { evaluation } = evaluate(noMealAfterGh, [gh]);
+
+    expect(evaluation.status).toBe("on_track");
+    expect(evaluation.pending_windows).toEqual([
+      expect.objectContaining({ event_a_id: gh.id, avoid: "meal" }),
+    ]);
+  });
+
+  it("warns before the anchor once the avoided event has happened", () => {
+    const coffee = event("caffeine_dose", 2);
+    const { evaluation } = evaluate(noCaffeineBeforeSleep, [coffee]);
+
+    expect(evaluation.pending_windows).toEqual([
+      expect.objectContaining({ event_a_id: coffee.id, avoid: "sleep_episode" }),
+    ]);
+    expect(new Date(evaluation.pending_windows![0].window_end).getTime()).toBe(now.getTime() + 6 * HOUR);
+  });
+});
+
+describe("gate rules", () => {
+  const gh = rule({
+    id: "gh",
+    rule_type: "count",
+    rule_config: { event_pattern: { name: "GH_stimulus" }, required_count: 1, rolling_days: 7 },
+    is_active: false,
+  });
+  const fastedGh = rule({
+    id: "gate",
+    rule_type: "gate",
+    rule_config: {
+      condition: { event_name: "fasting_state", max_hours_ago: 4, min_magnitude: 12 },
+      gated_rule_id: "gh",
+    },
+  });
+
+  it("counts the gated rule when the condition was met", () => {
+    const fasting = event("fasting_state", 6, { magnitude: 14 });
+    const stimulus = event("GH_stimulus", 3);
+    const { evaluation, impacts } = evaluate(fastedGh, [fasting, stimulus], [gh]);
+
+    expect(evaluation.status).toBe("completed");
+    expect(impacts).toContainEqual(expect.objectContaining({
+      event_id: stimulus.id,
+      goal_rule_id: "gate",
+      impact_type: "gate_opened",
+    }));
+  });
+
+  it("closes the gate when the condition is too old or too weak", () => {
+    const { evaluation, impacts } = evaluate(fastedGh, [
+      event("fasting_state", 10, { magnitude: 14 }),
+      event("fasting_state", 4, { magnitude: 8 }),
+      event("GH_stimulus", 3),
+    ], [gh]);
+
+    expect(evaluation.status).toBe("off_track");
+    expect(evaluation.last_fail_reason).toMatch(/fasting_state condition not met/);
+    expect(impacts.map(i => i.impact_type)).toContain("gate_closed");
+  });
+
+  it("reports a missing gated rule", () => {
+    const { evaluation } = evaluate(fastedGh, []);
+    expect(evaluation.last_fail_reason).toBe("Gated rule not found: gh");
+  });
+});
+
+describe("compound rules", () => {
+  const sauna = rule({
+    id: "sauna",
+    rule_type: "count",
+    rule_config: { event_pattern: { name: "sauna_session" }, required_count: 1, rolling_days: 7 },
+  });
+  const and = rule({
+    id: "and",
+    rule_type: "compound",
+    rule_config: { operator: "AND", child_rule_ids: ["seq", "sauna"] },
+  });
+  const or = rule({
+    id: "or",
+    rule_type: "compound",
+    rule_config: { operator: "OR", child_rule_ids: ["seq", "sauna"] },
+  });
+  const rules = [trainingToProtein, sauna, and, or];
+
+  it("aggregates child statuses with AND/OR", () => {
+    const { evaluations } = evaluateGoals(rules, [event("sauna_session", 3)], now);
+    const byId = new Map(evaluations.map(e => [e.goal_rule_id, e]));
+
+    expect(byId.get("and")).toMatchObject({ status: "off_track", completions_in_window: 1, required_in_window: 2 });
+    expect(byId.get("or")).toMatchObject({ status: "completed", required_in_window: 1 });
+    expect(byId.get("and")!.details.children).toHaveLength(2);
+  });
+
+  it("evaluates children before their parents", () => {
+    const { ordered } = orderRulesByDependencies([and], new Map(rules.map(r => [r.id, r])));
+    expect(ordered.map(r => r.id)).toEqual(["seq", "sauna", "and"]);
+  });
+
+  it("reports dependency cycles as validation errors", () => {
+    const a = rule({ id: "a", rule_type: "compound", rule_config: { operator: "AND", child_rule_ids: ["b"] } });
+    const b = rule({ id: "b", rule_type: "compound", rule_config: { operator: "OR", child_rule_ids: ["a"] } });
+    const { results, validationErrors } = evaluateRules([a, b], new Map([[a.id, a], [b.id, b]]), [], now);
+
+    expect(validationErrors.map(e => e.rule_id).sort()).toEqual(["a", "b"]);
+    expect(results.get("a")!.evaluation.last_fail_reason).toBe("Dependency cycle: a → b → a");
+  });
+});
+
+describe("aggregate rules", () => {
+  const protein = rule({
+    id: "protein",
+    rule_type: "aggregate",
+    rule_config: { trackable: "Protein", aggregation: "sum", operator: "gte", threshold: 160, required_days: 6 },
+  });
+
+  function values(grams: Array<number | null>): TrackableValue[] {
+    // One entry per day, oldest first, ending today; null leaves the day unlogged
+    return grams.flatMap((g, i) => {
+      if (g === null) return [];
+      const loggedAt = new Date(now.getTime() - (grams.length - 1 - i) * 24 * HOUR).toISOString();
+      return [
+        { id: `v${i}a`, trackable_id: "t1", trackable_name: "protein", value: g / 2, logged_at: loggedAt },
+        { id: `v${i}b`, trackable_id: "t1", trackable_name: "protein", value: g / 2, logged_at: loggedAt },
+      ];
+    });
+  }
+
+  function evaluateAggregate(r: GoalRule, trackableValues: TrackableValue[]) {
+    return evaluateRule(r, new Map([[r.id, r]]), [], now, new Map(), { trackableValues });
+  }
+
+  it("sums values per day and counts the days that meet the threshold", () => {
+    const { evaluation } = evaluateAggregate(protein, values([170, 165, 180, 160, 200, 175, 10]));
+
+    expect(evaluation.status).toBe("completed");
+    expect(evaluation.completions_in_window).toBe(6);
+    expect(evaluation.details!.days).toHaveLength(7);
+  });
+
+  it("is at risk when today has to meet the threshold", () => {
+    const { evaluation } = evaluateAggregate(protein, values([170, 120, 180, 160, 200, 175, 10]));
+    expect(evaluation.status).toBe("at_risk");
+  });
+
+  it("goes off track once too many days were missed", () => {
+    const { evaluation } = evaluateAggregate(protein, values([170, 120, null, 160, 200, 175, 10]));
+
+    expect(evaluation.status).toBe("off_track");
+    expect(evaluation.last_fail_reason).toBe("No Protein logged on 2026-03-06");
+  });
+
+  it("supports upper limits", () => {
+    const sodium = rule({
+      id: "sodium",
+      rule_type: "aggregate",
+      rule_config: { trackable: "protein", aggregation: "max", operator: "lte", threshold: 90, required_days: 1 },
+    });
+    const { evaluation } = evaluateAggregate(sodium, values([200, 160]));
+
+    expect(evaluation.completions_in_window).toBe(1);
+    expect((evaluation.details!.days as AggregateDay[]).at(-1)).toMatchObject({ value: 80, met: true });
+  });
+});
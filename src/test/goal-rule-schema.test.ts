@@ -0,0 +1,130 @@
+import { describe, it, expect } from "vitest";
+import type { GoalRule } from "@shared/goal-engine";
+import { getUnknownEventWarning, getUnknownTypeWarning, validateGoalRule } from "@/lib/goalRuleSchema";
+
+function rule(overrides: Partial<GoalRule> & Pick<GoalRule, "rule_type" | "rule_config">): GoalRule {
+  return {
+    id: "r",
+    name: "Rule",
+    description: null,
+    rolling_window_days: 7,
+    required_completions: 1,
+    is_active: true,
+    ...overrides,
+  };
+}
+
+const count = rule({
+  id: "count",
+  name: "Training",
+  rule_type: "count",
+  rule_config: { event_pattern: { name: "training_session" }, required_count: 3, rolling_days: 7 },
+});
+
+describe("validateGoalRule", () => {
+  it("accepts a valid sequence", () => {
+    const errors = validateGoalRule(rule({
+      rule_type: "sequence",
+      rule_config: { events: [{ name: "training_session" }, { name: "protein_bolus" }], min_hours: 0, max_hours: 2 },
+    }));
+    expect(errors).toEqual({});
+  });
+
+  it("reports min_hours > max_hours on the rule and on a step", () => {
+    const errors = validateGoalRule(rule({
+      rule_type: "sequence",
+      rule_config: {
+        events: [{ name: "a" }, { name: "b", min_hours: 5, max_hours: 1 }],
+        min_hours: 4,
+        max_hours: 2,
+      },
+    }));
+    expect(errors["rule_config.max_hours"]).toBe("min_hours > max_hours");
+    expect(errors["rule_config.events.1.max_hours"]).toBe("min_hours > max_hours");
+  });
+
+  it("reports missing event names by step", () => {
+    const errors = validateGoalRule(rule({
+      rule_type: "sequence",
+      rule_config: { events: [{ name: "a" }, { name: " " }], min_hours: 0, max_hours: 2 },
+    }));
+    expect(errors).toEqual({ "rule_config.events.1.name": "Event name is required" });
+  });
+
+  it("rejects an avoidance that avoids its own anchor", () => {
+    const errors = validateGoalRule(rule({
+      rule_type: "avoidance",
+      rule_config: { anchor: { name: "sleep" }, avoid: { name: "Sleep" }, direction: "before", hours: 8 },
+    }));
+    expect(errors["rule_config.avoid.name"]).toBeDefined();
+  });
+
+  it("requires aggregate days to fit in the rolling window", () => {
+    const errors = validateGoalRule(rule({
+      rule_type: "aggregate",
+      rule_config: { trackable: "Protein", aggregation: "sum", operator: "gte", threshold: 160, required_days: 9 },
+    }));
+    expect(errors["rule_config.required_days"]).toBe("Only 7 days in the window");
+  });
+
+  it("requires a gated rule and reports unknown references", () => {
+    const missing = validateGoalRule(rule({
+      rule_type: "gate",
+      rule_config: { condition: { event_name: "fasting_state" }, gated_rule_id: "" },
+    }), [count]);
+    expect(missing["rule_config.gated_rule_id"]).toBe("Pick the rule to gate");
+
+    const unknown = validateGoalRule(rule({
+      rule_type: "gate",
+      rule_config: { condition: { event_name: "fasting_state" }, gated_rule_id: "gone" },
+    }), [count]);
+    expect(unknown["rule_config.gated_rule_id"]).toBe("Unknown rule: gone");
+  });
+
+  it("detects a compound that would depend on itself", () => {
+    const parent = rule({
+      id: "parent",
+      name: "Parent",
+      rule_type: "compound",
+      rule_config: { operator: "AND", child_rule_ids: ["count", "child"] },
+    });
+    const edited = rule({
+      id: "child",
+      name: "Child",
+      rule_type: "compound",
+      rule_config: { operator: "OR", child_rule_ids: ["count", "parent"] },
+    });
+    const errors = validateGoalRule(edited, [count, parent, edited]);
+    expect(errors["rule_config.child_rule_ids"]).toMatch(/dependency cycle/);
+  });
+
+  it("needs at least two compound children", () => {
+    const errors = validateGoalRule(rule({
+      rule_type: "compound",
+      rule_config: { operator: "AND", child_rule_ids: ["count"] },
+    }), [count]);
+    expect(errors["rule_config.child_rule_ids"]).toBe("Pick at least 2 child rules");
+  });
+});
+
+describe("event catalog warnings", () => {
+  const names = ["training_session", "protein_bolus", "sauna_session"];
+
+  it("matches names case-insensitively", () => {
+    expect(getUnknownEventWarning("Training_Session", names)).toBeNull();
+  });
+
+  it("suggests the closest known name", () => {
+    expect(getUnknownEventWarning("protien_bolus", names)).toBe('No "protien_bolus" events yet. Did you mean protein_bolus?');
+    expect(getUnknownEventWarning("meditation", names)).toBe('No "meditation" events recorded yet');
+  });
+
+  it("stays quiet without a catalog", () => {
+    expect(getUnknownEventWarning("anything", [])).toBeNull();
+  });
+
+  it("flags event types that differ only in case", () => {
+    expect(getUnknownTypeWarning("Activity", ["activity"])).toBe('Types are case-sensitive: recorded events use "activity"');
+    expect(getUnknownTypeWarning("activity", ["activity"])).toBeNull();
+  });
+});
@@ -0,0 +1,47 @@
+// Local stand-in for a scheduler: calls the goal-evaluator sweep action every few minutes
+// so windows expire and notifications are raised while nothing is being logged.
+//
+//   SUPABASE_URL=http://127.0.0.1:54321 SUPABASE_ANON_KEY=... \
+//     deno run --allow-net --allow-env supabase/cron/goal-sweep.ts [--every=10] [--once]
+//
+// --every is the interval in minutes (default 10); --once runs a single sweep and exits.
+
+const DEFAULT_INTERVAL_MINUTES = 10;
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL');
+const anonKey = Deno.env.get('SUPABASE_ANON_KEY');
+if (!supabaseUrl || !anonKey) {
+  console.error('SUPABASE_URL and SUPABASE_ANON_KEY must be set');
+  Deno.exit(1);
+}
+
+const everyArg = Deno.args.find(arg => arg.startsWith('--every='));
+const intervalMinutes = everyArg ? Number(everyArg.slice('--every='.length)) : DEFAULT_INTERVAL_MINUTES;
+if (!(intervalMinutes > 0)) {
+  console.error('--every must be a positive number of minutes');
+  Deno.exit(1);
+}
+
+async function sweep(): Promise<void> {
+  try {
+    const response = await fetch(`${supabaseUrl}/functions/v1/goal-evaluator`, {
+      method: 'POST',
+      headers: { 'Authorization': `Bearer ${anonKey}`, 'Content-Type': 'application/json' },
+      body: JSON.stringify({ action: 'sweep' }),
+    });
+    const result = await response.json();
+    if (!response.ok) throw new Error(result.error || `HTTP ${response.status}`);
+    console.log(
+      `${result.swept_at} evaluated ${result.evaluated} goals,`,
+      `wrote ${result.written_rule_ids.length}, raised ${result.notifications_created} notifications`
+    );
+  } catch (error) {
+    // Keep running; the next sweep catches up on whatever this one missed
+    console.error('Sweep failed:', error instanceof Error ? error.message : error);
+  }
+}
+
+await sweep();
+if (!Deno.args.includes('--once')) {
+  setInterval(sweep, intervalMinutes * 60 * 1000);
+}
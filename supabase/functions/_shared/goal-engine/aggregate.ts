@@ -0,0 +1,100 @@
+import type {
+  AggregateConfig,
+  AggregateDay,
+  GoalEvaluation,
+  GoalRule,
+  RuleResult,
+  TrackableValue,
+} from "./types.ts";
+import { getLocalDate, getLocalMidnight, getWindowDates } from "./windows.ts";
+
+function aggregate(values: number[], aggregation: AggregateConfig['aggregation']): number {
+  switch (aggregation) {
+    case 'avg': return values.reduce((sum, v) => sum + v, 0) / values.length;
+    case 'min': return Math.min(...values);
+    case 'max': return Math.max(...values);
+    default: return values.reduce((sum, v) => sum + v, 0);
+  }
+}
+
+// Group a trackable's values per local day over the rule's window (oldest first)
+export function getAggregateDays(
+  rule: GoalRule,
+  values: TrackableValue[],
+  now: Date,
+  timeZone = 'UTC'
+): AggregateDay[] {
+  const config = rule.rule_config as AggregateConfig;
+  const byDate = new Map<string, number[]>();
+  for (const v of values) {
+    if (v.trackable_name.toLowerCase() !== config.trackable.toLowerCase()) continue;
+    const date = getLocalDate(new Date(v.logged_at), timeZone);
+    byDate.set(date, [...(byDate.get(date) || []), Number(v.value)]);
+  }
+
+  return getWindowDates(rule, now, timeZone).map(date => {
+    const dayValues = byDate.get(date);
+    const value = dayValues ? aggregate(dayValues, config.aggregation) : null;
+    const met = value !== null && (config.operator === 'lte' ? value <= config.threshold : value >= config.threshold);
+    return { date, value, met };
+  });
+}
+
+// Evaluate an aggregate rule: count the days in the window whose aggregate meets the threshold
+export function evaluateAggregateRule(
+  rule: GoalRule,
+  trackableValues: TrackableValue[],
+  now: Date,
+  timeZone = 'UTC'
+): RuleResult {
+  const config = rule.rule_config as AggregateConfig;
+  const symbol = config.operator === 'lte' ? '≤' : '≥';
+
+  const days = getAggregateDays(rule, trackableValues, now, timeZone);
+  const required = config.required_days || days.length;
+  const todayDate = getLocalDate(now, timeZone);
+  const today = days.find(d => d.date === todayDate) || days[days.length - 1];
+  const metDays = days.filter(d => d.met);
+  // Today (and the rest of a calendar window) can still change, so only earlier days count as missed
+  const missedDays = days.filter(d => d.date < todayDate && !d.met);
+  const achievable = days.length - missedDays.length;
+
+  let status: GoalEvaluation['status'];
+  if (metDays.length >= required) {
+    status = 'completed';
+  } else if (achievable < required) {
+    status = 'off_track';
+  } else if (achievable - required <= 1 && !today.met) {
+    // No slack left: today has to hit the threshold
+    status = 'at_risk';
+  } else {
+    status = 'on_track';
+  }
+
+  const lastMissed = missedDays[missedDays.length - 1];
+  const lastMet = metDays[metDays.length - 1];
+
+  return {
+    evaluation: {
+      status,
+      completions_in_window: metDays.length,
+      required_in_window: required,
+      pending_windows: [],
+      last_success_at: lastMet ? getLocalMidnight(lastMet.date, timeZone).toISOString() : null,
+      last_fail_at: lastMissed ? getLocalMidnight(lastMissed.date, timeZone).toISOString() : null,
+      last_fail_reason: lastMissed
+        ? lastMissed.value === null
+          ? `No ${config.trackable} logged on ${lastMissed.date}`
+          : `${config.trackable} ${config.aggregation} was ${Number(lastMissed.value.toFixed(1))} on ${lastMissed.date} (needs ${symbol} ${config.threshold})`
+        : null,
+      details: {
+        trackable: config.trackable,
+        aggregation: config.aggregation,
+        threshold: config.threshold,
+        operator: config.operator,
+        days
+      }
+    },
+    impacts: []
+  };
+}
@@ -0,0 +1,151 @@
+import type {
+  CompoundConfig,
+  GateConfig,
+  GoalRule,
+  PortableRule,
+  RuleBundle,
+} from "./types.ts";
+import { getRuleDependencies } from "./evaluate.ts";
+import { validateRuleConfig } from "./validation.ts";
+
+export const RULE_BUNDLE_FORMAT = 'goal_rules';
+export const RULE_BUNDLE_VERSION = 1;
+
+const RULE_TYPES: GoalRule['rule_type'][] = ['sequence', 'count', 'gate', 'compound', 'avoidance', 'aggregate'];
+
+type ExportableRule = GoalRule & { priority?: number };
+
+// Bundle the selected rules with every rule they reference, so gates and compounds
+// can be imported on their own. References use each rule's original ID as its key.
+export function exportRules(
+  allRules: ExportableRule[],
+  ruleIds: string[],
+  exportedAt = new Date()
+): RuleBundle {
+  const rulesById = new Map(allRules.map(r => [r.id, r]));
+  const included = new Map<string, ExportableRule>();
+
+  const visit = (id: string) => {
+    const rule = rulesById.get(id);
+    if (!rule || included.has(id)) return;
+    included.set(id, rule);
+    getRuleDependencies(rule).forEach(visit);
+  };
+  ruleIds.forEach(visit);
+
+  return {
+    format: RULE_BUNDLE_FORMAT,
+    version: RULE_BUNDLE_VERSION,
+    exported_at: exportedAt.toISOString(),
+    rules: [...included.values()].map(rule => ({
+      key: rule.id,
+      name: rule.name,
+      description: rule.description,
+      rule_type: rule.rule_type,
+      rule_config: rule.rule_config,
+      rolling_window_days: rule.rolling_window_days,
+      window_type: rule.window_type,
+      required_completions: rule.required_completions,
+      confidence_policy: rule.confidence_policy ?? null,
+      is_active: rule.is_active,
+      priority: rule.priority,
+    })),
+  };
+}
+
+// Point a gate's or compound's references at the IDs its dependencies were imported under
+function remapConfig(rule: PortableRule, ids: Map<string, string>): GoalRule['rule_config'] {
+  switch (rule.rule_type) {
+    case 'gate': {
+      const config = rule.rule_config as GateConfig;
+      return { ...config, gated_rule_id: ids.get(config.gated_rule_id)! };
+    }
+    case 'compound': {
+      const config = rule.rule_config as CompoundConfig;
+      return { ...config, child_rule_ids: (config.child_rule_ids || []).map(id => ids.get(id)!) };
+    }
+    default:
+      return rule.rule_config;
+  }
+}
+
+// A bundled rule as it is stored, with defaults for the fields the bundle leaves out
+function toGoalRule(
+  rule: PortableRule,
+  id: string,
+  config: GoalRule['rule_config']
+): GoalRule & { priority: number } {
+  return {
+    id,
+    name: rule.name,
+    description: rule.description ?? null,
+    rule_type: rule.rule_type,
+    rule_config: config,
+    rolling_window_days: rule.rolling_window_days ?? 7,
+    window_type: rule.window_type ?? 'rolling',
+    required_completions: rule.required_completions ?? 1,
+    confidence_policy: rule.confidence_policy ?? null,
+    is_active: rule.is_active ?? true,
+    priority: rule.priority ?? 0,
+  };
+}
+
+// Check a parsed bundle and turn its rules into new rules with fresh IDs. Every error is
+// reported; no rules are returned unless the whole bundle is valid.
+export function importRules(
+  bundle: unknown,
+  createId: () => string
+): { rules: (GoalRule & { priority: number })[]; errors: string[] } {
+  const errors: string[] = [];
+  const data = bundle as Partial<RuleBundle> | null;
+
+  if (!data || typeof data !== 'object' || !Array.isArray(data.rules)) {
+    return { rules: [], errors: ['Not a goal rule bundle: missing "rules" list'] };
+  }
+  if (data.format !== undefined && data.format !== RULE_BUNDLE_FORMAT) {
+    errors.push(`Unknown bundle format "${data.format}"`);
+  }
+  if (data.version !== undefined && data.version > RULE_BUNDLE_VERSION) {
+    errors.push(`Bundle version ${data.version} is newer than supported (${RULE_BUNDLE_VERSION})`);
+  }
+
+  const rules = data.rules as PortableRule[];
+  const ids = new Map<string, string>();
+  const wellFormed: PortableRule[] = [];
+  rules.forEach((rule, i) => {
+    if (!rule || typeof rule !== 'object') {
+      errors.push(`Rule #${i + 1} is not an object`);
+      return;
+    }
+    const hasName = typeof rule.name === 'string' && rule.name.trim() !== '';
+    const label = hasName ? `"${rule.name}"` : `#${i + 1}`;
+    if (typeof rule.key !== 'string' || !rule.key) errors.push(`Rule ${label} has no key`);
+    else if (ids.has(rule.key)) errors.push(`Duplicate rule key "${rule.key}"`);
+    else ids.set(rule.key, createId());
+    if (!hasName) errors.push(`Rule #${i + 1} has no name`);
+    if (!RULE_TYPES.includes(rule.rule_type)) {
+      errors.push(`Rule ${label} has unknown type "${rule.rule_type}"`);
+    } else if (!rule.rule_config || typeof rule.rule_config !== 'object') {
+      errors.push(`Rule ${label} has no rule_config`);
+    } else {
+      // Check the config, window and target the rule would be stored with
+      const messages = validateRuleConfig(toGoalRule(rule, rule.key, rule.rule_config));
+      messages.forEach(message => errors.push(`Rule ${label}: ${message}`));
+      if (messages.length === 0) wellFormed.push(rule);
+    }
+  });
+
+  // References must resolve inside the bundle
+  for (const rule of wellFormed) {
+    for (const ref of getRuleDependencies(rule as unknown as GoalRule)) {
+      if (!ids.has(ref)) errors.push(`Rule "${rule.name}" references "${ref}", which is not in the bundle`);
+    }
+  }
+
+  if (errors.length > 0) return { rules: [], errors };
+
+  return {
+    rules: rules.map(rule => toGoalRule(rule, ids.get(rule.key)!, remapConfig(rule, ids))),
+    errors: [],
+  };
+}
@@ -0,0 +1,76 @@
+import type {
+  ConfidenceSplit,
+  CountConfig,
+  GoalEvaluation,
+  GoalRule,
+  NormalizedEvent,
+  RuleResult,
+} from "./types.ts";
+
+// Events at or above this confidence count as confirmed unless a policy says otherwise
+export const CONFIRMED_CONFIDENCE = 0.9;
+
+export function getConfirmedConfidence(rule: GoalRule): number {
+  return rule.confidence_policy?.min_confidence ?? CONFIRMED_CONFIDENCE;
+}
+
+export function isConfirmedEvent(event: NormalizedEvent, minConfidence = CONFIRMED_CONFIDENCE): boolean {
+  return (event.confidence ?? 1) >= minConfidence;
+}
+
+// Events a rule evaluates: a threshold policy drops those below its confidence
+export function filterEventsByConfidence(rule: GoalRule, events: NormalizedEvent[]): NormalizedEvent[] {
+  if (rule.confidence_policy?.mode !== 'threshold') return events;
+  const minConfidence = getConfirmedConfidence(rule);
+  return events.filter(e => isConfirmedEvent(e, minConfidence));
+}
+
+function getRequired(rule: GoalRule, result: RuleResult): number {
+  if (result.evaluation.required_in_window !== undefined) return result.evaluation.required_in_window;
+  if (rule.rule_type === 'count') return (rule.rule_config as CountConfig).required_count || rule.required_completions;
+  return rule.required_completions;
+}
+
+// Same bands as count rules, for a goal that is not complete
+function getStatusForProgress(completions: number, required: number): GoalEvaluation['status'] {
+  if (completions >= required * 0.7) return 'on_track';
+  if (completions >= required * 0.3) return 'at_risk';
+  return 'off_track';
+}
+
+// Report the confirmed/inferred split of a result's completions and apply the rule's
+// fractional or require_confirmed policy. Works from `completed`, so applying it twice
+// (a gate around a rule with a policy) gives the same result.
+export function applyConfidencePolicy(rule: GoalRule, result: RuleResult): RuleResult {
+  if (!result.completed) return result;
+
+  const minConfidence = getConfirmedConfidence(rule);
+  const confirmedCompletions = result.completed.filter(chain => chain.every(e => isConfirmedEvent(e, minConfidence)));
+  const split: ConfidenceSplit = {
+    confirmed: confirmedCompletions.length,
+    inferred: result.completed.length - confirmedCompletions.length,
+    min_confidence: minConfidence,
+  };
+
+  const evaluation = { ...result.evaluation, details: { ...result.evaluation.details, confidence_split: split } };
+  const required = getRequired(rule, result);
+  const mode = rule.confidence_policy?.mode;
+
+  if (mode === 'fractional') {
+    const weighted = result.completed.reduce(
+      (sum, chain) => sum + Math.min(...chain.map(e => e.confidence ?? 1)),
+      0
+    );
+    evaluation.completions_in_window = Number(weighted.toFixed(2));
+    // The weighted total alone decides the status, not the raw count
+    evaluation.status = weighted >= required ? 'completed' : getStatusForProgress(weighted, required);
+    if (result.evaluation.status === 'completed' && weighted < required) {
+      evaluation.last_fail_reason = `${result.completed.length} completion(s) weigh ${Number(weighted.toFixed(2))} by confidence (needs ${required})`;
+    }
+  } else if (mode === 'require_confirmed' && evaluation.status === 'completed' && split.confirmed === 0) {
+    evaluation.status = getStatusForProgress(result.completed.length, required);
+    evaluation.last_fail_reason = `No confirmed completion yet: all ${split.inferred} rest on events below ${minConfidence} confidence`;
+  }
+
+  return { ...result, evaluation };
+}
@@ -0,0 +1,45 @@
+import type { EventShift, GoalEvaluation, NormalizedEvent, WhatIfDiff, WhatIfScenario } from "./types.ts";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+function applyShift(event: NormalizedEvent, shift: EventShift): NormalizedEvent {
+  const occurredAt = shift.occurred_at !== undefined
+    ? new Date(shift.occurred_at)
+    : new Date(new Date(event.occurred_at).getTime() + (shift.hours || 0) * HOUR_MS);
+  return { ...event, occurred_at: occurredAt.toISOString() };
+}
+
+// Apply a what-if scenario to the recorded events: drop removed events, move shifted ones
+// and append additions (with `hypothetical-N` IDs). Returns the events in time order, or
+// the IDs the scenario refers to that are not among the events.
+export function applyWhatIfScenario(
+  events: NormalizedEvent[],
+  scenario: WhatIfScenario
+): { events: NormalizedEvent[]; unknownEventIds: string[] } {
+  const remove = new Set(scenario.remove || []);
+  const shifts = new Map((scenario.shift || []).map(s => [s.event_id, s]));
+  const knownIds = new Set(events.map(e => e.id));
+  const unknownEventIds = [...remove, ...shifts.keys()].filter(id => !knownIds.has(id));
+
+  const simulated = [
+    ...events
+      .filter(e => !remove.has(e.id))
+      .map(e => shifts.has(e.id) ? applyShift(e, shifts.get(e.id)!) : e),
+    ...(scenario.add || []).map((e, i) => ({ ...e, id: `hypothetical-${i}` } as NormalizedEvent))
+  ].sort((a, b) => new Date(a.occurred_at).getTime() - new Date(b.occurred_at).getTime());
+
+  return { events: simulated, unknownEventIds: [...new Set(unknownEventIds)] };
+}
+
+// Per-goal difference between baseline and simulated evaluations
+export function diffEvaluations(baseline: GoalEvaluation[], simulated: GoalEvaluation[]): WhatIfDiff[] {
+  return simulated.map(sim => {
+    const base = baseline.find(b => b.goal_rule_id === sim.goal_rule_id);
+    return {
+      goal_id: sim.goal_rule_id,
+      baseline_status: base?.status || 'unknown',
+      simulated_status: sim.status,
+      completions_delta: sim.completions_in_window - (base?.completions_in_window || 0)
+    };
+  });
+}
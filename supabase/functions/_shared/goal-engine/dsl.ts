@@ -0,0 +1,424 @@
+import type {
+  AggregateConfig,
+  AvoidanceConfig,
+  CompoundConfig,
+  CountConfig,
+  EventPattern,
+  GateConfig,
+  GoalRule,
+  RuleDefinition,
+  RuleTextError,
+  SequenceConfig,
+  SequenceStep,
+  WindowType,
+} from "./types.ts";
+import { formatEventFilters, parseEventFilters } from "./predicates.ts";
+import { getWindowLengthDays } from "./windows.ts";
+
+// Text syntax for rules, one rule per text:
+//   protein_bolus within 0h..2h after training_session, 3x per 7d
+//   count sauna_session >= 3 per calendar week
+//   no caffeine_dose within 8h before sleep_episode, 5x per 7d
+//   sum Protein >= 160 on 6 days per 7d
+//   @"Training sessions" only within 4h after fasting_state[magnitude >= 1], 3x per 7d
+//   all of @"Fasted training", @"No protein after GH stimulus"
+// Event patterns are `name[:type][filters]`; names that are not plain words, or clash with
+// keywords, are quoted. Gates and compounds reference other rules by @name or @id.
+
+type RuleRef = Pick<GoalRule, 'id' | 'name'>;
+type RuleWindow = Pick<RuleDefinition, 'window_type' | 'rolling_window_days'>;
+
+interface Token {
+  kind: 'word' | 'string' | 'number' | 'symbol' | 'filters';
+  text: string;    // as written; for strings the unquoted value, for filters the text inside [ ]
+  position: number;
+  value?: number;  // numbers only
+  unit?: string;   // numbers only: 'h', 'd', 'x' or ''
+}
+
+const KEYWORDS = [
+  'within', 'after', 'before', 'per', 'count', 'no', 'only', 'all', 'any', 'of', 'on', 'day', 'days',
+  'week', 'month', 'calendar', 'sum', 'avg', 'min', 'max',
+];
+
+const AGGREGATIONS: AggregateConfig['aggregation'][] = ['sum', 'avg', 'min', 'max'];
+
+const CALENDAR_WINDOWS: Record<string, Exclude<WindowType, 'rolling'>> = {
+  day: 'calendar_day',
+  week: 'iso_week',
+  month: 'calendar_month',
+};
+
+const DEFAULT_WINDOW: RuleWindow = { window_type: 'rolling', rolling_window_days: 7 };
+
+class RuleTextSyntaxError extends Error {
+  constructor(message: string, readonly position: number) {
+    super(message);
+  }
+}
+
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  const matchAt = (pattern: RegExp) => {
+    pattern.lastIndex = i;
+    return pattern.exec(text)?.[0] ?? null;
+  };
+
+  while (i < text.length) {
+    const start = i;
+    const char = text[i];
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    if (char === '"') {
+      const quoted = matchAt(/"(?:[^"\\]|\\.)*"/y);
+      if (!quoted) throw new RuleTextSyntaxError('Unterminated quoted name', start);
+      tokens.push({ kind: 'string', text: JSON.parse(quoted), position: start });
+      i += quoted.length;
+      continue;
+    }
+
+    if (char === '[') {
+      const close = text.indexOf(']', i);
+      if (close === -1) throw new RuleTextSyntaxError('Missing "]" after filters', start);
+      tokens.push({ kind: 'filters', text: text.slice(i + 1, close), position: start + 1 });
+      i = close + 1;
+      continue;
+    }
+
+    const number = matchAt(/\d+(?:\.\d+)?[A-Za-z]*/y);
+    if (number) {
+      const [, digits, unit] = number.match(/^([\d.]+)(.*)$/)!;
+      tokens.push({ kind: 'number', text: number, position: start, value: Number(digits), unit: unit.toLowerCase() });
+      i += number.length;
+      continue;
+    }
+
+    const word = matchAt(/[A-Za-z_][\w-]*/y);
+    if (word) {
+      tokens.push({ kind: 'word', text: word, position: start });
+      i += word.length;
+      continue;
+    }
+
+    const symbol = matchAt(/\.\.|>=|<=|[,:@]/y);
+    if (!symbol) throw new RuleTextSyntaxError(`Unexpected character "${char}"`, start);
+    tokens.push({ kind: 'symbol', text: symbol, position: start });
+    i += symbol.length;
+  }
+
+  return tokens;
+}
+
+function parseTokens(tokens: Token[], end: number, rules: RuleRef[]): RuleDefinition {
+  let i = 0;
+  const peek = (offset = 0): Token | undefined => tokens[i + offset];
+  const describe = (token?: Token) => token ? `"${token.text}"` : 'end of text';
+  const fail = (message: string, token?: Token): never => {
+    throw new RuleTextSyntaxError(message, token ? token.position : end);
+  };
+
+  const isKeyword = (word: string, offset = 0) => {
+    const token = peek(offset);
+    return token?.kind === 'word' && token.text.toLowerCase() === word;
+  };
+  const isSymbol = (symbol: string, offset = 0) => {
+    const token = peek(offset);
+    return token?.kind === 'symbol' && token.text === symbol;
+  };
+
+  const expectKeyword = (...words: string[]): string => {
+    const token = peek();
+    if (token?.kind !== 'word' || !words.includes(token.text.toLowerCase())) {
+      fail(`Expected ${words.map(w => `"${w}"`).join(' or ')}, found ${describe(token)}`, token);
+    }
+    i++;
+    return token!.text.toLowerCase();
+  };
+  const expectSymbol = (...symbols: string[]): string => {
+    const token = peek();
+    if (token?.kind !== 'symbol' || !symbols.includes(token.text)) {
+      fail(`Expected ${symbols.map(s => `"${s}"`).join(' or ')}, found ${describe(token)}`, token);
+    }
+    i++;
+    return token!.text;
+  };
+
+  // A number with the given unit; `example` shows the expected form in errors
+  const readNumber = (unit: string, example: string, integer = false): number => {
+    const token = peek();
+    if (token?.kind !== 'number' || token.unit !== unit) fail(`Expected ${example}, found ${describe(token)}`, token);
+    if (integer && !Number.isInteger(token!.value)) fail(`Expected a whole number, found ${describe(token)}`, token);
+    i++;
+    return token!.value!;
+  };
+
+  const readName = (what: string): string => {
+    const token = peek();
+    if (token?.kind === 'string') {
+      i++;
+      return token.text;
+    }
+    if (token?.kind !== 'word') fail(`Expected ${what}, found ${describe(token)}`, token);
+    if (KEYWORDS.includes(token!.text.toLowerCase())) {
+      fail(`"${token!.text}" is a keyword; quote it to use it as a name`, token);
+    }
+    i++;
+    return token!.text;
+  };
+
+  const readPattern = (): EventPattern => {
+    const pattern: EventPattern = { name: readName('an event name') };
+    if (isSymbol(':')) {
+      i++;
+      pattern.type = readName('an event type');
+    }
+    const filtersToken = peek();
+    if (filtersToken?.kind === 'filters') {
+      i++;
+      const { filters, error } = parseEventFilters(filtersToken.text);
+      if (error) fail(error, filtersToken);
+      Object.assign(pattern, filters);
+    }
+    return pattern;
+  };
+
+  // `0h..2h`, `2h` (up to 2h) or `1h..` (at least 1h)
+  const readRange = (): { min?: number; max?: number } => {
+    const first = readNumber('h', 'hours, e.g. "2h"');
+    if (!isSymbol('..')) return { max: first };
+    i++;
+    return peek()?.kind === 'number' ? { min: first, max: readNumber('h', 'hours, e.g. "2h"') } : { min: first };
+  };
+
+  const readWindow = (): RuleWindow => {
+    if (isKeyword('calendar')) i++;
+    if (isKeyword('calendar', -1) || peek()?.kind === 'word') {
+      const windowType = CALENDAR_WINDOWS[expectKeyword('day', 'week', 'month')];
+      return { window_type: windowType, rolling_window_days: getWindowLengthDays({ window_type: windowType, rolling_window_days: 0 }) };
+    }
+    return { window_type: 'rolling', rolling_window_days: readNumber('d', 'a window, e.g. "7d" or "calendar week"', true) };
+  };
+
+  // `, 3x per 7d`; without it the rule needs one completion in the last 7 days
+  const readCompletions = (): RuleWindow & Pick<RuleDefinition, 'required_completions'> => {
+    if (!peek()) return { ...DEFAULT_WINDOW, required_completions: 1 };
+    expectSymbol(',');
+    const required = readNumber('x', 'completions, e.g. "3x"', true);
+    expectKeyword('per');
+    return { ...readWindow(), required_completions: required };
+  };
+
+  const readRuleRef = (): string => {
+    expectSymbol('@');
+    const token = peek();
+    const ref = readName('a rule name');
+    const byId = rules.find(r => r.id === ref);
+    if (byId) return byId.id;
+    const byName = rules.filter(r => r.name.toLowerCase() === ref.toLowerCase());
+    if (byName.length > 1) fail(`Several rules are named "${ref}"; use its ID`, token);
+    if (byName.length === 0) fail(`Unknown rule "${ref}"`, token);
+    return byName[0].id;
+  };
+
+  const parseCount = (): RuleDefinition => {
+    expectKeyword('count');
+    const pattern = readPattern();
+    expectSymbol('>=');
+    const required = readNumber('', 'a count', true);
+    expectKeyword('per');
+    const window = readWindow();
+    const config: CountConfig = { event_pattern: pattern, required_count: required, rolling_days: window.rolling_window_days };
+    return { rule_type: 'count', rule_config: config, ...window, required_completions: required };
+  };
+
+  const parseAvoidance = (): RuleDefinition => {
+    expectKeyword('no');
+    const avoid = readPattern();
+    expectKeyword('within');
+    const hours = readNumber('h', 'hours, e.g. "8h"');
+    const direction = expectKeyword('before', 'after') as AvoidanceConfig['direction'];
+    const anchor = readPattern();
+    const config: AvoidanceConfig = { anchor, avoid, direction, hours };
+    return { rule_type: 'avoidance', rule_config: config, ...readCompletions() };
+  };
+
+  const parseAggregate = (): RuleDefinition => {
+    const aggregation = expectKeyword(...AGGREGATIONS) as AggregateConfig['aggregation'];
+    const trackable = readName('a trackable name');
+    const operator = expectSymbol('>=', '<=') === '>=' ? 'gte' : 'lte';
+    const threshold = readNumber('', 'a threshold');
+    expectKeyword('on');
+    const requiredDays = readNumber('', 'a number of days', true);
+    expectKeyword('days', 'day');
+    let window = DEFAULT_WINDOW;
+    if (peek()) {
+      expectKeyword('per');
+      window = readWindow();
+    }
+    const config: AggregateConfig = { trackable, aggregation, operator, threshold, required_days: requiredDays };
+    return { rule_type: 'aggregate', rule_config: config, ...window, required_completions: requiredDays };
+  };
+
+  const parseGate = (): RuleDefinition => {
+    const gatedRuleId = readRuleRef();
+    expectKeyword('only');
+    let range: { min?: number; max?: number } = {};
+    if (isKeyword('within')) {
+      i++;
+      range = readRange();
+    }
+    expectKeyword('after');
+    const conditionToken = peek();
+    const { name, min_magnitude, ...unsupported } = readPattern();
+    if (Object.keys(unsupported).length > 0) fail('Gate conditions only support a name and "magnitude >= N"', conditionToken);
+    const config: GateConfig = {
+      condition: { event_name: name, min_hours_ago: range.min, max_hours_ago: range.max, min_magnitude },
+      gated_rule_id: gatedRuleId,
+    };
+    return { rule_type: 'gate', rule_config: config, ...readCompletions() };
+  };
+
+  const parseCompound = (): RuleDefinition => {
+    const operator = expectKeyword('all', 'any') === 'all' ? 'AND' : 'OR';
+    expectKeyword('of');
+    const childRuleIds = [readRuleRef()];
+    while (isSymbol(',')) {
+      i++;
+      childRuleIds.push(readRuleRef());
+    }
+    const config: CompoundConfig = { operator, child_rule_ids: childRuleIds };
+    return { rule_type: 'compound', rule_config: config, ...DEFAULT_WINDOW, required_completions: 1 };
+  };
+
+  // Written last step first: `c within 1h..4h after b within 0h..2h after a`
+  const parseSequence = (): RuleDefinition => {
+    const steps = [readPattern()];
+    const gaps: { min: number; max: number }[] = [];
+    do {
+      const within = peek();
+      expectKeyword('within');
+      const { min = 0, max } = readRange();
+      if (max === undefined) fail('Sequence gaps need a maximum, e.g. "0h..2h"', within);
+      expectKeyword('after');
+      gaps.push({ min, max: max! });
+      steps.push(readPattern());
+    } while (isKeyword('within'));
+
+    steps.reverse();
+    gaps.reverse();
+    // The first gap is the rule default; later steps only override it where they differ
+    const [ruleGap] = gaps;
+    const events: SequenceStep[] = steps.map((step, k) => {
+      const gap = gaps[k - 1];
+      if (k < 2 || (gap.min === ruleGap.min && gap.max === ruleGap.max)) return step;
+      return { ...step, min_hours: gap.min, max_hours: gap.max };
+    });
+    const config: SequenceConfig = { events, min_hours: ruleGap.min, max_hours: ruleGap.max };
+    return { rule_type: 'sequence', rule_config: config, ...readCompletions() };
+  };
+
+  const first = peek();
+  if (!first) fail('Expected a rule, e.g. "protein_bolus within 0h..2h after training_session, 3x per 7d"');
+
+  let rule: RuleDefinition;
+  if (isKeyword('count')) rule = parseCount();
+  else if (isKeyword('no')) rule = parseAvoidance();
+  else if ((isKeyword('all') || isKeyword('any')) && isKeyword('of', 1)) rule = parseCompound();
+  else if (AGGREGATIONS.some(a => isKeyword(a)) && (isSymbol('>=', 2) || isSymbol('<=', 2))) rule = parseAggregate();
+  else if (isSymbol('@')) rule = parseGate();
+  else rule = parseSequence();
+
+  if (peek()) fail(`Unexpected ${describe(peek())}`, peek());
+  return rule;
+}
+
+// Parse rule text into a rule definition. Rule references resolve against `rules`, by ID or name.
+export function parseRuleText(
+  text: string,
+  rules: RuleRef[] = []
+): { rule: RuleDefinition | null; error: RuleTextError | null } {
+  try {
+    return { rule: parseTokens(tokenize(text), text.length, rules), error: null };
+  } catch (error) {
+    if (!(error instanceof RuleTextSyntaxError)) throw error;
+    return { rule: null, error: { message: error.message, position: error.position } };
+  }
+}
+
+function formatName(name: string): string {
+  return /^[A-Za-z_][\w-]*$/.test(name) && !KEYWORDS.includes(name.toLowerCase()) ? name : JSON.stringify(name);
+}
+
+function formatPattern(pattern: EventPattern): string {
+  const filters = formatEventFilters(pattern);
+  return `${formatName(pattern.name)}${pattern.type ? `:${formatName(pattern.type)}` : ''}${filters ? `[${filters}]` : ''}`;
+}
+
+function formatWindow(rule: RuleWindow): string {
+  switch (rule.window_type) {
+    case 'calendar_day': return 'calendar day';
+    case 'iso_week': return 'calendar week';
+    case 'calendar_month': return 'calendar month';
+    default: return `${rule.rolling_window_days}d`;
+  }
+}
+
+function formatRange(min: number | undefined, max: number | undefined): string {
+  if (min === undefined) return `${max}h`;
+  return max === undefined ? `${min}h..` : `${min}h..${max}h`;
+}
+
+// Render a rule as text that parseRuleText reads back to the same definition
+export function formatRuleText(rule: RuleDefinition, rules: RuleRef[] = []): string {
+  const completions = `, ${rule.required_completions}x per ${formatWindow(rule)}`;
+  // By name where that is unambiguous, otherwise by ID
+  const formatRef = (id: string) => {
+    const named = rules.filter(r => r.name.toLowerCase() === rules.find(x => x.id === id)?.name.toLowerCase());
+    return `@${named.length === 1 ? formatName(named[0].name) : formatName(id)}`;
+  };
+
+  switch (rule.rule_type) {
+    case 'sequence': {
+      const config = rule.rule_config as SequenceConfig;
+      let text = formatPattern(config.events[config.events.length - 1]);
+      for (let k = config.events.length - 1; k > 0; k--) {
+        const step = config.events[k];
+        const range = formatRange(step.min_hours ?? config.min_hours, step.max_hours ?? config.max_hours);
+        text += ` within ${range} after ${formatPattern(config.events[k - 1])}`;
+      }
+      return text + completions;
+    }
+    case 'count': {
+      const config = rule.rule_config as CountConfig;
+      // Count rules are evaluated over their own rolling_days and required_count when set
+      const required = config.required_count || rule.required_completions;
+      const window = formatWindow({ ...rule, rolling_window_days: config.rolling_days || rule.rolling_window_days });
+      return `count ${formatPattern(config.event_pattern)} >= ${required} per ${window}`;
+    }
+    case 'avoidance': {
+      const config = rule.rule_config as AvoidanceConfig;
+      return `no ${formatPattern(config.avoid)} within ${config.hours}h ${config.direction} ${formatPattern(config.anchor)}${completions}`;
+    }
+    case 'aggregate': {
+      const config = rule.rule_config as AggregateConfig;
+      const operator = config.operator === 'gte' ? '>=' : '<=';
+      return `${config.aggregation} ${formatName(config.trackable)} ${operator} ${config.threshold} on ${config.required_days} days per ${formatWindow(rule)}`;
+    }
+    case 'gate': {
+      const { condition, gated_rule_id } = rule.rule_config as GateConfig;
+      const range = condition.min_hours_ago === undefined && condition.max_hours_ago === undefined
+        ? ''
+        : ` within ${formatRange(condition.min_hours_ago, condition.max_hours_ago)}`;
+      const pattern = formatPattern({ name: condition.event_name, min_magnitude: condition.min_magnitude });
+      return `${formatRef(gated_rule_id)} only${range} after ${pattern}${completions}`;
+    }
+    case 'compound': {
+      const config = rule.rule_config as CompoundConfig;
+      return `${config.operator === 'AND' ? 'all' : 'any'} of ${config.child_rule_ids.map(formatRef).join(', ')}`;
+    }
+  }
+}
@@ -0,0 +1,969 @@
+import type {
+  AvoidanceConfig,
+  CompoundConfig,
+  CountConfig,
+  DecisionImpact,
+  EvaluationContext,
+  EventPattern,
+  GateConfig,
+  GoalEvaluation,
+  GoalRule,
+  NormalizedEvent,
+  PendingWindow,
+  RuleResult,
+  SequenceConfig,
+  SequenceStep,
+  TraceAnchor,
+  TraceCandidate,
+  TraceVerdict,
+  ValidationError,
+} from "./types.ts";
+import { matchesEventPattern } from "./predicates.ts";
+import { evaluateAggregateRule } from "./aggregate.ts";
+import { applyForecast } from "./forecast.ts";
+import { applyConfidencePolicy, filterEventsByConfidence } from "./confidence.ts";
+import { getLocalDate, getWindowLengthDays, getWindowStart } from "./windows.ts";
+import { applyPauses, dropPausedDays, findPause } from "./pauses.ts";
+import { validateRuleConfig } from "./validation.ts";
+
+// Gap allowed between a sequence step and the one before it
+function getStepGap(config: SequenceConfig, stepIndex: number): { min_hours: number; max_hours: number } {
+  const step = config.events[stepIndex];
+  return {
+    min_hours: step.min_hours ?? config.min_hours,
+    max_hours: step.max_hours ?? config.max_hours
+  };
+}
+
+const toCandidate = (e: NormalizedEvent, verdict: TraceVerdict): TraceCandidate =>
+  ({ event_id: e.id, event_name: e.event_name, occurred_at: e.occurred_at, verdict });
+
+// Events with a step's name considered for it, from the previous step up to one more
+// gap past its window, with why each did or did not fill the step
+function traceStepCandidates(
+  windowEvents: NormalizedEvent[],
+  step: SequenceStep,
+  prevTime: number,
+  stepWindowStart: Date,
+  stepWindowEnd: Date,
+  match: NormalizedEvent | undefined,
+  isUsed: (e: NormalizedEvent) => boolean
+): TraceCandidate[] {
+  const horizon = stepWindowEnd.getTime() + (stepWindowEnd.getTime() - prevTime);
+  return windowEvents
+    .filter(e => {
+      const t = new Date(e.occurred_at).getTime();
+      return e.event_name.toLowerCase() === step.name.toLowerCase() && t >= prevTime && t <= horizon;
+    })
+    .sort((a, b) => new Date(a.occurred_at).getTime() - new Date(b.occurred_at).getTime())
+    .map(e => {
+      const t = new Date(e.occurred_at);
+      if (e === match) return toCandidate(e, 'matched');
+      if (!matchesEventPattern(e, step)) return toCandidate(e, 'wrong_type');
+      if (t < stepWindowStart) return toCandidate(e, 'too_early');
+      if (t > stepWindowEnd) return toCandidate(e, 'too_late');
+      return toCandidate(e, isUsed(e) ? 'already_used' : 'not_needed');
+    });
+}
+
+// Evaluate a sequence rule (A → B → C …, each step within its gap of the previous one).
+// Given a `trace`, records every A event and the events considered for each step after it.
+export function evaluateSequenceRule(
+  rule: GoalRule,
+  events: NormalizedEvent[],
+  now: Date,
+  timeZone = 'UTC',
+  trace?: TraceAnchor[]
+): RuleResult {
+  const config = rule.rule_config as SequenceConfig;
+  const impacts: DecisionImpact[] = [];
+  
+  if (config.events.length < 2) {
+    return { 
+      evaluation: { 
+        status: 'off_track', 
+        completions_in_window: 0, 
+        pending_windows: [],
+        last_fail_reason: 'Sequence requires at least 2 events'
+      },
+      impacts 
+    };
+  }
+
+  const steps = config.events;
+  const stepNames = steps.map(s => s.name);
+  const windowHours = steps.slice(1)
+    .map((_, i) => {
+      const gap = getStepGap(config, i + 1);
+      return `${gap.min_hours}..${gap.max_hours}`;
+    })
+    .join(', ');
+  
+  // Get rolling window cutoff
+  const windowStart = getWindowStart(rule, now, timeZone);
+  
+  // Filter events in window
+  const windowEvents = events.filter(e => new Date(e.occurred_at) >= windowStart);
+  
+  // Find the candidate events for every step
+  const stepEvents = steps.map(step => windowEvents.filter(e => 
+    matchesEventPattern(e, step)
+  ).sort((a, b) => new Date(a.occurred_at).getTime() - new Date(b.occurred_at).getTime()));
+  
+  let completions = 0;
+  let lastSuccess: Date | null = null;
+  let lastFail: Date | null = null;
+  let lastFailReason: string | null = null;
+  const pendingWindows: PendingWindow[] = [];
+  const completed: NormalizedEvent[][] = [];
+  const usedEvents = new Set<string>();
+  
+  if (trace) {
+    // A events whose name matches but whose filters do not never start a chain
+    windowEvents
+      .filter(e => e.event_name.toLowerCase() === steps[0].name.toLowerCase() && !matchesEventPattern(e, steps[0]))
+      .forEach(e => trace.push({
+        ...toCandidate(e, 'wrong_type'),
+        outcome: 'wrong_type',
+        steps: [],
+        note: `Does not match the filters of ${steps[0].name}`
+      }));
+  }
+  
+  // For each A event, follow the chain as far as matching events allow
+  for (const aEvent of stepEvents[0]) {
+    if (usedEvents.has(aEvent.id)) {
+      trace?.push({ ...toCandidate(aEvent, 'already_used'), outcome: 'already_used', steps: [], note: 'Part of an earlier chain' });
+      continue;
+    }
+    
+    const chain: NormalizedEvent[] = [aEvent];
+    const tracedSteps: TraceAnchor['steps'] = [];
+    let pending: { stepIndex: number; windowStart: Date; windowEnd: Date } | null = null;
+    let expired: { stepIndex: number; windowEnd: Date } | null = null;
+    
+    for (let i = 1; i < steps.length; i++) {
+      const prevTime = new Date(chain[chain.length - 1].occurred_at).getTime();
+      const gap = getStepGap(config, i);
+      const stepWindowStart = new Date(prevTime + gap.min_hours * 60 * 60 * 1000);
+      const stepWindowEnd = new Date(prevTime + gap.max_hours * 60 * 60 * 1000);
+      
+      // Find matching event for this step
+      const match = stepEvents[i].find(e => {
+        if (usedEvents.has(e.id) || chain.includes(e)) return false;
+        const t = new Date(e.occurred_at);
+        return t >= stepWindowStart && t <= stepWindowEnd;
+      });
+      
+      if (trace) {
+        tracedSteps.push({
+          step_index: i,
+          name: steps[i].name,
+          window_start: stepWindowStart.toISOString(),
+          window_end: stepWindowEnd.toISOString(),
+          candidates: traceStepCandidates(
+            windowEvents, steps[i], prevTime, stepWindowStart, stepWindowEnd, match,
+            e => usedEvents.has(e.id) || chain.includes(e)
+          )
+        });
+      }
+      
+      if (match) {
+        chain.push(match);
+      } else if (stepWindowEnd > now) {
+        pending = { stepIndex: i, windowStart: stepWindowStart, windowEnd: stepWindowEnd };
+        break;
+      } else {
+        expired = { stepIndex: i, windowEnd: stepWindowEnd };
+        break;
+      }
+    }
+    
+    const lastMatched = chain[chain.length - 1];
+    
+    if (!pending && !expired) {
+      completions++;
+      completed.push(chain);
+      chain.forEach(e => usedEvents.add(e.id));
+      lastSuccess = new Date(lastMatched.occurred_at);
+      
+      impacts.push({
+        event_id: lastMatched.id,
+        goal_rule_id: rule.id,
+        impact_type: 'window_completed',
+        impact_details: {
+          triggered_by: aEvent.id,
+          sequence: stepNames,
+          chain: chain.map(e => e.id),
+          window_hours: windowHours
+        }
+      });
+    } else if (pending) {
+      // Window for the next step is still open
+      const waitingFor = steps[pending.stepIndex].name;
+      chain.forEach(e => usedEvents.add(e.id));
+      pendingWindows.push({
+        event_a_name: steps[0].name,
+        event_a_time: aEvent.occurred_at,
+        window_start: pending.windowStart.toISOString(),
+        window_end: pending.windowEnd.toISOString(),
+        event_a_id: aEvent.id,
+        waiting_for: waitingFor,
+        step_index: pending.stepIndex,
+        total_steps: steps.length,
+        completed_steps: chain.map((e, i) => ({ name: steps[i].name, event_id: e.id, occurred_at: e.occurred_at }))
+      });
+      
+      impacts.push({
+        event_id: lastMatched.id,
+        goal_rule_id: rule.id,
+        impact_type: 'window_created',
+        impact_details: {
+          waiting_for: waitingFor,
+          step_index: pending.stepIndex,
+          window_end: pending.windowEnd.toISOString()
+        }
+      });
+    } else if (expired) {
+      // Window for the next step expired; leave matched events free for other chains
+      const expected = steps[expired.stepIndex];
+      const gap = getStepGap(config, expired.stepIndex);
+      lastFail = expired.windowEnd;
+      lastFailReason = `${expected.name} did not occur within ${gap.min_hours}-${gap.max_hours}h after ${steps[expired.stepIndex - 1].name}`;
+      
+      impacts.push({
+        event_id: lastMatched.id,
+        goal_rule_id: rule.id,
+        impact_type: 'window_expired',
+        impact_details: {
+          expected: expected.name,
+          step_index: expired.stepIndex,
+          window_end: expired.windowEnd.toISOString()
+        }
+      });
+    }
+    
+    trace?.push({
+      ...toCandidate(aEvent, 'matched'),
+      outcome: pending ? 'pending' : expired ? 'expired' : 'completed',
+      steps: tracedSteps,
+      note: pending
+        ? `Waiting for ${steps[pending.stepIndex].name}`
+        : expired ? lastFailReason : null
+    });
+  }
+  
+  // Determine status
+  let status: GoalEvaluation['status'];
+  if (completions >= rule.required_completions) {
+    status = 'completed';
+  } else if (pendingWindows.length > 0) {
+    // Check if any pending windows are close to expiring (within 1 hour)
+    const atRisk = pendingWindows.some(w => {
+      const remaining = new Date(w.window_end).getTime() - now.getTime();
+      return remaining < 60 * 60 * 1000; // Less than 1 hour remaining
+    });
+    status = atRisk ? 'at_risk' : 'on_track';
+  } else if (completions > 0) {
+    status = 'on_track';
+  } else {
+    status = 'off_track';
+  }
+  
+  return {
+    evaluation: {
+      status,
+      completions_in_window: completions,
+      pending_windows: pendingWindows,
+      last_success_at: lastSuccess?.toISOString() || null,
+      last_fail_at: lastFail?.toISOString() || null,
+      last_fail_reason: lastFailReason,
+    },
+    impacts,
+    completed
+  };
+}
+
+// Evaluate a count rule
+export function evaluateCountRule(
+  rule: GoalRule,
+  events: NormalizedEvent[],
+  now: Date,
+  timeZone = 'UTC'
+): RuleResult {
+  const config = rule.rule_config as CountConfig;
+  const impacts: DecisionImpact[] = [];
+  
+  const windowStart = getWindowStart(
+    { ...rule, rolling_window_days: config.rolling_days || rule.rolling_window_days },
+    now,
+    timeZone
+  );
+  
+  const matchingEvents = events.filter(e => 
+    new Date(e.occurred_at) >= windowStart &&
+    matchesEventPattern(e, config.event_pattern)
+  );
+  
+  const count = matchingEvents.length;
+  const required = config.required_count || rule.required_completions;
+  
+  let status: GoalEvaluation['status'];
+  if (count >= required) {
+    status = 'completed';
+  } else if (count >= required * 0.7) {
+    status = 'on_track';
+  } else if (count >= required * 0.3) {
+    status = 'at_risk';
+  } else {
+    status = 'off_track';
+  }
+  
+  return {
+    evaluation: {
+      status,
+      completions_in_window: count,
+      required_in_window: required,
+      pending_windows: [],
+      last_success_at: matchingEvents.length > 0 ? matchingEvents[matchingEvents.length - 1].occurred_at : null,
+    },
+    impacts,
+    completed: matchingEvents.map(e => [e])
+  };
+}
+
+// Evaluate an avoidance rule: each anchor's protected window must stay free of the avoided event.
+// Given a `trace`, records every anchor with its protected window and the avoided events in it.
+export function evaluateAvoidanceRule(
+  rule: GoalRule,
+  events: NormalizedEvent[],
+  now: Date,
+  timeZone = 'UTC',
+  trace?: TraceAnchor[]
+): RuleResult {
+  const config = rule.rule_config as AvoidanceConfig;
+  const impacts: DecisionImpact[] = [];
+  const hoursMs = config.hours * 60 * 60 * 1000;
+  const relation = config.direction === 'before' ? 'before' : 'after';
+  
+  const windowStart = getWindowStart(rule, now, timeZone);
+  const byTime = (a: NormalizedEvent, b: NormalizedEvent) =>
+    new Date(a.occurred_at).getTime() - new Date(b.occurred_at).getTime();
+  
+  const anchorEvents = events
+    .filter(e => new Date(e.occurred_at) >= windowStart && matchesEventPattern(e, config.anchor))
+    .sort(byTime);
+  const avoidEvents = events.filter(e => matchesEventPattern(e, config.avoid)).sort(byTime);
+  
+  let completions = 0;
+  let violations = 0;
+  let lastSuccess: Date | null = null;
+  let lastFail: Date | null = null;
+  let lastFailReason: string | null = null;
+  const pendingWindows: PendingWindow[] = [];
+  const completed: NormalizedEvent[][] = [];
+  
+  for (const anchorEvent of anchorEvents) {
+    const anchorTime = new Date(anchorEvent.occurred_at).getTime();
+    const protectedStart = new Date(relation === 'before' ? anchorTime - hoursMs : anchorTime);
+    const protectedEnd = new Date(relation === 'before' ? anchorTime : anchorTime + hoursMs);
+    
+    const inProtectedWindow = (e: NormalizedEvent) => {
+      const t = new Date(e.occurred_at);
+      return e.id !== anchorEvent.id && t >= protectedStart && t <= protectedEnd;
+    };
+    const violation = avoidEvents.find(inProtectedWindow);
+    
+    if (violation) {
+      violations++;
+      const gapHours = Math.abs(new Date(violation.occurred_at).getTime() - anchorTime) / (60 * 60 * 1000);
+      lastFail = new Date(violation.occurred_at);
+      lastFailReason = `${config.avoid.name} occurred ${gapHours.toFixed(1)}h ${relation} ${config.anchor.name} (must be at least ${config.hours}h)`;
+      
+      impacts.push({
+        event_id: violation.id,
+        goal_rule_id: rule.id,
+        impact_type: 'avoidance_violated',
+        impact_details: {
+          anchor_event_id: anchorEvent.id,
+          avoid: config.avoid.name,
+          gap_hours: Number(gapHours.toFixed(2)),
+          required_hours: config.hours
+        }
+      });
+    } else if (protectedEnd > now) {
+      // Protected window after the anchor is still running
+      pendingWindows.push({
+        event_a_name: config.anchor.name,
+        event_a_time: anchorEvent.occurred_at,
+        window_start: protectedStart.toISOString(),
+        window_end: protectedEnd.toISOString(),
+        event_a_id: anchorEvent.id,
+        avoid: config.avoid.name
+      });
+      
+      impacts.push({
+        event_id: anchorEvent.id,
+        goal_rule_id: rule.id,
+        impact_type: 'window_created',
+        impact_details: {
+          avoid: config.avoid.name,
+          window_end: protectedEnd.toISOString()
+        }
+      });
+    } else {
+      completions++;
+      completed.push([anchorEvent]);
+      lastSuccess = protectedEnd;
+      
+      impacts.push({
+        event_id: anchorEvent.id,
+        goal_rule_id: rule.id,
+        impact_type: 'window_completed',
+        impact_details: {
+          avoided: config.avoid.name,
+          window_hours: `${config.hours}h ${relation}`
+        }
+      });
+    }
+    
+    if (trace) {
+      const outcome = violation ? 'violated' : protectedEnd > now ? 'pending' : 'completed';
+      trace.push({
+        ...toCandidate(anchorEvent, 'matched'),
+        outcome,
+        steps: [{
+          step_index: 1,
+          name: config.avoid.name,
+          window_start: protectedStart.toISOString(),
+          window_end: protectedEnd.toISOString(),
+          candidates: avoidEvents.filter(inProtectedWindow).map(e => toCandidate(e, 'violation'))
+        }],
+        note: violation ? lastFailReason : outcome === 'pending' ? 'Protected window still open' : null
+      });
+    }
+  }
+  
+  // For "before" rules, a recent avoided event protects the time ahead from the anchor
+  if (relation === 'before') {
+    for (const avoidEvent of avoidEvents) {
+      const avoidTime = new Date(avoidEvent.occurred_at).getTime();
+      const protectedEnd = new Date(avoidTime + hoursMs);
+      if (protectedEnd <= now) continue;
+      if (anchorEvents.some(a => new Date(a.occurred_at).getTime() >= avoidTime)) continue;
+      
+      pendingWindows.push({
+        event_a_name: config.avoid.name,
+        event_a_time: avoidEvent.occurred_at,
+        window_start: avoidEvent.occurred_at,
+        window_end: protectedEnd.toISOString(),
+        event_a_id: avoidEvent.id,
+        avoid: config.anchor.name
+      });
+    }
+  }
+  
+  // Determine status: any violation in the window puts the goal off track
+  let status: GoalEvaluation['status'];
+  if (violations > 0) {
+    status = 'off_track';
+  } else if (completions >= rule.required_completions) {
+    status = 'completed';
+  } else if (pendingWindows.length > 0 || completions > 0) {
+    status = 'on_track';
+  } else {
+    status = 'off_track';
+  }
+  
+  return {
+    evaluation: {
+      status,
+      completions_in_window: completions,
+      pending_windows: pendingWindows,
+      last_success_at: lastSuccess?.toISOString() || null,
+      last_fail_at: lastFail?.toISOString() || null,
+      last_fail_reason: lastFailReason,
+      details: { violations }
+    },
+    impacts,
+    completed
+  };
+}
+
+// Find the most recent event satisfying a gate condition relative to a point in time
+function findGateConditionEvent(
+  condition: GateConfig['condition'],
+  events: NormalizedEvent[],
+  at: Date
+): NormalizedEvent | null {
+  const minMs = (condition.min_hours_ago || 0) * 60 * 60 * 1000;
+  const maxMs = condition.max_hours_ago !== undefined
+    ? condition.max_hours_ago * 60 * 60 * 1000
+    : Infinity;
+
+  let match: NormalizedEvent | null = null;
+  for (const e of events) {
+    if (e.event_name.toLowerCase() !== condition.event_name.toLowerCase()) continue;
+    if (condition.min_magnitude !== undefined && (e.magnitude === null || e.magnitude < condition.min_magnitude)) continue;
+    const elapsed = at.getTime() - new Date(e.occurred_at).getTime();
+    if (elapsed < minMs || elapsed > maxMs) continue;
+    if (!match || new Date(e.occurred_at) > new Date(match.occurred_at)) {
+      match = e;
+    }
+  }
+  return match;
+}
+
+// Extra days of history a rule may look at before its rolling window starts
+export function getLookbackDays(rule: GoalRule): number {
+  if (rule.rule_type === 'avoidance') {
+    return Math.ceil(((rule.rule_config as AvoidanceConfig).hours || 0) / 24);
+  }
+  if (rule.rule_type !== 'gate') return 0;
+  const maxHoursAgo = (rule.rule_config as GateConfig).condition?.max_hours_ago;
+  return maxHoursAgo !== undefined ? Math.ceil(maxHoursAgo / 24) : 1;
+}
+
+// The event pattern that starts an occurrence of a rule (what a gate is checked against)
+function getAnchorPattern(
+  rule: GoalRule,
+  rulesById: Map<string, GoalRule>
+): EventPattern | null {
+  switch (rule.rule_type) {
+    case 'sequence':
+      return (rule.rule_config as SequenceConfig).events[0] || null;
+    case 'count':
+      return (rule.rule_config as CountConfig).event_pattern;
+    case 'avoidance':
+      return (rule.rule_config as AvoidanceConfig).anchor;
+    case 'gate': {
+      const gated = rulesById.get((rule.rule_config as GateConfig).gated_rule_id);
+      return gated ? getAnchorPattern(gated, rulesById) : null;
+    }
+    default:
+      return null;
+  }
+}
+
+// The rule a gate wraps, as the gate evaluates it: under the gate's id, window and target
+export function getGatedRule(gate: GoalRule, gatedRule: GoalRule): GoalRule {
+  return {
+    ...gatedRule,
+    id: gate.id,
+    rolling_window_days: gate.rolling_window_days,
+    window_type: gate.window_type,
+    required_completions: gate.required_completions
+  };
+}
+
+// Evaluate a gate rule: the gated rule only counts occurrences whose anchor event met the condition
+export function evaluateGateRule(
+  rule: GoalRule,
+  rulesById: Map<string, GoalRule>,
+  events: NormalizedEvent[],
+  now: Date,
+  context: EvaluationContext = {}
+): RuleResult {
+  const config = rule.rule_config as GateConfig;
+  const impacts: DecisionImpact[] = [];
+  const gatedRule = rulesById.get(config.gated_rule_id);
+
+  if (!gatedRule) {
+    return {
+      evaluation: {
+        status: 'off_track',
+        completions_in_window: 0,
+        pending_windows: [],
+        last_fail_reason: `Gated rule not found: ${config.gated_rule_id}`
+      },
+      impacts
+    };
+  }
+
+  // A malformed gated rule cannot be evaluated; report it instead of failing on its config
+  const gatedErrors = validateRuleConfig(gatedRule);
+  if (gatedErrors.length > 0) {
+    return {
+      evaluation: {
+        status: 'off_track',
+        completions_in_window: 0,
+        pending_windows: [],
+        last_fail_reason: `Gated rule ${gatedRule.name} is invalid: ${gatedErrors[0]}`,
+        details: { validation_errors: gatedErrors }
+      },
+      impacts
+    };
+  }
+
+  const anchor = getAnchorPattern(gatedRule, rulesById);
+  if (!anchor) {
+    return {
+      evaluation: {
+        status: 'off_track',
+        completions_in_window: 0,
+        pending_windows: [],
+        last_fail_reason: `Gate cannot wrap a ${gatedRule.rule_type} rule`
+      },
+      impacts
+    };
+  }
+
+  const windowStart = getWindowStart(rule, now, context.timeZone);
+  const anchorEvents = events.filter(e =>
+    new Date(e.occurred_at) >= windowStart &&
+    matchesEventPattern(e, anchor)
+  );
+
+  // Close the gate on anchor events that did not meet the condition
+  const blockedEventIds = new Set<string>();
+  for (const anchorEvent of anchorEvents) {
+    const conditionEvent = findGateConditionEvent(config.condition, events, new Date(anchorEvent.occurred_at));
+
+    if (conditionEvent) {
+      impacts.push({
+        event_id: anchorEvent.id,
+        goal_rule_id: rule.id,
+        impact_type: 'gate_opened',
+        impact_details: {
+          condition_event_id: conditionEvent.id,
+          condition: config.condition.event_name,
+          gated_rule_id: gatedRule.id
+        }
+      });
+    } else {
+      blockedEventIds.add(anchorEvent.id);
+      impacts.push({
+        event_id: anchorEvent.id,
+        goal_rule_id: rule.id,
+        impact_type: 'gate_closed',
+        impact_details: {
+          condition: config.condition,
+          gated_rule_id: gatedRule.id
+        }
+      });
+    }
+  }
+
+  // Evaluate the gated rule on the remaining events, under this gate's window and target
+  const result = evaluateRule(
+    getGatedRule(rule, gatedRule),
+    rulesById,
+    events.filter(e => !blockedEventIds.has(e.id)),
+    now,
+    new Map(),
+    context
+  );
+
+  let lastFailReason = result.evaluation.last_fail_reason || null;
+  if (!lastFailReason && blockedEventIds.size > 0 && result.evaluation.status !== 'completed') {
+    lastFailReason = `${blockedEventIds.size} ${anchor.name} event(s) did not count: ${config.condition.event_name} condition not met`;
+  }
+
+  return {
+    evaluation: { ...result.evaluation, last_fail_reason: lastFailReason },
+    impacts: [...impacts, ...result.impacts],
+    completed: result.completed
+  };
+}
+
+// Evaluate a compound rule by aggregating its already-evaluated children
+export function evaluateCompoundRule(
+  rule: GoalRule,
+  rulesById: Map<string, GoalRule>,
+  childResults: Map<string, RuleResult>
+): RuleResult {
+  const config = rule.rule_config as CompoundConfig;
+  const childIds = config.child_rule_ids || [];
+
+  if (childIds.length === 0) {
+    return {
+      evaluation: {
+        status: 'off_track',
+        completions_in_window: 0,
+        pending_windows: [],
+        last_fail_reason: 'Compound rule has no child rules'
+      },
+      impacts: []
+    };
+  }
+
+  const children = childIds.map(id => {
+    const childRule = rulesById.get(id);
+    const result = childResults.get(id);
+    return {
+      rule_id: id,
+      name: childRule?.name || id,
+      status: result?.evaluation.status || 'off_track',
+      completions_in_window: result?.evaluation.completions_in_window || 0,
+      required_in_window: result?.evaluation.required_in_window ?? childRule?.required_completions ?? 1,
+      last_success_at: result?.evaluation.last_success_at || null,
+      last_fail_reason: childRule
+        ? result?.evaluation.last_fail_reason || null
+        : `Child rule not found: ${id}`,
+      pending_windows: result?.evaluation.pending_windows || []
+    };
+  });
+
+  const completedChildren = children.filter(c => c.status === 'completed');
+  const statuses = children.map(c => c.status);
+
+  // AND needs every child, OR needs any child; otherwise fall back to the worst/best child status
+  let status: GoalEvaluation['status'];
+  if (config.operator === 'OR') {
+    if (completedChildren.length > 0) status = 'completed';
+    else if (statuses.includes('on_track')) status = 'on_track';
+    else if (statuses.includes('at_risk')) status = 'at_risk';
+    else status = 'off_track';
+  } else {
+    if (completedChildren.length === children.length) status = 'completed';
+    else if (statuses.includes('off_track')) status = 'off_track';
+    else if (statuses.includes('at_risk')) status = 'at_risk';
+    else status = 'on_track';
+  }
+
+  const successTimes = completedChildren
+    .map(c => c.last_success_at)
+    .filter((t): t is string => !!t)
+    .sort();
+  const failing = children.filter(c => c.status !== 'completed');
+
+  return {
+    evaluation: {
+      status,
+      completions_in_window: completedChildren.length,
+      required_in_window: config.operator === 'OR' ? 1 : children.length,
+      pending_windows: children.flatMap(c => c.pending_windows),
+      last_success_at: status === 'completed' ? successTimes[successTimes.length - 1] || null : null,
+      last_fail_reason: status === 'completed' || failing.length === 0
+        ? null
+        : failing.map(c => `${c.name}: ${c.last_fail_reason || c.status.replace(/_/g, ' ')}`).join('; '),
+      details: {
+        operator: config.operator,
+        children: children.map(({ pending_windows, ...child }) => child)
+      }
+    },
+    impacts: []
+  };
+}
+
+function evaluateRuleByType(
+  rule: GoalRule,
+  rulesById: Map<string, GoalRule>,
+  events: NormalizedEvent[],
+  now: Date,
+  childResults: Map<string, RuleResult>,
+  context: EvaluationContext
+): RuleResult {
+  switch (rule.rule_type) {
+    case 'sequence':
+      return evaluateSequenceRule(rule, events, now, context.timeZone);
+    case 'count':
+      return evaluateCountRule(rule, events, now, context.timeZone);
+    case 'avoidance':
+      return evaluateAvoidanceRule(rule, events, now, context.timeZone);
+    case 'aggregate':
+      return evaluateAggregateRule(rule, context.trackableValues || [], now, context.timeZone);
+    case 'gate':
+      return evaluateGateRule(rule, rulesById, events, now, context);
+    case 'compound':
+      return evaluateCompoundRule(rule, rulesById, childResults);
+    default:
+      return { 
+        evaluation: { 
+          status: 'off_track', 
+          completions_in_window: 0, 
+          pending_windows: [],
+          last_fail_reason: `Unsupported rule type: ${rule.rule_type}`
+        }, 
+        impacts: [] 
+      };
+  }
+}
+
+// Evaluate any rule by dispatching on its type, under the rule's confidence policy
+export function evaluateRule(
+  rule: GoalRule,
+  rulesById: Map<string, GoalRule>,
+  events: NormalizedEvent[],
+  now: Date,
+  childResults: Map<string, RuleResult> = new Map(),
+  context: EvaluationContext = {}
+): RuleResult {
+  const ruleEvents = filterEventsByConfidence(rule, events);
+  return applyConfidencePolicy(rule, evaluateRuleByType(rule, rulesById, ruleEvents, now, childResults, context));
+}
+
+// Rules a rule needs evaluated (or resolvable) before it can be evaluated itself
+export function getRuleDependencies(rule: GoalRule): string[] {
+  switch (rule.rule_type) {
+    case 'gate':
+      return [(rule.rule_config as GateConfig).gated_rule_id];
+    case 'compound':
+      return (rule.rule_config as CompoundConfig).child_rule_ids || [];
+    default:
+      return [];
+  }
+}
+
+// Topologically order the rules reachable from `roots`, reporting any dependency cycles
+export function orderRulesByDependencies(
+  roots: GoalRule[],
+  rulesById: Map<string, GoalRule>
+): { ordered: GoalRule[]; cyclic: Map<string, string[]> } {
+  const ordered: GoalRule[] = [];
+  const cyclic = new Map<string, string[]>();
+  const state = new Map<string, 'visiting' | 'done'>();
+  const stack: string[] = [];
+
+  const visit = (rule: GoalRule) => {
+    const current = state.get(rule.id);
+    if (current === 'done') return;
+    if (current === 'visiting') {
+      const cycle = [...stack.slice(stack.indexOf(rule.id)), rule.id];
+      for (const id of cycle) cyclic.set(id, cycle);
+      return;
+    }
+
+    state.set(rule.id, 'visiting');
+    stack.push(rule.id);
+    for (const depId of getRuleDependencies(rule)) {
+      const dep = rulesById.get(depId);
+      if (dep) visit(dep);
+    }
+    stack.pop();
+    state.set(rule.id, 'done');
+    ordered.push(rule);
+  };
+
+  for (const rule of roots) visit(rule);
+  return { ordered, cyclic };
+}
+
+// Evaluate rules in dependency order so compound rules can aggregate their children
+export function evaluateRules(
+  rules: GoalRule[],
+  rulesById: Map<string, GoalRule>,
+  events: NormalizedEvent[],
+  now: Date,
+  context: EvaluationContext = {}
+): { results: Map<string, RuleResult>; validationErrors: ValidationError[] } {
+  const { ordered, cyclic } = orderRulesByDependencies(rules, rulesById);
+  const results = new Map<string, RuleResult>();
+  const validationErrors: ValidationError[] = [];
+  const pauses = context.pauses || [];
+  const today = getLocalDate(now, context.timeZone || 'UTC');
+  // Gates evaluate the rules they wrap themselves, so every rule gets its paused days left out
+  const pausedRulesById = pauses.length > 0
+    ? new Map([...rulesById].map(([id, r]) => [id, applyPauses(r, pauses, now, context.timeZone)]))
+    : rulesById;
+
+  for (const rule of ordered) {
+    // Rules in a cycle or with a malformed config are reported instead of evaluated
+    const cycle = cyclic.get(rule.id);
+    const messages = cycle
+      ? [`Dependency cycle: ${cycle.map(id => rulesById.get(id)?.name || id).join(' → ')}`]
+      : validateRuleConfig(rule);
+    if (messages.length > 0) {
+      messages.forEach(message => validationErrors.push({ rule_id: rule.id, message }));
+      results.set(rule.id, {
+        evaluation: {
+          status: 'off_track',
+          completions_in_window: 0,
+          pending_windows: [],
+          last_fail_reason: messages[0],
+          details: { validation_errors: messages }
+        },
+        impacts: []
+      });
+      continue;
+    }
+
+    const pausedRule = pausedRulesById.get(rule.id) || rule;
+    // Nothing logged on the rule's paused days counts towards it
+    const ruleEvents = dropPausedDays(rule.id, pauses, events, e => e.occurred_at, context.timeZone);
+    const ruleContext = context.trackableValues
+      ? { ...context, trackableValues: dropPausedDays(rule.id, pauses, context.trackableValues, v => v.logged_at, context.timeZone) }
+      : context;
+    const evaluated = evaluateRule(pausedRule, pausedRulesById, ruleEvents, now, results, ruleContext);
+    const result = context.history
+      ? applyForecast(pausedRule, evaluated, context.history, now, context.timeZone, results)
+      : evaluated;
+
+    // A paused goal cannot fall behind; one completed before the pause stays completed
+    const pause = findPause(rule.id, pauses, today);
+    results.set(rule.id, pause
+      ? {
+          ...result,
+          evaluation: {
+            ...result.evaluation,
+            status: result.evaluation.status === 'completed' ? 'completed' : 'on_track',
+            last_fail_reason: null,
+            details: { ...result.evaluation.details, paused: pause }
+          }
+        }
+      : result);
+  }
+
+  return { results, validationErrors };
+}
+
+// Days of event history needed to evaluate a set of rules
+export function getRequiredHistoryDays(rules: GoalRule[]): number {
+  // One extra day covers the offset between UTC and the user's local midnight
+  return Math.max(...rules.map(r => getWindowLengthDays(r) + 1 + getLookbackDays(r)), 7);
+}
+
+// Turn a rule result into a full evaluation, deriving confidence from the events it touched
+export function buildGoalEvaluation(
+  rule: GoalRule,
+  result: RuleResult,
+  events: NormalizedEvent[]
+): GoalEvaluation {
+  // Calculate average confidence from relevant events
+  const relevantEvents = events.filter(e => 
+    result.impacts.some(i => i.event_id === e.id)
+  );
+  const avgConfidence = relevantEvents.length > 0 
+    ? relevantEvents.reduce((sum, e) => sum + (e.confidence || 1), 0) / relevantEvents.length
+    : 1;
+  
+  return {
+    goal_rule_id: rule.id,
+    status: result.evaluation.status || 'off_track',
+    completions_in_window: result.evaluation.completions_in_window || 0,
+    required_in_window: result.evaluation.required_in_window ?? (rule.required_completions || 1),
+    pending_windows: result.evaluation.pending_windows || [],
+    last_success_at: result.evaluation.last_success_at || null,
+    last_fail_at: result.evaluation.last_fail_at || null,
+    last_fail_reason: result.evaluation.last_fail_reason || null,
+    confidence: avgConfidence,
+    details: result.evaluation.details || {},
+    rule_version: rule.version ?? null
+  };
+}
+
+// Evaluate every active rule, or only those in `ruleIds`. `allRules` may include inactive
+// rules referenced by gates and compounds.
+export function evaluateGoals(
+  allRules: GoalRule[],
+  events: NormalizedEvent[],
+  now: Date,
+  context: EvaluationContext = {},
+  ruleIds?: Set<string>
+): { evaluations: GoalEvaluation[]; impacts: DecisionImpact[]; validation_errors: ValidationError[] } {
+  const rulesById = new Map(allRules.map(r => [r.id, r]));
+  const rules = allRules.filter(r => r.is_active && (!ruleIds || ruleIds.has(r.id)));
+  const { results, validationErrors } = evaluateRules(rules, rulesById, events, now, context);
+  
+  const evaluations: GoalEvaluation[] = [];
+  const impacts: DecisionImpact[] = [];
+  
+  for (const rule of rules) {
+    const result = results.get(rule.id)!;
+    evaluations.push(buildGoalEvaluation(rule, result, events));
+    // Impacts can belong to a rule this one wraps, so each takes its own rule's version
+    impacts.push(...result.impacts.map(i => ({ ...i, rule_version: rulesById.get(i.goal_rule_id)?.version ?? null })));
+  }
+  
+  return { evaluations, impacts, validation_errors: validationErrors };
+}
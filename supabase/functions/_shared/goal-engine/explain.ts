@@ -0,0 +1,144 @@
+import type {
+  AggregateDay,
+  CompoundConfig,
+  CountConfig,
+  EvaluationContext,
+  GateConfig,
+  GoalRule,
+  NormalizedEvent,
+  RuleExplanation,
+  RuleResult,
+  TraceCandidate,
+  TraceVerdict,
+} from "./types.ts";
+import {
+  evaluateAvoidanceRule,
+  evaluateRules,
+  evaluateSequenceRule,
+  getGatedRule,
+} from "./evaluate.ts";
+import { matchesEventPattern } from "./predicates.ts";
+import { filterEventsByConfidence } from "./confidence.ts";
+import { getRuleEventPatterns } from "./incremental.ts";
+import { getLocalDate, getWindowStart } from "./windows.ts";
+import { applyPauses, dropPausedDays, findPause } from "./pauses.ts";
+
+const toCandidate = (e: NormalizedEvent, verdict: TraceVerdict): TraceCandidate =>
+  ({ event_id: e.id, event_name: e.event_name, occurred_at: e.occurred_at, verdict });
+
+const byTime = (a: { occurred_at: string }, b: { occurred_at: string }) =>
+  new Date(a.occurred_at).getTime() - new Date(b.occurred_at).getTime();
+
+const hasName = (e: NormalizedEvent, name: string) => e.event_name.toLowerCase() === name.toLowerCase();
+
+// Explain a rule's current evaluation: for sequence and avoidance rules every anchor event
+// and the events considered after it, for count rules the events counted and those left out,
+// for aggregate rules the daily values, and for gates and compounds the rules beneath them.
+// Statuses are those evaluateGoals reports, pauses and confidence policies included.
+export function explainRule(
+  rule: GoalRule,
+  allRules: GoalRule[],
+  events: NormalizedEvent[],
+  now: Date,
+  context: EvaluationContext = {}
+): RuleExplanation {
+  const rulesById = new Map(allRules.map(r => [r.id, r]));
+  rulesById.set(rule.id, rule);
+  const { results } = evaluateRules([rule], rulesById, events, now, context);
+  const timeZone = context.timeZone || 'UTC';
+  const pauses = context.pauses || [];
+  const today = getLocalDate(now, timeZone);
+  // Rules as evaluateRules saw them, with paused days left out of their windows
+  const withPauses = (r: GoalRule) => applyPauses(r, pauses, now, timeZone);
+
+  const explain = (target: GoalRule, targetEvents: NormalizedEvent[], result: RuleResult | undefined): RuleExplanation => {
+    // As in evaluateRules, nothing logged on the rule's paused days counts towards it
+    const ruleEvents = dropPausedDays(target.id, pauses, targetEvents, e => e.occurred_at, timeZone);
+    const windowStart = target.rule_type === 'compound'
+      ? null
+      : getWindowStart(
+          target.rule_type === 'count'
+            ? { ...target, rolling_window_days: (target.rule_config as CountConfig).rolling_days || target.rolling_window_days }
+            : target,
+          now,
+          timeZone
+        );
+    const explanation: RuleExplanation = {
+      rule_id: target.id,
+      name: target.name,
+      rule_type: target.rule_type,
+      status: result?.evaluation.status || 'off_track',
+      summary: result?.evaluation.last_fail_reason || null,
+      window_start: windowStart?.toISOString() || null,
+      paused: findPause(target.id, pauses, today),
+      anchors: [],
+      events: [],
+      days: [],
+      children: [],
+    };
+    // A malformed rule or one in a cycle was reported rather than evaluated
+    if (result?.evaluation.details?.validation_errors) return explanation;
+
+    const kept = filterEventsByConfidence(target, ruleEvents);
+    const patterns = getRuleEventPatterns(target);
+    const dropped = ruleEvents.filter(e =>
+      !kept.includes(e) &&
+      (!windowStart || new Date(e.occurred_at) >= windowStart) &&
+      patterns.some(p => matchesEventPattern(e, p))
+    );
+    explanation.events.push(...dropped.map(e => toCandidate(e, 'low_confidence')));
+
+    switch (target.rule_type) {
+      case 'sequence':
+        evaluateSequenceRule(target, kept, now, timeZone, explanation.anchors);
+        break;
+      case 'avoidance':
+        evaluateAvoidanceRule(target, kept, now, timeZone, explanation.anchors);
+        break;
+      case 'count': {
+        // Events before the window are listed back to one more window length
+        const pattern = (target.rule_config as CountConfig).event_pattern;
+        const windowMs = now.getTime() - windowStart!.getTime();
+        for (const e of kept) {
+          if (!hasName(e, pattern.name)) continue;
+          const t = new Date(e.occurred_at);
+          if (t < windowStart!) {
+            if (t.getTime() >= windowStart!.getTime() - windowMs) explanation.events.push(toCandidate(e, 'outside_window'));
+          } else {
+            explanation.events.push(toCandidate(e, matchesEventPattern(e, pattern) ? 'counted' : 'wrong_type'));
+          }
+        }
+        break;
+      }
+      case 'aggregate':
+        explanation.days = (result?.evaluation.details?.days as AggregateDay[]) || [];
+        break;
+      case 'gate': {
+        const gatedRule = rulesById.get((target.rule_config as GateConfig).gated_rule_id);
+        if (!gatedRule) break;
+        const blockedIds = new Set((result?.impacts || [])
+          .filter(i => i.impact_type === 'gate_closed' && i.goal_rule_id === target.id)
+          .map(i => i.event_id));
+        explanation.events.push(...kept.filter(e => blockedIds.has(e.id)).map(e => toCandidate(e, 'gate_closed')));
+        // The gate evaluates the wrapped rule under its own id, window and target
+        explanation.children.push({
+          ...explain(getGatedRule(target, withPauses(gatedRule)), kept.filter(e => !blockedIds.has(e.id)), result),
+          rule_id: gatedRule.id,
+        });
+        break;
+      }
+      case 'compound':
+        for (const childId of (target.rule_config as CompoundConfig).child_rule_ids || []) {
+          const child = rulesById.get(childId);
+          if (child) explanation.children.push(explain(withPauses(child), events, results.get(childId)));
+        }
+        break;
+    }
+
+    explanation.anchors.sort(byTime);
+    explanation.events.sort(byTime);
+    return explanation;
+  };
+
+  return explain(withPauses(rule), events, results.get(rule.id));
+}
@@ -0,0 +1,347 @@
+import type {
+  AvoidanceConfig,
+  CompoundConfig,
+  CountConfig,
+  EventPattern,
+  EventRate,
+  GoalEvaluation,
+  GoalForecast,
+  GoalRule,
+  NormalizedEvent,
+  RuleResult,
+  SequenceConfig,
+} from "./types.ts";
+import { matchesEventPattern } from "./predicates.ts";
+import { addDays, getLocalDate, getLocalMidnight, getTimeZoneOffset, getWindowDates, getWindowStart } from "./windows.ts";
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// Days of event history forecasts learn from
+export const FORECAST_HISTORY_DAYS = 28;
+// Below either of these a forecast is reported but does not set the status
+export const MIN_FORECAST_DAYS = 7;
+export const MIN_FORECAST_EVENTS = 5;
+
+// Forecast probability at or above which a goal counts as on track / at risk
+const ON_TRACK_PROBABILITY = 0.7;
+const AT_RISK_PROBABILITY = 0.3;
+
+// Days of history available, counted from the oldest event (capped at FORECAST_HISTORY_DAYS)
+export function getHistoryDays(history: NormalizedEvent[], now: Date): number {
+  if (history.length === 0) return 0;
+  const oldest = Math.min(...history.map(e => new Date(e.occurred_at).getTime()));
+  return Math.min(FORECAST_HISTORY_DAYS, Math.max(1, Math.ceil((now.getTime() - oldest) / DAY_MS)));
+}
+
+// How often events matching a pattern happened over the history, by local hour of day
+export function getEventRate(
+  pattern: EventPattern,
+  history: NormalizedEvent[],
+  now: Date,
+  timeZone = 'UTC'
+): EventRate {
+  const days = getHistoryDays(history, now);
+  const since = now.getTime() - days * DAY_MS;
+  const hourly = new Array(24).fill(0);
+  let total = 0;
+
+  for (const e of history) {
+    const t = new Date(e.occurred_at);
+    if (t.getTime() < since || t > now || !matchesEventPattern(e, pattern)) continue;
+    const localHour = new Date(t.getTime() + getTimeZoneOffset(t, timeZone)).getUTCHours();
+    hourly[localHour]++;
+    total++;
+  }
+
+  return {
+    total,
+    per_week: days > 0 ? (total / days) * 7 : 0,
+    hourly: hourly.map(count => (days > 0 ? count / days : 0)),
+  };
+}
+
+// Expected number of events in [from, to], following the time-of-day distribution
+export function getExpectedEvents(rate: EventRate, from: Date, to: Date, timeZone = 'UTC'): number {
+  let expected = 0;
+  let t = from.getTime();
+  const end = to.getTime();
+  while (t < end) {
+    const local = t + getTimeZoneOffset(new Date(t), timeZone);
+    const next = Math.min(end, t + (Math.floor(local / HOUR_MS) + 1) * HOUR_MS - local);
+    expected += rate.hourly[new Date(local).getUTCHours()] * (next - t) / HOUR_MS;
+    t = next;
+  }
+  return expected;
+}
+
+// Chance of at least one event in a span of the given hours, ignoring time of day
+function getChanceWithinHours(rate: EventRate, hours: number): number {
+  return 1 - Math.exp(-(rate.per_week / (7 * 24)) * hours);
+}
+
+// Chance that independent chances plus a Poisson count of extra successes reach `needed`
+export function getChanceOfAtLeast(chances: number[], poissonMean: number, needed: number): number {
+  if (needed <= 0) return 1;
+
+  // dist[k]: probability of exactly k successes from `chances`, with the last bucket meaning ≥ needed
+  let dist = [1, ...new Array(needed).fill(0)];
+  for (const p of chances) {
+    const next = new Array(needed + 1).fill(0);
+    dist.forEach((q, k) => {
+      next[Math.min(needed, k + 1)] += q * p;
+      next[k] += q * (1 - p);
+    });
+    dist = next;
+  }
+
+  const poissonAtLeast = (k: number) => {
+    let below = 0;
+    let term = Math.exp(-poissonMean);
+    for (let i = 0; i < k; i++) {
+      below += term;
+      term *= poissonMean / (i + 1);
+    }
+    return Math.max(0, 1 - below);
+  };
+
+  return dist.reduce((sum, q, k) => sum + q * poissonAtLeast(needed - k), 0);
+}
+
+// When the current window closes: the end of the calendar period, or for rolling windows
+// the end of the local day, when the oldest day drops out
+export function getForecastHorizon(rule: GoalRule, now: Date, timeZone = 'UTC'): Date {
+  const isCalendar = rule.window_type && rule.window_type !== 'rolling';
+  const dates = getWindowDates(rule, now, timeZone);
+  const lastDate = isCalendar ? dates[dates.length - 1] : getLocalDate(now, timeZone);
+  return getLocalMidnight(addDays(lastDate, 1), timeZone);
+}
+
+function describeRate(name: string, rate: EventRate): string {
+  if (rate.total === 0) return `${name}: not seen in your history`;
+  const peak = rate.hourly.indexOf(Math.max(...rate.hourly));
+  return `${name}: ~${Number(rate.per_week.toFixed(1))}/week, most often around ${String(peak).padStart(2, '0')}:00`;
+}
+
+function formatChance(p: number): string {
+  return `${Math.round(p * 100)}%`;
+}
+
+function formatLocalTime(iso: string, timeZone: string): string {
+  const t = new Date(iso);
+  return new Date(t.getTime() + getTimeZoneOffset(t, timeZone)).toISOString().slice(11, 16);
+}
+
+interface ForecastInput {
+  rule: GoalRule;
+  evaluation: Partial<GoalEvaluation>;
+  history: NormalizedEvent[];
+  now: Date;
+  timeZone: string;
+  horizon: Date;
+}
+
+// `events` is the fewest matching events behind any rate used; `sufficient` overrides the check
+type PartialForecast = Pick<GoalForecast, 'probability' | 'reasons'> & { events: number; sufficient?: boolean };
+
+function forecastCountRule({ rule, evaluation, history, now, timeZone, horizon }: ForecastInput): PartialForecast {
+  const config = rule.rule_config as CountConfig;
+  const windowed = { ...rule, rolling_window_days: config.rolling_days || rule.rolling_window_days };
+  const required = config.required_count || rule.required_completions;
+  const rate = getEventRate(config.event_pattern, history, now, timeZone);
+
+  // Events that fall out of a rolling window before the horizon no longer count
+  const droppedBefore = getWindowStart(windowed, horizon, timeZone);
+  const windowStart = getWindowStart(windowed, now, timeZone);
+  const dropping = history.filter(e => {
+    const t = new Date(e.occurred_at);
+    return t >= windowStart && t < droppedBefore && matchesEventPattern(e, config.event_pattern);
+  }).length;
+
+  // Fractional confidence leaves partial completions; the rest still take whole events
+  const needed = Math.ceil(required - ((evaluation.completions_in_window || 0) - dropping));
+  const expected = getExpectedEvents(rate, now, horizon, timeZone);
+  const reasons = [
+    describeRate(config.event_pattern.name, rate),
+    `Needs ${Math.max(0, needed)} more; ~${Number(expected.toFixed(1))} expected before the window closes`,
+  ];
+  if (dropping > 0) reasons.push(`${dropping} leave the rolling window by then`);
+
+  return { probability: getChanceOfAtLeast([], expected, needed), reasons, events: rate.total };
+}
+
+function forecastSequenceRule({ rule, evaluation, history, now, timeZone, horizon }: ForecastInput): PartialForecast {
+  const config = rule.rule_config as SequenceConfig;
+  const rates = config.events.map(step => getEventRate(step, history, now, timeZone));
+  const isCalendar = rule.window_type && rule.window_type !== 'rolling';
+  const needed = Math.ceil(rule.required_completions - (evaluation.completions_in_window || 0));
+  const reasons = config.events.map((step, i) => describeRate(step.name, rates[i]));
+
+  // Chance of finishing steps after `fromStep`, each within its gap of the one before
+  const restChance = (fromStep: number) => {
+    let chance = 1;
+    for (let i = fromStep; i < config.events.length; i++) {
+      const step = config.events[i];
+      const gapHours = (step.max_hours ?? config.max_hours) - (step.min_hours ?? config.min_hours);
+      chance *= getChanceWithinHours(rates[i], gapHours);
+    }
+    return chance;
+  };
+
+  const windowChances = (evaluation.pending_windows || [])
+    .filter(w => w.step_index !== undefined && !w.avoid)
+    .map(w => {
+      const step = w.step_index!;
+      const from = new Date(Math.max(now.getTime(), new Date(w.window_start).getTime()));
+      const windowEnd = new Date(w.window_end);
+      // A calendar window must finish the chain before the period ends
+      const to = isCalendar && horizon < windowEnd ? horizon : windowEnd;
+      const next = 1 - Math.exp(-getExpectedEvents(rates[step], from, to, timeZone));
+      const chance = next * restChance(step + 1);
+      reasons.push(`Open window for ${w.waiting_for}: ${formatChance(chance)} chance to finish`);
+      return chance;
+    });
+
+  // New chains started before the window closes
+  const newChains = getExpectedEvents(rates[0], now, horizon, timeZone) * restChance(1);
+  if (needed > windowChances.length) {
+    reasons.push(`~${Number(newChains.toFixed(1))} new ${config.events[0].name} chains expected to finish`);
+  }
+
+  return {
+    probability: getChanceOfAtLeast(windowChances, newChains, needed),
+    reasons,
+    events: Math.min(...rates.map(r => r.total)),
+  };
+}
+
+function forecastAvoidanceRule({ rule, evaluation, history, now, timeZone, horizon }: ForecastInput): PartialForecast {
+  const config = rule.rule_config as AvoidanceConfig;
+  const anchorRate = getEventRate(config.anchor, history, now, timeZone);
+  const avoidRate = getEventRate(config.avoid, history, now, timeZone);
+  const reasons = [describeRate(config.anchor.name, anchorRate), describeRate(config.avoid.name, avoidRate)];
+
+  // Every open protected window has to stay clear (of the anchor, for windows opened by an avoided event)
+  let clear = 1;
+  for (const w of evaluation.pending_windows || []) {
+    const rate = w.avoid === config.avoid.name ? avoidRate : anchorRate;
+    const chance = Math.exp(-getExpectedEvents(rate, now, new Date(w.window_end), timeZone));
+    reasons.push(`Protected until ${formatLocalTime(w.window_end, timeZone)}: ${formatChance(chance)} chance it stays clear`);
+    clear *= chance;
+  }
+
+  // Windows that are open now count once they close; new anchors add more
+  const needed = Math.ceil(rule.required_completions - (evaluation.completions_in_window || 0)
+    - (evaluation.pending_windows || []).filter(w => w.avoid === config.avoid.name).length);
+  const newWindows = getExpectedEvents(anchorRate, now, new Date(horizon.getTime() - config.hours * HOUR_MS), timeZone)
+    * (1 - getChanceWithinHours(avoidRate, config.hours));
+
+  return {
+    probability: clear * getChanceOfAtLeast([], newWindows, needed),
+    reasons,
+    events: anchorRate.total,
+  };
+}
+
+function forecastCompoundRule(rule: GoalRule, results: Map<string, RuleResult>): PartialForecast | null {
+  const config = rule.rule_config as CompoundConfig;
+  const chances: number[] = [];
+  let sufficient = true;
+  for (const id of config.child_rule_ids || []) {
+    const child = results.get(id)?.evaluation;
+    if (child?.status === 'completed') {
+      chances.push(1);
+      continue;
+    }
+    const forecast = child?.details?.forecast as GoalForecast | undefined;
+    if (!forecast) return null;
+    chances.push(forecast.probability);
+    sufficient &&= forecast.sufficient_data;
+  }
+  if (chances.length === 0) return null;
+
+  const probability = config.operator === 'OR'
+    ? 1 - chances.reduce((p, c) => p * (1 - c), 1)
+    : chances.reduce((p, c) => p * c, 1);
+  return {
+    probability,
+    reasons: [`Combined from ${chances.length} child goal forecasts (${config.operator})`],
+    events: 0,
+    sufficient,
+  };
+}
+
+function getStatusForProbability(probability: number): GoalEvaluation['status'] {
+  if (probability >= ON_TRACK_PROBABILITY) return 'on_track';
+  if (probability >= AT_RISK_PROBABILITY) return 'at_risk';
+  return 'off_track';
+}
+
+// Forecast how likely a rule is to complete by the end of its window from the user's own
+// event history. Completed goals, gates and aggregates are not forecast.
+export function forecastRule(
+  rule: GoalRule,
+  result: RuleResult,
+  history: NormalizedEvent[],
+  now: Date,
+  timeZone = 'UTC',
+  results: Map<string, RuleResult> = new Map()
+): GoalForecast | null {
+  const status = result.evaluation.status || 'off_track';
+  if (status === 'completed') return null;
+
+  const horizon = getForecastHorizon(rule, now, timeZone);
+  const input: ForecastInput = { rule, evaluation: result.evaluation, history, now, timeZone, horizon };
+
+  let forecast: PartialForecast | null;
+  switch (rule.rule_type) {
+    case 'count':
+      forecast = forecastCountRule(input);
+      break;
+    case 'sequence':
+      forecast = forecastSequenceRule(input);
+      break;
+    case 'avoidance':
+      // A violation already decides the window
+      forecast = status === 'off_track' && result.evaluation.last_fail_at ? null : forecastAvoidanceRule(input);
+      break;
+    case 'compound':
+      forecast = forecastCompoundRule(rule, results);
+      break;
+    default:
+      forecast = null;
+  }
+  if (!forecast) return null;
+
+  const historyDays = getHistoryDays(history, now);
+  return {
+    probability: Number(Math.min(1, Math.max(0, forecast.probability)).toFixed(3)),
+    horizon_end: horizon.toISOString(),
+    history_days: historyDays,
+    sufficient_data: forecast.sufficient ?? (historyDays >= MIN_FORECAST_DAYS && forecast.events >= MIN_FORECAST_EVENTS),
+    heuristic_status: status,
+    reasons: forecast.reasons,
+  };
+}
+
+// Attach a forecast to a rule result; with enough data it also sets the status
+export function applyForecast(
+  rule: GoalRule,
+  result: RuleResult,
+  history: NormalizedEvent[],
+  now: Date,
+  timeZone = 'UTC',
+  results: Map<string, RuleResult> = new Map()
+): RuleResult {
+  const forecast = forecastRule(rule, result, history, now, timeZone, results);
+  if (!forecast) return result;
+
+  return {
+    ...result,
+    evaluation: {
+      ...result.evaluation,
+      status: forecast.sufficient_data ? getStatusForProbability(forecast.probability) : forecast.heuristic_status,
+      details: { ...result.evaluation.details, forecast }
+    }
+  };
+}
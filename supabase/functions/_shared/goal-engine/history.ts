@@ -0,0 +1,41 @@
+import type { HistoryEvaluation, StatusHistoryDay } from "./types.ts";
+import { getLocalDate } from "./windows.ts";
+
+// Collapse stored evaluations (any order) into one entry per local day, keeping the
+// day's last evaluation and marking the days on which the status changed
+export function buildStatusHistory(evaluations: HistoryEvaluation[], timeZone = 'UTC'): StatusHistoryDay[] {
+  const sorted = [...evaluations].sort(
+    (a, b) => new Date(a.evaluated_at).getTime() - new Date(b.evaluated_at).getTime()
+  );
+
+  const days: StatusHistoryDay[] = [];
+  let previous: HistoryEvaluation | null = null;
+
+  for (const evaluation of sorted) {
+    const date = getLocalDate(new Date(evaluation.evaluated_at), timeZone);
+    let day = days[days.length - 1];
+    if (!day || day.date !== date) {
+      day = {
+        date,
+        status: evaluation.status,
+        completions_in_window: 0,
+        required_in_window: 0,
+        previous_status: null,
+        changed_at: null
+      };
+      days.push(day);
+    }
+
+    day.status = evaluation.status;
+    day.completions_in_window = evaluation.completions_in_window;
+    day.required_in_window = evaluation.required_in_window;
+
+    if (previous && previous.status !== evaluation.status && !day.changed_at) {
+      day.previous_status = previous.status;
+      day.changed_at = evaluation.evaluated_at;
+    }
+    previous = evaluation;
+  }
+
+  return days;
+}
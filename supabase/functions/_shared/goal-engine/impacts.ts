@@ -0,0 +1,48 @@
+import type { DecisionImpact, EvaluationContext, GoalRule, NormalizedEvent } from "./types.ts";
+import { evaluateGoals } from "./evaluate.ts";
+
+// Impacts are unique per (event, rule, impact_type)
+export function getImpactKey(impact: Pick<DecisionImpact, 'event_id' | 'goal_rule_id' | 'impact_type'>): string {
+  return `${impact.event_id}:${impact.goal_rule_id}:${impact.impact_type}`;
+}
+
+// Drop repeated impacts, keeping the last one seen for each key
+export function dedupeImpacts(impacts: DecisionImpact[]): DecisionImpact[] {
+  return [...new Map(impacts.map(i => [getImpactKey(i), i])).values()];
+}
+
+// Rebuild the impacts of events that occurred in [from, to] by replaying the evaluator at
+// every time they could change: as each event in the range occurs, as each window left
+// pending closes, and at `to`. Windows that opened and later completed or expired both
+// show up. `events` must also cover the history the rules look back over before `from`.
+export function collectImpactsOverRange(
+  allRules: GoalRule[],
+  events: NormalizedEvent[],
+  from: Date,
+  to: Date,
+  context: EvaluationContext = {}
+): DecisionImpact[] {
+  const inRange = events.filter(e => new Date(e.occurred_at) >= from && new Date(e.occurred_at) <= to);
+  const inRangeIds = new Set(inRange.map(e => e.id));
+  const checkpoints = [...new Set([...inRange.map(e => new Date(e.occurred_at).getTime()), to.getTime()])]
+    .sort((a, b) => a - b);
+  const impacts: DecisionImpact[] = [];
+
+  for (let i = 0; i < checkpoints.length; i++) {
+    const checkpoint = new Date(checkpoints[i]);
+    const known = events.filter(e => new Date(e.occurred_at) <= checkpoint);
+    const result = evaluateGoals(allRules, known, checkpoint, context);
+    impacts.push(...result.impacts.filter(impact => inRangeIds.has(impact.event_id)));
+
+    // Come back when each open window closes, to see it expire or complete
+    for (const window of result.evaluations.flatMap(e => e.pending_windows || [])) {
+      const end = new Date(window.window_end).getTime();
+      if (end > checkpoints[i] && end < to.getTime() && !checkpoints.includes(end)) {
+        checkpoints.push(end);
+        checkpoints.sort((a, b) => a - b);
+      }
+    }
+  }
+
+  return dedupeImpacts(impacts);
+}
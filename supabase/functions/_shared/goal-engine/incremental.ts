@@ -0,0 +1,77 @@
+import type {
+  AvoidanceConfig,
+  CountConfig,
+  EventPattern,
+  GateConfig,
+  GoalEvaluation,
+  GoalRule,
+  NormalizedEvent,
+  SequenceConfig,
+} from "./types.ts";
+import { getRuleDependencies } from "./evaluate.ts";
+
+// Event patterns a rule reads directly; compound rules read their children and aggregate
+// rules read trackable values, so neither has any
+export function getRuleEventPatterns(rule: GoalRule): EventPattern[] {
+  switch (rule.rule_type) {
+    case 'sequence':
+      return (rule.rule_config as SequenceConfig).events || [];
+    case 'count':
+      return [(rule.rule_config as CountConfig).event_pattern];
+    case 'avoidance': {
+      const config = rule.rule_config as AvoidanceConfig;
+      return [config.anchor, config.avoid];
+    }
+    case 'gate':
+      return [{ name: (rule.rule_config as GateConfig).condition.event_name }];
+    default:
+      return [];
+  }
+}
+
+// IDs of the rules an event can change: rules with a pattern of the same name and type,
+// plus every gate and compound that depends on one of them. Magnitude, confidence and
+// metadata filters are ignored so the result errs on the side of re-evaluating.
+export function getAffectedRuleIds(
+  event: Pick<NormalizedEvent, 'event_name' | 'event_type'>,
+  rules: GoalRule[]
+): Set<string> {
+  const affected = new Set(
+    rules
+      .filter(rule => getRuleEventPatterns(rule).some(pattern =>
+        pattern.name.toLowerCase() === event.event_name.toLowerCase() &&
+        (!pattern.type || pattern.type === event.event_type)
+      ))
+      .map(rule => rule.id)
+  );
+
+  let grew = true;
+  while (grew) {
+    grew = false;
+    for (const rule of rules) {
+      if (!affected.has(rule.id) && getRuleDependencies(rule).some(id => affected.has(id))) {
+        affected.add(rule.id);
+        grew = true;
+      }
+    }
+  }
+
+  return affected;
+}
+
+type ComparableEvaluation = Pick<GoalEvaluation, 'status' | 'completions_in_window' | 'required_in_window' | 'pending_windows' | 'rule_version'>;
+
+// Whether a new evaluation differs enough from the stored one to be worth a row. Open
+// windows count too: the UI reads them from the latest row to show what is pending. So
+// does the rule version, so the first evaluation after an edit records the new version.
+export function hasEvaluationChanged(previous: ComparableEvaluation | null, next: ComparableEvaluation): boolean {
+  const windowKeys = (evaluation: ComparableEvaluation) =>
+    (evaluation.pending_windows || []).map(w => `${w.event_a_id}:${w.window_end}:${w.step_index ?? ''}`).sort().join('|');
+
+  return !previous ||
+    previous.status !== next.status ||
+    previous.completions_in_window !== next.completions_in_window ||
+    previous.required_in_window !== next.required_in_window ||
+    (previous.rule_version ?? null) !== (next.rule_version ?? null) ||
+    windowKeys(previous) !== windowKeys(next);
+}
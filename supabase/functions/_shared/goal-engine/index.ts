@@ -0,0 +1,23 @@
+export * from "./types.ts";
+export * from "./evaluate.ts";
+export * from "./predicates.ts";
+export * from "./aggregate.ts";
+export * from "./streaks.ts";
+export * from "./windows.ts";
+export * from "./history.ts";
+export * from "./incremental.ts";
+export * from "./impacts.ts";
+export * from "./counterfactual.ts";
+export * from "./planner.ts";
+export * from "./forecast.ts";
+export * from "./confidence.ts";
+export * from "./bundle.ts";
+export * from "./templates.ts";
+export * from "./dsl.ts";
+export * from "./validation.ts";
+export * from "./lint.ts";
+export * from "./backtest.ts";
+export * from "./versions.ts";
+export * from "./pauses.ts";
+export * from "./notifications.ts";
+export * from "./explain.ts";
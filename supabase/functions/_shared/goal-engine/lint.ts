@@ -0,0 +1,133 @@
+import type {
+  AggregateConfig,
+  AvoidanceConfig,
+  CountConfig,
+  GoalRule,
+  RuleLint,
+  SequenceConfig,
+} from "./types.ts";
+import { getRuleDependencies, orderRulesByDependencies } from "./evaluate.ts";
+import { getRuleEventPatterns } from "./incremental.ts";
+import { validateRuleConfig } from "./validation.ts";
+import { getWindowLengthDays } from "./windows.ts";
+
+type Lint = Omit<RuleLint, 'rule_id'>;
+
+// Distinct event names the rules read, to look up which have been recorded. Rules whose
+// config does not type-check are skipped.
+export function getLintEventNames(rules: GoalRule[]): string[] {
+  const names = new Map<string, string>();
+  for (const rule of rules) {
+    if (validateRuleConfig(rule).length > 0) continue;
+    for (const pattern of getRuleEventPatterns(rule)) names.set(pattern.name.toLowerCase(), pattern.name);
+  }
+  return [...names.values()];
+}
+
+// Windows and required counts the rule's own window cannot hold
+function lintWindow(rule: GoalRule): Lint[] {
+  const days = getWindowLengthDays(rule);
+  const windowHours = days * 24;
+  const lints: Lint[] = [];
+
+  switch (rule.rule_type) {
+    case 'sequence': {
+      const config = rule.rule_config as SequenceConfig;
+      const gaps = config.events.slice(1);
+      const minSpan = gaps.reduce((sum, step) => sum + (step.min_hours ?? config.min_hours), 0);
+      const maxSpan = gaps.reduce((sum, step) => sum + (step.max_hours ?? config.max_hours), 0);
+      if (minSpan > windowHours) {
+        lints.push({
+          severity: 'warning',
+          code: 'unreachable_count',
+          message: `The sequence takes at least ${minSpan}h, so it can never complete in the ${days}-day window`,
+        });
+      } else if (maxSpan > windowHours) {
+        lints.push({
+          severity: 'warning',
+          code: 'window_too_long',
+          message: `The sequence can take up to ${maxSpan}h, longer than the ${days}-day window`,
+        });
+      }
+      break;
+    }
+    case 'count': {
+      const config = rule.rule_config as CountConfig;
+      const isRolling = !rule.window_type || rule.window_type === 'rolling';
+      if (isRolling && config.rolling_days && config.rolling_days > rule.rolling_window_days) {
+        lints.push({
+          severity: 'warning',
+          code: 'window_too_long',
+          message: `Counts over ${config.rolling_days} days, but only the ${rule.rolling_window_days}-day window of events is loaded`,
+        });
+      }
+      break;
+    }
+    case 'avoidance': {
+      const config = rule.rule_config as AvoidanceConfig;
+      if (config.hours > windowHours) {
+        lints.push({
+          severity: 'warning',
+          code: 'window_too_long',
+          message: `Keeps ${config.hours}h ${config.direction} each ${config.anchor.name} clear, longer than the ${days}-day window`,
+        });
+      }
+      break;
+    }
+    case 'aggregate': {
+      const config = rule.rule_config as AggregateConfig;
+      if (config.required_days && config.required_days > days) {
+        lints.push({
+          severity: 'warning',
+          code: 'unreachable_count',
+          message: `Needs ${config.required_days} days but the window only has ${days}`,
+        });
+      }
+      break;
+    }
+  }
+
+  return lints;
+}
+
+// Check rules for problems beyond what evaluation reports. References resolve against
+// `allRules`; event names are checked when `knownEventNames` (case-insensitive) is given.
+export function lintRules(
+  rules: GoalRule[],
+  allRules: GoalRule[] = rules,
+  knownEventNames?: string[]
+): RuleLint[] {
+  const rulesById = new Map(allRules.map(r => [r.id, r]));
+  const known = knownEventNames && new Set(knownEventNames.map(n => n.toLowerCase()));
+  const lints: RuleLint[] = [];
+
+  for (const rule of rules) {
+    const add = (lint: Lint) => lints.push({ rule_id: rule.id, ...lint });
+
+    // Later checks read the config, so a rule that does not type-check stops here
+    const configErrors = validateRuleConfig(rule);
+    if (configErrors.length > 0) {
+      configErrors.forEach(message => add({ severity: 'error', code: 'invalid_config', message }));
+      continue;
+    }
+
+    const missing = getRuleDependencies(rule).filter(id => !rulesById.has(id));
+    missing.forEach(id => add({ severity: 'error', code: 'dangling_reference', message: `References a rule that does not exist (${id})` }));
+    if (missing.length === 0) {
+      const cycle = orderRulesByDependencies([rule], rulesById).cyclic.get(rule.id);
+      if (cycle) {
+        const names = cycle.map(id => rulesById.get(id)?.name || id).join(' → ');
+        add({ severity: 'error', code: 'dependency_cycle', message: `Dependency cycle: ${names}` });
+      }
+    }
+
+    if (known) {
+      const unknown = new Set(getRuleEventPatterns(rule).map(p => p.name).filter(name => !known.has(name.toLowerCase())));
+      unknown.forEach(name => add({ severity: 'warning', code: 'unknown_event', message: `No "${name}" events have been recorded` }));
+    }
+
+    lintWindow(rule).forEach(add);
+  }
+
+  return lints;
+}
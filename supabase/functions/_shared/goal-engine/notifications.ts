@@ -0,0 +1,65 @@
+import type { GoalEvaluation, GoalNotification, GoalRule } from "./types.ts";
+import { getLocalDate } from "./windows.ts";
+
+// A pending window is reported as about to close this many hours before it does
+export const WINDOW_CLOSING_HOURS = 2;
+
+const humanize = (name: string) => name.replace(/_/g, ' ');
+
+// Notifications for evaluations that need attention: a goal that turned at risk since its
+// previous evaluation (at most once a day) and pending windows about to close (once each).
+// Paused goals and protected (avoidance) windows, which should close, raise nothing.
+export function detectNotifications(
+  rules: GoalRule[],
+  previous: Map<string, Pick<GoalEvaluation, 'status'>>,
+  evaluations: GoalEvaluation[],
+  now: Date,
+  timeZone = 'UTC',
+  closingWithinHours = WINDOW_CLOSING_HOURS
+): GoalNotification[] {
+  const rulesById = new Map(rules.map(r => [r.id, r]));
+  const today = getLocalDate(now, timeZone);
+  const notifications: GoalNotification[] = [];
+
+  for (const evaluation of evaluations) {
+    const rule = rulesById.get(evaluation.goal_rule_id);
+    if (!rule || evaluation.details?.paused) continue;
+
+    if (evaluation.status === 'at_risk' && previous.get(rule.id)?.status !== 'at_risk') {
+      notifications.push({
+        goal_rule_id: rule.id,
+        kind: 'at_risk',
+        title: `${rule.name} is at risk`,
+        body: evaluation.last_fail_reason ||
+          `${evaluation.completions_in_window} of ${evaluation.required_in_window} done in this window`,
+        details: {
+          previous_status: previous.get(rule.id)?.status || null,
+          completions_in_window: evaluation.completions_in_window,
+          required_in_window: evaluation.required_in_window,
+        },
+        dedupe_key: `at_risk:${rule.id}:${today}`,
+      });
+    }
+
+    for (const window of evaluation.pending_windows || []) {
+      if (window.avoid) continue;
+      const remaining = new Date(window.window_end).getTime() - now.getTime();
+      if (remaining <= 0 || remaining > closingWithinHours * 60 * 60 * 1000) continue;
+      const waitingFor = window.waiting_for || window.event_a_name;
+      notifications.push({
+        goal_rule_id: rule.id,
+        kind: 'window_closing',
+        title: `${rule.name}: window closing`,
+        body: `Log ${humanize(waitingFor)} before the window after ${humanize(window.event_a_name)} closes`,
+        details: {
+          waiting_for: waitingFor,
+          event_a_id: window.event_a_id,
+          window_end: window.window_end,
+        },
+        dedupe_key: `window_closing:${rule.id}:${window.event_a_id}:${window.step_index ?? 1}`,
+      });
+    }
+  }
+
+  return notifications;
+}
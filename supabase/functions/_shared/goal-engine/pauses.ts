@@ -0,0 +1,86 @@
+import type { AggregateConfig, CountConfig, GoalPause, GoalRule } from "./types.ts";
+import { addDays, getLocalDate, getWindowDates } from "./windows.ts";
+
+// Longest a rolling window is stretched back over paused days
+const MAX_PAUSE_EXTENSION_DAYS = 366;
+
+// Pauses that apply to a rule: its own and those covering every goal
+export function getRulePauses<T extends GoalPause>(ruleId: string, pauses: T[]): T[] {
+  return pauses.filter(p => p.goal_rule_id === null || p.goal_rule_id === ruleId);
+}
+
+// The pause covering a rule on a local date, if any
+export function findPause(ruleId: string, pauses: GoalPause[], localDate: string): GoalPause | null {
+  return getRulePauses(ruleId, pauses).find(p => p.starts_on <= localDate && localDate <= p.ends_on) || null;
+}
+
+const prorate = (required: number, active: number, total: number) => Math.ceil(required * active / total);
+
+// Leave out what was logged on a rule's paused days, so it counts towards neither the
+// stretched window nor the scaled target; `at` gives each item's time
+export function dropPausedDays<T>(
+  ruleId: string,
+  pauses: GoalPause[],
+  items: T[],
+  at: (item: T) => string,
+  timeZone = 'UTC'
+): T[] {
+  if (getRulePauses(ruleId, pauses).length === 0) return items;
+  return items.filter(item => !findPause(ruleId, pauses, getLocalDate(new Date(at(item)), timeZone)));
+}
+
+// Leave paused days out of a rule's window (dropPausedDays leaves out what was logged on
+// them). Rolling windows stretch back until they hold as many unpaused days as they are
+// long. Calendar windows cannot move, so their required counts shrink in proportion to
+// the unpaused days left in the period; a period paused throughout keeps its counts, as
+// the evaluation is then reported as paused instead.
+export function applyPauses(
+  rule: GoalRule,
+  pauses: GoalPause[],
+  now: Date,
+  timeZone = 'UTC'
+): GoalRule {
+  const rulePauses = getRulePauses(rule.id, pauses);
+  if (rulePauses.length === 0) return rule;
+  const isPaused = (date: string) => rulePauses.some(p => p.starts_on <= date && date <= p.ends_on);
+  const today = getLocalDate(now, timeZone);
+
+  if (!rule.window_type || rule.window_type === 'rolling') {
+    const stretch = (days: number) => {
+      let length = 0;
+      for (let active = 0; active < days && length < days + MAX_PAUSE_EXTENSION_DAYS; length++) {
+        if (!isPaused(addDays(today, -length))) active++;
+      }
+      return length;
+    };
+    const rollingWindowDays = stretch(rule.rolling_window_days);
+    let ruleConfig = rule.rule_config;
+    if (rule.rule_type === 'count') {
+      const config = rule.rule_config as CountConfig;
+      if (config.rolling_days) ruleConfig = { ...config, rolling_days: stretch(config.rolling_days) };
+    } else if (rule.rule_type === 'aggregate' && rollingWindowDays > rule.rolling_window_days) {
+      // Without required_days every day counts, which would now include the paused ones
+      const config = rule.rule_config as AggregateConfig;
+      ruleConfig = { ...config, required_days: config.required_days || rule.rolling_window_days };
+    }
+    return { ...rule, rolling_window_days: rollingWindowDays, rule_config: ruleConfig };
+  }
+
+  const dates = getWindowDates(rule, now, timeZone);
+  const active = dates.filter(date => !isPaused(date)).length;
+  if (active === dates.length || active === 0) return rule;
+
+  let ruleConfig = rule.rule_config;
+  if (rule.rule_type === 'count') {
+    const config = rule.rule_config as CountConfig;
+    if (config.required_count) ruleConfig = { ...config, required_count: prorate(config.required_count, active, dates.length) };
+  } else if (rule.rule_type === 'aggregate') {
+    const config = rule.rule_config as AggregateConfig;
+    ruleConfig = { ...config, required_days: prorate(config.required_days || dates.length, active, dates.length) };
+  }
+  return {
+    ...rule,
+    required_completions: prorate(rule.required_completions, active, dates.length),
+    rule_config: ruleConfig,
+  };
+}
@@ -0,0 +1,160 @@
+import type {
+  ActionPlan,
+  EvaluationContext,
+  EventPattern,
+  GateConfig,
+  GoalEvaluation,
+  GoalRule,
+  NormalizedEvent,
+  PendingWindow,
+  PlanSegment,
+  SequenceConfig,
+} from "./types.ts";
+import { evaluateGoals } from "./evaluate.ts";
+
+const MINUTE_MS = 60 * 1000;
+const MAX_SAMPLES = 96;
+
+const STATUS_RANK: Record<GoalEvaluation['status'], number> = {
+  off_track: 0,
+  at_risk: 1,
+  on_track: 2,
+  completed: 3,
+};
+
+// Pattern of the step a sequence (possibly behind a gate) is waiting on
+function getWaitingPattern(
+  rule: GoalRule,
+  rulesById: Map<string, GoalRule>,
+  window: PendingWindow
+): EventPattern {
+  if (rule.rule_type === 'sequence' && window.step_index !== undefined) {
+    const step = (rule.rule_config as SequenceConfig).events[window.step_index];
+    if (step) return step;
+  }
+  if (rule.rule_type === 'gate') {
+    const gated = rulesById.get((rule.rule_config as GateConfig).gated_rule_id);
+    if (gated && gated.rule_type !== 'gate') return getWaitingPattern(gated, rulesById, window);
+  }
+  return { name: window.waiting_for! };
+}
+
+// A hypothetical event at `time` that satisfies the pattern's filters
+function buildPlannedEvent(pattern: EventPattern, events: NormalizedEvent[], time: Date): NormalizedEvent {
+  const previous = [...events].reverse().find(e => e.event_name.toLowerCase() === pattern.name.toLowerCase());
+  const metadata: Record<string, unknown> = {};
+  for (const predicate of pattern.metadata || []) {
+    if (predicate.op === 'eq' || predicate.op === 'gte' || predicate.op === 'lte') {
+      metadata[predicate.key] = predicate.value;
+    }
+  }
+  return {
+    id: 'planned',
+    event_type: pattern.type || previous?.event_type || 'planned',
+    event_name: pattern.name,
+    occurred_at: time.toISOString(),
+    magnitude: pattern.min_magnitude ?? pattern.max_magnitude ?? previous?.magnitude ?? null,
+    confidence: 1,
+    metadata,
+    source_type: 'planned',
+    source_id: null
+  };
+}
+
+// Compare every active rule at `time` with and without the planned event
+function getOutcome(
+  allRules: GoalRule[],
+  events: NormalizedEvent[],
+  planned: NormalizedEvent,
+  time: Date,
+  context: EvaluationContext
+): { completes: string[]; at_risk: string[] } {
+  const known = events.filter(e => new Date(e.occurred_at) <= time);
+  const baseline = new Map(
+    evaluateGoals(allRules, known, time, context).evaluations.map(e => [e.goal_rule_id, e])
+  );
+  const simulated = evaluateGoals(allRules, [...known, planned], time, context).evaluations;
+
+  const completes: string[] = [];
+  const atRisk: string[] = [];
+  for (const sim of simulated) {
+    const base = baseline.get(sim.goal_rule_id);
+    if (!base) continue;
+    if (sim.completions_in_window > base.completions_in_window) completes.push(sim.goal_rule_id);
+    if (STATUS_RANK[sim.status] < STATUS_RANK[base.status]) atRisk.push(sim.goal_rule_id);
+  }
+  return { completes, at_risk: atRisk };
+}
+
+// Plan the next event of every open sequence window: sample times across the rest of the
+// window, evaluate all active rules at each, and group neighbouring samples with the same
+// outcome into segments
+export function planActions(
+  allRules: GoalRule[],
+  events: NormalizedEvent[],
+  now: Date,
+  context: EvaluationContext = {},
+  stepMinutes = 15
+): ActionPlan[] {
+  const rulesById = new Map(allRules.map(r => [r.id, r]));
+  const { evaluations } = evaluateGoals(allRules, events, now, context);
+  const plans: ActionPlan[] = [];
+  const planned = new Set<string>();
+
+  // A compound's windows are copies of its children's, so plan them from the child when it
+  // is active (it knows the step's type and filters) and only once
+  const isCompound = (e: GoalEvaluation) => rulesById.get(e.goal_rule_id)!.rule_type === 'compound';
+  const ordered = [...evaluations].sort((a, b) => Number(isCompound(a)) - Number(isCompound(b)));
+
+  for (const evaluation of ordered) {
+    const rule = rulesById.get(evaluation.goal_rule_id)!;
+
+    for (const window of evaluation.pending_windows) {
+      // Protected (avoidance) windows say what not to do; only plan windows waiting on a step
+      if (window.avoid || !window.waiting_for) continue;
+      const key = `${window.event_a_id}:${window.step_index}:${window.waiting_for}:${window.window_end}`;
+      if (planned.has(key)) continue;
+      planned.add(key);
+
+      const start = Math.max(now.getTime(), new Date(window.window_start).getTime());
+      const end = new Date(window.window_end).getTime();
+      if (end < start) continue;
+
+      const pattern = getWaitingPattern(rule, rulesById, window);
+      const step = Math.max(stepMinutes * MINUTE_MS, (end - start) / MAX_SAMPLES);
+      const segments: PlanSegment[] = [];
+
+      for (let time = start; time <= end; time += step) {
+        const at = new Date(time);
+        const outcome = getOutcome(allRules, events, buildPlannedEvent(pattern, events, at), at, context);
+        const last = segments[segments.length - 1];
+        if (last && last.completes.join() === outcome.completes.join() && last.at_risk.join() === outcome.at_risk.join()) {
+          last.end = at.toISOString();
+        } else {
+          segments.push({ start: at.toISOString(), end: at.toISOString(), ...outcome });
+        }
+      }
+
+      const best = [...segments].sort((a, b) =>
+        (b.completes.length - b.at_risk.length) - (a.completes.length - a.at_risk.length) ||
+        a.at_risk.length - b.at_risk.length
+      )[0];
+
+      plans.push({
+        rule_id: rule.id,
+        event_a_id: window.event_a_id,
+        event_name: pattern.name,
+        window_start: window.window_start,
+        window_end: window.window_end,
+        earliest: best?.start || null,
+        latest: best?.end || null,
+        completes: best?.completes || [],
+        at_risk: best?.at_risk || [],
+        segments
+      });
+    }
+  }
+
+  // Most urgent first
+  return plans.sort((a, b) => new Date(a.window_end).getTime() - new Date(b.window_end).getTime());
+}
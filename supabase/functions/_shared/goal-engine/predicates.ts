@@ -0,0 +1,106 @@
+import type { EventPattern, MetadataOperator, MetadataPredicate, NormalizedEvent } from "./types.ts";
+
+type EventFilters = Omit<EventPattern, 'name' | 'type'>;
+
+const OPERATOR_SYMBOLS: Record<MetadataOperator, string> = {
+  eq: '=',
+  neq: '!=',
+  gt: '>',
+  gte: '>=',
+  lt: '<',
+  lte: '<=',
+};
+
+// Read a dot-separated path out of event metadata
+function getMetadataValue(metadata: Record<string, unknown> | null, key: string): unknown {
+  let value: unknown = metadata;
+  for (const part of key.split('.')) {
+    if (value === null || typeof value !== 'object') return undefined;
+    value = (value as Record<string, unknown>)[part];
+  }
+  return value;
+}
+
+function matchesMetadataPredicate(event: NormalizedEvent, predicate: MetadataPredicate): boolean {
+  const actual = getMetadataValue(event.metadata, predicate.key);
+  if (actual === undefined || actual === null) return predicate.op === 'neq';
+
+  if (predicate.op === 'eq' || predicate.op === 'neq') {
+    // Strings compare case-insensitively, like event names
+    const equal = String(actual).toLowerCase() === String(predicate.value).toLowerCase();
+    return predicate.op === 'eq' ? equal : !equal;
+  }
+
+  const a = Number(actual);
+  const b = Number(predicate.value);
+  if (Number.isNaN(a) || Number.isNaN(b)) return false;
+
+  switch (predicate.op) {
+    case 'gt': return a > b;
+    case 'gte': return a >= b;
+    case 'lt': return a < b;
+    case 'lte': return a <= b;
+  }
+}
+
+// Whether an event matches a pattern's name, type, magnitude, confidence and metadata filters
+export function matchesEventPattern(event: NormalizedEvent, pattern: EventPattern): boolean {
+  if (event.event_name.toLowerCase() !== pattern.name.toLowerCase()) return false;
+  if (pattern.type && event.event_type !== pattern.type) return false;
+
+  if (pattern.min_magnitude !== undefined && (event.magnitude === null || event.magnitude < pattern.min_magnitude)) return false;
+  if (pattern.max_magnitude !== undefined && (event.magnitude === null || event.magnitude > pattern.max_magnitude)) return false;
+  if (pattern.min_confidence !== undefined && (event.confidence ?? 1) < pattern.min_confidence) return false;
+
+  return (pattern.metadata || []).every(p => matchesMetadataPredicate(event, p));
+}
+
+// Render a pattern's filters as text, e.g. "intensity = heavy, magnitude >= 5"
+export function formatEventFilters(pattern: EventPattern): string {
+  const parts: string[] = [];
+  if (pattern.min_magnitude !== undefined) parts.push(`magnitude >= ${pattern.min_magnitude}`);
+  if (pattern.max_magnitude !== undefined) parts.push(`magnitude <= ${pattern.max_magnitude}`);
+  if (pattern.min_confidence !== undefined) parts.push(`confidence >= ${pattern.min_confidence}`);
+  for (const p of pattern.metadata || []) {
+    parts.push(`${p.key} ${OPERATOR_SYMBOLS[p.op]} ${p.value}`);
+  }
+  return parts.join(', ');
+}
+
+// Parse the text produced by formatEventFilters back into pattern filters
+export function parseEventFilters(text: string): { filters: EventFilters; error: string | null } {
+  const filters: EventFilters = {};
+  const metadata: MetadataPredicate[] = [];
+
+  for (const clause of text.split(',').map(c => c.trim()).filter(Boolean)) {
+    const match = clause.match(/^([\w.]+)\s*(!=|>=|<=|=|>|<)\s*(.+)$/);
+    if (!match) {
+      return { filters: {}, error: `Cannot parse filter "${clause}" (expected e.g. "intensity = heavy")` };
+    }
+
+    const [, key, symbol, rawValue] = match;
+    const op = (Object.keys(OPERATOR_SYMBOLS) as MetadataOperator[]).find(o => OPERATOR_SYMBOLS[o] === symbol)!;
+    const numeric = Number(rawValue);
+    const value = rawValue === 'true' || rawValue === 'false'
+      ? rawValue === 'true'
+      : Number.isNaN(numeric) ? rawValue.trim() : numeric;
+
+    if (key === 'magnitude' || key === 'confidence') {
+      if (typeof value !== 'number') {
+        return { filters: {}, error: `${key} must be compared with a number` };
+      }
+      if (key === 'magnitude' && op === 'gte') filters.min_magnitude = value;
+      else if (key === 'magnitude' && op === 'lte') filters.max_magnitude = value;
+      else if (key === 'confidence' && op === 'gte') filters.min_confidence = value;
+      else {
+        return { filters: {}, error: key === 'magnitude' ? 'magnitude supports >= and <= only' : 'confidence supports >= only' };
+      }
+      continue;
+    }
+
+    metadata.push({ key, op, value });
+  }
+
+  if (metadata.length > 0) filters.metadata = metadata;
+  return { filters, error: null };
+}
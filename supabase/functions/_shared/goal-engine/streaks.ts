@@ -0,0 +1,91 @@
+import type { BrokenStreak, GoalPause, GoalRule, GoalStreak, StreakEvaluation } from "./types.ts";
+import { addDays, getIsoWeekStart, getLocalDate } from "./windows.ts";
+
+// Rules judged over a week or more keep weekly streaks; shorter windows keep daily ones
+export function getStreakUnit(rule: Pick<GoalRule, 'rolling_window_days' | 'window_type'>): GoalStreak['unit'] {
+  if (rule.window_type === 'calendar_day') return 'day';
+  if (rule.window_type === 'iso_week' || rule.window_type === 'calendar_month') return 'week';
+  return rule.rolling_window_days >= 7 ? 'week' : 'day';
+}
+
+// Local date starting the day, or the ISO week, containing the given time
+function getPeriodStart(date: Date, unit: GoalStreak['unit'], timeZone: string): string {
+  const localDate = getLocalDate(date, timeZone);
+  return unit === 'week' ? getIsoWeekStart(localDate) : localDate;
+}
+
+// A period succeeds when any evaluation in it was completed. Evaluations are only stored
+// when something changes, so a period without any keeps the status the last one ended
+// in. Past periods without a completion break the streak; the current period only
+// extends it, since it can still succeed. Periods paused throughout by the rule's
+// `pauses` are skipped unless they succeeded anyway.
+export function computeStreak(
+  rule: Pick<GoalRule, 'rolling_window_days' | 'window_type'>,
+  evaluations: StreakEvaluation[],
+  now: Date,
+  timeZone = 'UTC',
+  pauses: GoalPause[] = []
+): GoalStreak {
+  const unit = getStreakUnit(rule);
+  const periodDays = unit === 'week' ? 7 : 1;
+  const isPausedPeriod = (start: string) => pauses.length > 0 &&
+    Array.from({ length: periodDays }, (_, i) => addDays(start, i))
+      .every(date => pauses.some(p => p.starts_on <= date && date <= p.ends_on));
+  const periods = new Map<string, { succeeded: boolean; last: StreakEvaluation; reason: string | null }>();
+  const sorted = [...evaluations].sort(
+    (a, b) => new Date(a.evaluated_at).getTime() - new Date(b.evaluated_at).getTime()
+  );
+
+  for (const evaluation of sorted) {
+    const start = getPeriodStart(new Date(evaluation.evaluated_at), unit, timeZone);
+    const period = periods.get(start) || { succeeded: false, last: evaluation, reason: null };
+    if (evaluation.status === 'completed') {
+      period.succeeded = true;
+    } else {
+      period.reason = evaluation.last_fail_reason;
+    }
+    period.last = evaluation;
+    periods.set(start, period);
+  }
+
+  const currentStart = getPeriodStart(now, unit, timeZone);
+  const broken: BrokenStreak[] = [];
+  let run = 0;
+  let runStart = '';
+  let best = 0;
+
+  // Local dates sort lexically, so the earliest key is the smallest string
+  const firstStart = [...periods.keys()].sort()[0];
+  // Last evaluation before the period being walked, whose status carries into empty periods
+  let carried: StreakEvaluation | null = null;
+  for (let start = firstStart; start && start < currentStart; start = addDays(start, periodDays)) {
+    const period = periods.get(start);
+    const succeeded = period ? period.succeeded : carried?.status === 'completed';
+    if (!succeeded && isPausedPeriod(start)) {
+      if (period) carried = period.last;
+      continue;
+    }
+    if (succeeded) {
+      if (run === 0) runStart = start;
+      run++;
+      best = Math.max(best, run);
+    } else if (run > 0) {
+      broken.push({
+        length: run,
+        started_at: runStart,
+        broken_at: start,
+        reason: period?.reason ?? carried?.last_fail_reason ?? null
+      });
+      run = 0;
+    }
+    if (period) carried = period.last;
+  }
+
+  const current = periods.get(currentStart);
+  if (current ? current.succeeded : carried?.status === 'completed') {
+    run++;
+    best = Math.max(best, run);
+  }
+
+  return { unit, current: run, best, broken: broken.reverse() };
+}
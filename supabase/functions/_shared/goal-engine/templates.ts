@@ -0,0 +1,120 @@
+import type { GoalTemplate } from "./types.ts";
+
+// Built-in protocols. Event names follow the ones the activity parser emits.
+export const GOAL_TEMPLATES: GoalTemplate[] = [
+  {
+    id: 'training-protein',
+    name: 'Training → protein within 2h',
+    description: 'Have a protein bolus within 2 hours of every training session, 4 times a week.',
+    rules: [{
+      key: 'training-protein',
+      name: 'Protein after training',
+      description: 'Protein bolus within 2h of training',
+      rule_type: 'sequence',
+      rule_config: { events: [{ name: 'training_session' }, { name: 'protein_bolus' }], min_hours: 0, max_hours: 2 },
+      rolling_window_days: 7,
+      window_type: 'rolling',
+      required_completions: 4,
+      is_active: true,
+    }],
+  },
+  {
+    id: 'sauna-week',
+    name: '3 sauna sessions per week',
+    description: 'Three sauna sessions in each calendar week (Mon-Sun).',
+    rules: [{
+      key: 'sauna-week',
+      name: 'Sauna 3x per week',
+      description: null,
+      rule_type: 'count',
+      rule_config: { event_pattern: { name: 'sauna_session' }, required_count: 3, rolling_days: 7 },
+      rolling_window_days: 7,
+      window_type: 'iso_week',
+      required_completions: 3,
+      is_active: true,
+    }],
+  },
+  {
+    id: 'caffeine-cutoff',
+    name: 'No caffeine 8h before sleep',
+    description: 'Keep every night free of caffeine in the 8 hours before sleep.',
+    rules: [{
+      key: 'caffeine-cutoff',
+      name: 'Caffeine cutoff',
+      description: 'No caffeine within 8h before sleep',
+      rule_type: 'avoidance',
+      rule_config: { anchor: { name: 'sleep_episode' }, avoid: { name: 'caffeine_dose' }, direction: 'before', hours: 8 },
+      rolling_window_days: 7,
+      window_type: 'rolling',
+      required_completions: 5,
+      is_active: true,
+    }],
+  },
+  {
+    id: 'protein-target',
+    name: 'Protein ≥ 160g on 6 of 7 days',
+    description: 'Daily protein total from the "Protein" trackable.',
+    rules: [{
+      key: 'protein-target',
+      name: 'Daily protein target',
+      description: null,
+      rule_type: 'aggregate',
+      rule_config: { trackable: 'Protein', aggregation: 'sum', operator: 'gte', threshold: 160, required_days: 6 },
+      rolling_window_days: 7,
+      window_type: 'rolling',
+      required_completions: 6,
+      is_active: true,
+    }],
+  },
+  {
+    id: 'fasted-gh',
+    name: 'Fasted GH protocol',
+    description: 'Train fasted and keep 2 hours after each GH stimulus free of protein.',
+    rules: [
+      {
+        key: 'fasted-training',
+        name: 'Fasted training',
+        description: 'Training sessions count only within 4h of a fasting state',
+        rule_type: 'gate',
+        rule_config: { condition: { event_name: 'fasting_state', max_hours_ago: 4 }, gated_rule_id: 'training-count' },
+        rolling_window_days: 7,
+        window_type: 'rolling',
+        required_completions: 3,
+        is_active: false,
+      },
+      {
+        key: 'training-count',
+        name: 'Training sessions',
+        description: null,
+        rule_type: 'count',
+        rule_config: { event_pattern: { name: 'training_session' }, required_count: 3, rolling_days: 7 },
+        rolling_window_days: 7,
+        window_type: 'rolling',
+        required_completions: 3,
+        is_active: false,
+      },
+      {
+        key: 'gh-fast',
+        name: 'No protein after GH stimulus',
+        description: null,
+        rule_type: 'avoidance',
+        rule_config: { anchor: { name: 'GH_stimulus' }, avoid: { name: 'protein_bolus' }, direction: 'after', hours: 2 },
+        rolling_window_days: 7,
+        window_type: 'rolling',
+        required_completions: 3,
+        is_active: false,
+      },
+      {
+        key: 'fasted-gh',
+        name: 'Fasted GH protocol',
+        description: 'Fasted training and a protein-free window after GH stimulus',
+        rule_type: 'compound',
+        rule_config: { operator: 'AND', child_rule_ids: ['fasted-training', 'gh-fast'] },
+        rolling_window_days: 7,
+        window_type: 'rolling',
+        required_completions: 1,
+        is_active: true,
+      },
+    ],
+  },
+];
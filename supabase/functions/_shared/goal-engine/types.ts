@@ -0,0 +1,463 @@
+// Shared goal rule types. Framework-free so both the goal-evaluator edge
+// function (Deno) and the React app can import them.
+
+export interface NormalizedEvent {
+  id: string;
+  event_type: string;
+  event_name: string;
+  occurred_at: string;
+  magnitude: number | null;
+  confidence: number;
+  metadata: Record<string, unknown>;
+  source_type: string | null;
+  source_id: string | null;
+}
+
+export interface GoalRule {
+  id: string;
+  name: string;
+  description: string | null;
+  rule_type: 'sequence' | 'count' | 'gate' | 'compound' | 'avoidance' | 'aggregate';
+  rule_config: SequenceConfig | CountConfig | GateConfig | CompoundConfig | AvoidanceConfig | AggregateConfig;
+  rolling_window_days: number;
+  window_type?: WindowType;  // defaults to 'rolling'
+  required_completions: number;
+  is_active: boolean;
+  confidence_policy?: ConfidencePolicy | null;  // without one every event counts in full
+  version?: number;  // goes up with every edit to the rule's definition
+}
+
+// How a rule treats low-confidence (inferred) events:
+// - threshold: events below min_confidence are ignored
+// - fractional: each completion counts by the confidence of its weakest event
+// - require_confirmed: the goal only completes once a completion rests on confirmed events
+export interface ConfidencePolicy {
+  mode: 'threshold' | 'fractional' | 'require_confirmed';
+  min_confidence?: number;  // the threshold, and where "confirmed" starts; defaults to CONFIRMED_CONFIDENCE
+}
+
+// Rolling windows look back rolling_window_days from now; the others align to the user's calendar
+export type WindowType = 'rolling' | 'calendar_day' | 'iso_week' | 'calendar_month';
+
+export type MetadataOperator = 'eq' | 'neq' | 'gt' | 'gte' | 'lt' | 'lte';
+
+export interface MetadataPredicate {
+  key: string;  // dot-separated path into event metadata, e.g. 'intensity' or 'macros.protein_g'
+  op: MetadataOperator;
+  value: string | number | boolean;
+}
+
+export interface EventPattern {
+  name: string;
+  type?: string;
+  min_magnitude?: number;
+  max_magnitude?: number;
+  min_confidence?: number;
+  metadata?: MetadataPredicate[];
+}
+
+export interface SequenceStep extends EventPattern {
+  // Gap from the previous step; falls back to the rule-level min_hours/max_hours
+  min_hours?: number;
+  max_hours?: number;
+}
+
+export interface SequenceConfig {
+  events: SequenceStep[];
+  min_hours: number;
+  max_hours: number;
+}
+
+export interface CountConfig {
+  event_pattern: EventPattern;
+  required_count: number;
+  rolling_days: number;
+}
+
+export interface GateConfig {
+  condition: {
+    event_name: string;
+    min_hours_ago?: number;
+    max_hours_ago?: number;
+    min_magnitude?: number;
+  };
+  gated_rule_id: string;
+}
+
+export interface CompoundConfig {
+  operator: 'AND' | 'OR';
+  child_rule_ids: string[];
+}
+
+// "No `avoid` within `hours` before/after `anchor`", e.g. no caffeine_dose within 8h before sleep_episode
+export interface AvoidanceConfig {
+  anchor: EventPattern;
+  avoid: EventPattern;
+  direction: 'before' | 'after';
+  hours: number;
+}
+
+// Daily aggregate of a trackable checked against a threshold, e.g. protein sum >= 160 on 6 of 7 days
+export interface AggregateConfig {
+  trackable: string;  // trackable name, matched case-insensitively
+  aggregation: 'sum' | 'avg' | 'min' | 'max';
+  operator: 'gte' | 'lte';
+  threshold: number;
+  required_days: number;
+}
+
+export interface TrackableValue {
+  id: string;
+  trackable_id: string;
+  trackable_name: string;
+  value: number;
+  logged_at: string;
+}
+
+export interface AggregateDay {
+  date: string;  // YYYY-MM-DD
+  value: number | null;  // null when nothing was logged that day
+  met: boolean;
+}
+
+// Inputs beyond normalized events that some rule types need
+export interface EvaluationContext {
+  trackableValues?: TrackableValue[];
+  timeZone?: string;  // IANA zone used for calendar windows and daily totals; defaults to UTC
+  // Longer event history to forecast completion from; rules are not forecast without it
+  history?: NormalizedEvent[];
+  pauses?: GoalPause[];  // days left out of windows and required counts
+}
+
+// Days a goal, or every goal, is left out of evaluation: a pause (e.g. vacation or a
+// deload week) or a day excused for a reason such as illness
+export interface GoalPause {
+  goal_rule_id: string | null;  // null pauses every goal
+  kind: 'pause' | 'excused';
+  starts_on: string;  // YYYY-MM-DD in the user's time zone
+  ends_on: string;    // inclusive
+  reason: string | null;
+}
+
+export interface CompoundChildStatus {
+  rule_id: string;
+  name: string;
+  status: GoalEvaluation['status'];
+  completions_in_window: number;
+  required_in_window: number;
+  last_success_at: string | null;
+  last_fail_reason: string | null;
+}
+
+export interface PendingWindow {
+  event_a_name: string;
+  event_a_time: string;
+  window_start: string;
+  window_end: string;
+  event_a_id: string;
+  waiting_for?: string;
+  step_index?: number;
+  total_steps?: number;
+  completed_steps?: { name: string; event_id: string; occurred_at: string }[];
+  // Set on protected (avoidance) windows: the event that must not occur before window_end
+  avoid?: string;
+}
+
+export interface GoalEvaluation {
+  goal_rule_id: string;
+  status: 'on_track' | 'at_risk' | 'off_track' | 'completed';
+  completions_in_window: number;
+  required_in_window: number;
+  pending_windows: PendingWindow[];
+  last_success_at: string | null;
+  last_fail_at: string | null;
+  last_fail_reason: string | null;
+  confidence: number;
+  details: Record<string, unknown>;
+  rule_version?: number | null;  // version of the rule it was computed with
+}
+
+export interface DecisionImpact {
+  event_id: string;
+  goal_rule_id: string;
+  impact_type: 'window_created' | 'window_completed' | 'window_expired' | 'gate_opened' | 'gate_closed' | 'avoidance_violated';
+  impact_details: Record<string, unknown>;
+  rule_version?: number | null;
+}
+
+export interface RuleResult {
+  evaluation: Partial<GoalEvaluation>;
+  impacts: DecisionImpact[];
+  // Events behind each completion, for rules whose completions come from events
+  completed?: NormalizedEvent[][];
+}
+
+// How many completions rest on confirmed events only, and how many on at least one inferred event
+export interface ConfidenceSplit {
+  confirmed: number;
+  inferred: number;
+  min_confidence: number;
+}
+
+export interface ValidationError {
+  rule_id: string;
+  message: string;
+}
+
+// A problem found by lintRules. Errors keep a rule from evaluating; warnings flag rules
+// that evaluate but probably not as intended.
+export interface RuleLint {
+  rule_id: string;
+  severity: 'error' | 'warning';
+  code: 'invalid_config' | 'dangling_reference' | 'dependency_cycle' | 'unknown_event' | 'window_too_long' | 'unreachable_count';
+  message: string;
+}
+
+// A stored evaluation as far as streak tracking needs it
+export interface StreakEvaluation {
+  status: GoalEvaluation['status'];
+  evaluated_at: string;
+  last_fail_reason: string | null;
+}
+
+export interface BrokenStreak {
+  length: number;
+  started_at: string;  // local date (YYYY-MM-DD) starting the first successful period
+  broken_at: string;   // local date starting the period that broke it
+  reason: string | null;
+}
+
+export interface GoalStreak {
+  unit: 'day' | 'week';
+  current: number;
+  best: number;
+  broken: BrokenStreak[];  // newest first
+}
+
+// A stored evaluation as far as the status history needs it
+export interface HistoryEvaluation extends StreakEvaluation {
+  completions_in_window: number;
+  required_in_window: number;
+}
+
+// Where a goal stood at the end of a local day that had evaluations
+export interface StatusHistoryDay {
+  date: string;  // YYYY-MM-DD in the user's time zone
+  status: GoalEvaluation['status'];
+  completions_in_window: number;
+  required_in_window: number;
+  // Set when the status changed during the day: what it was before, and when it first changed
+  previous_status: GoalEvaluation['status'] | null;
+  changed_at: string | null;
+}
+
+// Move an existing event by a number of hours, or to an absolute time
+export interface EventShift {
+  event_id: string;
+  hours?: number;
+  occurred_at?: string;
+}
+
+// Changes to the recorded events for a what-if simulation
+export interface WhatIfScenario {
+  add?: Omit<NormalizedEvent, 'id'>[];
+  remove?: string[];   // event IDs to drop
+  shift?: EventShift[];
+}
+
+export interface WhatIfDiff {
+  goal_id: string;
+  baseline_status: string;
+  simulated_status: string;
+  completions_delta: number;
+}
+
+// Outcome of doing a pending window's next event within [start, end]
+export interface PlanSegment {
+  start: string;
+  end: string;
+  completes: string[];  // rule IDs whose completions would go up
+  at_risk: string[];    // rule IDs whose status would get worse
+}
+
+// When to do the next event of an open window, and what each timing would do
+export interface ActionPlan {
+  rule_id: string;
+  event_a_id: string;
+  event_name: string;
+  window_start: string;
+  window_end: string;
+  // Bounds of the best segment: most goals completed, fewest put at risk
+  earliest: string | null;
+  latest: string | null;
+  completes: string[];
+  at_risk: string[];
+  segments: PlanSegment[];
+}
+
+// How often an event happens in the user's history, by local hour of day
+export interface EventRate {
+  total: number;     // matching events in the history
+  per_week: number;
+  hourly: number[];  // expected events in each local hour (24 entries)
+}
+
+// Chance a goal completes by the end of its current window
+export interface GoalForecast {
+  probability: number;
+  horizon_end: string;
+  history_days: number;
+  // With too little history the forecast is reported but the heuristic status stands
+  sufficient_data: boolean;
+  heuristic_status: GoalEvaluation['status'];
+  reasons: string[];
+}
+
+// A rule as stored in an export file. Gates and compounds reference other rules by key.
+export interface PortableRule {
+  key: string;
+  name: string;
+  description: string | null;
+  rule_type: GoalRule['rule_type'];
+  rule_config: GoalRule['rule_config'];
+  rolling_window_days: number;
+  window_type?: WindowType;
+  required_completions: number;
+  confidence_policy?: ConfidencePolicy | null;
+  is_active: boolean;
+  priority?: number;
+}
+
+export interface RuleBundle {
+  format: string;
+  version: number;
+  exported_at: string;
+  rules: PortableRule[];
+}
+
+// A ready-made set of rules that can be added in one go
+export interface GoalTemplate {
+  id: string;
+  name: string;
+  description: string;
+  rules: PortableRule[];
+}
+
+// What a rule's text form describes: its type, config and window, but not its name or settings
+export type RuleDefinition = Pick<
+  GoalRule,
+  'rule_type' | 'rule_config' | 'rolling_window_days' | 'window_type' | 'required_completions'
+>;
+
+export interface RuleTextError {
+  message: string;
+  position: number;  // character offset into the text
+}
+
+// Where a backtested rule stood at the end of one local day
+export interface BacktestDay {
+  date: string;  // YYYY-MM-DD in the user's time zone
+  status: GoalEvaluation['status'];
+  completions_in_window: number;
+  required_in_window: number;
+  last_fail_reason: string | null;
+}
+
+// A rule replayed over past events, one evaluation per day. Nothing is stored.
+export interface BacktestResult {
+  from: string;
+  to: string;
+  days: BacktestDay[];
+  // Distinct completions over the whole range (for aggregate rules, days that met the threshold)
+  total_completions: number;
+  status_days: Record<GoalEvaluation['status'], number>;
+  failure_reasons: { reason: string; days: number }[];  // most frequent first
+}
+
+// The definition of a rule as of one version, kept when the rule is edited
+export interface RuleVersion {
+  goal_rule_id: string;
+  version: number;
+  name: string;
+  description: string | null;
+  rule_type: GoalRule['rule_type'];
+  rule_config: GoalRule['rule_config'];
+  rolling_window_days: number;
+  window_type?: WindowType;
+  required_completions: number;
+  confidence_policy?: ConfidencePolicy | null;
+  created_at: string;
+}
+
+// One field that differs between two versions; paths into rule_config are dot-separated
+export interface RuleVersionChange {
+  path: string;
+  before: unknown;
+  after: unknown;
+}
+
+// An in-app notification raised when an evaluation needs the user's attention
+export interface GoalNotification {
+  goal_rule_id: string;
+  kind: 'at_risk' | 'window_closing';
+  title: string;
+  body: string | null;
+  details: Record<string, unknown>;
+  // Identifies what was notified about, so that later sweeps do not raise it again
+  dedupe_key: string;
+}
+
+// Why an event did or did not count towards a rule
+export type TraceVerdict =
+  | 'matched'         // filled a sequence step
+  | 'counted'         // counted towards a count rule
+  | 'too_early'       // before the step's window opened
+  | 'too_late'        // after the step's window closed
+  | 'already_used'    // in the window, but part of an earlier chain
+  | 'not_needed'      // in the window, but an earlier event already filled the step
+  | 'wrong_type'      // right name, but the type, magnitude or metadata filters did not match
+  | 'outside_window'  // before the rule's window
+  | 'low_confidence'  // dropped by the rule's confidence threshold
+  | 'gate_closed'     // the gate's condition was not met before it
+  | 'violation';      // an avoided event inside a protected window
+
+export interface TraceCandidate {
+  event_id: string;
+  event_name: string;
+  occurred_at: string;
+  verdict: TraceVerdict;
+}
+
+// One step after an anchor: the window it had to fall in and the events considered for it
+export interface TraceStep {
+  step_index: number;
+  name: string;
+  window_start: string;
+  window_end: string;
+  candidates: TraceCandidate[];
+}
+
+// An anchor (A) event and what became of the occurrence it started
+export interface TraceAnchor {
+  event_id: string;
+  event_name: string;
+  occurred_at: string;
+  outcome: 'completed' | 'pending' | 'expired' | 'violated' | 'already_used' | 'wrong_type';
+  steps: TraceStep[];
+  note: string | null;
+}
+
+// A structured account of a rule's evaluation, to debug a status instead of guessing at it
+export interface RuleExplanation {
+  rule_id: string;
+  name: string;
+  rule_type: GoalRule['rule_type'];
+  status: GoalEvaluation['status'];
+  summary: string | null;  // the evaluation's last_fail_reason
+  window_start: string | null;
+  paused: GoalPause | null;
+  anchors: TraceAnchor[];        // sequence and avoidance rules
+  events: TraceCandidate[];      // events counted or left out, outside of any anchor
+  days: AggregateDay[];          // aggregate rules
+  children: RuleExplanation[];   // the rule a gate wraps, or a compound's children
+}
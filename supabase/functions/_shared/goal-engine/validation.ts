@@ -0,0 +1,144 @@
+import type { GoalRule } from "./types.ts";
+
+const RULE_TYPES = ['sequence', 'count', 'gate', 'compound', 'avoidance', 'aggregate'];
+const WINDOW_TYPES = ['rolling', 'calendar_day', 'iso_week', 'calendar_month'];
+const CONFIDENCE_MODES = ['threshold', 'fractional', 'require_confirmed'];
+const METADATA_OPERATORS = ['eq', 'neq', 'gt', 'gte', 'lt', 'lte'];
+
+type Json = Record<string, unknown>;
+
+const isObject = (value: unknown): value is Json =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+const isNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+const isName = (value: unknown): value is string =>
+  typeof value === 'string' && value.trim().length > 0;
+
+// Collects problems as "path: message", e.g. "rule_config.events.1.name: must be a non-empty string"
+function createChecker() {
+  const errors: string[] = [];
+  const fail = (path: string, message: string): void => {
+    errors.push(`${path}: ${message}`);
+  };
+
+  const number = (value: unknown, path: string, { optional = false, min = -Infinity, integer = false } = {}) => {
+    if (value === undefined && optional) return;
+    if (!isNumber(value)) fail(path, 'must be a number');
+    else if (integer && !Number.isInteger(value)) fail(path, 'must be a whole number');
+    else if (value < min) fail(path, `must be at least ${min}`);
+  };
+  const name = (value: unknown, path: string) => {
+    if (!isName(value)) fail(path, 'must be a non-empty string');
+  };
+  const oneOf = (value: unknown, options: string[], path: string) => {
+    if (typeof value !== 'string' || !options.includes(value)) fail(path, `must be one of ${options.join(', ')}`);
+  };
+  const range = (min: unknown, max: unknown, path: string, minKey: string, maxKey: string) => {
+    if (isNumber(min) && isNumber(max) && min > max) fail(path, `${minKey} is greater than ${maxKey}`);
+  };
+
+  const pattern = (value: unknown, path: string) => {
+    if (!isObject(value)) return fail(path, 'must be an event pattern object');
+    name(value.name, `${path}.name`);
+    if (value.type !== undefined && typeof value.type !== 'string') fail(`${path}.type`, 'must be a string');
+    number(value.min_magnitude, `${path}.min_magnitude`, { optional: true });
+    number(value.max_magnitude, `${path}.max_magnitude`, { optional: true });
+    range(value.min_magnitude, value.max_magnitude, path, 'min_magnitude', 'max_magnitude');
+    number(value.min_confidence, `${path}.min_confidence`, { optional: true, min: 0 });
+    if (isNumber(value.min_confidence) && value.min_confidence > 1) fail(`${path}.min_confidence`, 'must be at most 1');
+    if (value.metadata === undefined) return;
+    if (!Array.isArray(value.metadata)) return fail(`${path}.metadata`, 'must be a list');
+    value.metadata.forEach((predicate, i) => {
+      const at = `${path}.metadata.${i}`;
+      if (!isObject(predicate)) return fail(at, 'must be an object');
+      name(predicate.key, `${at}.key`);
+      oneOf(predicate.op, METADATA_OPERATORS, `${at}.op`);
+      if (!['string', 'number', 'boolean'].includes(typeof predicate.value)) fail(`${at}.value`, 'must be a string, number or boolean');
+    });
+  };
+
+  return { errors, fail, number, name, oneOf, range, pattern };
+}
+
+function checkConfig(ruleType: string, config: Json, check: ReturnType<typeof createChecker>) {
+  const at = (key: string) => `rule_config.${key}`;
+
+  switch (ruleType) {
+    case 'sequence': {
+      check.number(config.min_hours, at('min_hours'), { min: 0 });
+      check.number(config.max_hours, at('max_hours'), { min: 0 });
+      check.range(config.min_hours, config.max_hours, at('max_hours'), 'min_hours', 'max_hours');
+      if (!Array.isArray(config.events)) return check.fail(at('events'), 'must be a list');
+      if (config.events.length < 2) check.fail(at('events'), 'a sequence needs at least 2 events');
+      config.events.forEach((step, i) => {
+        const path = at(`events.${i}`);
+        check.pattern(step, path);
+        if (!isObject(step)) return;
+        check.number(step.min_hours, `${path}.min_hours`, { optional: true, min: 0 });
+        check.number(step.max_hours, `${path}.max_hours`, { optional: true, min: 0 });
+        check.range(step.min_hours ?? config.min_hours, step.max_hours ?? config.max_hours, path, 'min_hours', 'max_hours');
+      });
+      return;
+    }
+    case 'count':
+      check.pattern(config.event_pattern, at('event_pattern'));
+      check.number(config.required_count, at('required_count'), { optional: true, min: 1, integer: true });
+      check.number(config.rolling_days, at('rolling_days'), { optional: true, min: 1, integer: true });
+      return;
+    case 'avoidance':
+      check.pattern(config.anchor, at('anchor'));
+      check.pattern(config.avoid, at('avoid'));
+      check.oneOf(config.direction, ['before', 'after'], at('direction'));
+      check.number(config.hours, at('hours'), { min: 0 });
+      return;
+    case 'aggregate':
+      check.name(config.trackable, at('trackable'));
+      check.oneOf(config.aggregation, ['sum', 'avg', 'min', 'max'], at('aggregation'));
+      check.oneOf(config.operator, ['gte', 'lte'], at('operator'));
+      check.number(config.threshold, at('threshold'));
+      check.number(config.required_days, at('required_days'), { optional: true, min: 1, integer: true });
+      return;
+    case 'gate': {
+      check.name(config.gated_rule_id, at('gated_rule_id'));
+      const condition = config.condition;
+      if (!isObject(condition)) return check.fail(at('condition'), 'must be an object');
+      check.name(condition.event_name, at('condition.event_name'));
+      check.number(condition.min_hours_ago, at('condition.min_hours_ago'), { optional: true, min: 0 });
+      check.number(condition.max_hours_ago, at('condition.max_hours_ago'), { optional: true, min: 0 });
+      check.range(condition.min_hours_ago, condition.max_hours_ago, at('condition'), 'min_hours_ago', 'max_hours_ago');
+      check.number(condition.min_magnitude, at('condition.min_magnitude'), { optional: true });
+      return;
+    }
+    case 'compound':
+      check.oneOf(config.operator, ['AND', 'OR'], at('operator'));
+      if (!Array.isArray(config.child_rule_ids)) return check.fail(at('child_rule_ids'), 'must be a list');
+      if (config.child_rule_ids.length === 0) check.fail(at('child_rule_ids'), 'must name at least one rule');
+      config.child_rule_ids.forEach((id, i) => check.name(id, at(`child_rule_ids.${i}`)));
+      return;
+  }
+}
+
+// Type-check a rule and its rule_config, which arrive as untyped JSON from the database or
+// an API call. Returns one "path: message" string per problem; empty when the rule is valid.
+export function validateRuleConfig(rule: GoalRule): string[] {
+  const check = createChecker();
+  const value = rule as unknown as Json;
+
+  check.oneOf(value.rule_type, RULE_TYPES, 'rule_type');
+  check.number(value.rolling_window_days, 'rolling_window_days', { min: 1, integer: true });
+  check.number(value.required_completions, 'required_completions', { min: 0 });
+  if (value.window_type !== undefined && value.window_type !== null) {
+    check.oneOf(value.window_type, WINDOW_TYPES, 'window_type');
+  }
+  if (isObject(value.confidence_policy)) {
+    check.oneOf(value.confidence_policy.mode, CONFIDENCE_MODES, 'confidence_policy.mode');
+    check.number(value.confidence_policy.min_confidence, 'confidence_policy.min_confidence', { optional: true, min: 0 });
+  } else if (value.confidence_policy !== undefined && value.confidence_policy !== null) {
+    check.fail('confidence_policy', 'must be an object');
+  }
+
+  if (!isObject(value.rule_config)) check.fail('rule_config', 'must be an object');
+  else checkConfig(String(value.rule_type), value.rule_config, check);
+
+  return check.errors;
+}
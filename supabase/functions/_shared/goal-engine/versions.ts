@@ -0,0 +1,66 @@
+import type { GoalRule, RuleVersion, RuleVersionChange } from "./types.ts";
+
+// Fields that make up a rule's definition; the goal_rules trigger versions edits to these
+export const VERSIONED_FIELDS = [
+  'name',
+  'description',
+  'rule_type',
+  'rule_config',
+  'rolling_window_days',
+  'window_type',
+  'required_completions',
+  'confidence_policy',
+] as const;
+
+type VersionedRule = Pick<GoalRule, typeof VERSIONED_FIELDS[number]>;
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Unset optional fields compare equal to their defaults
+function normalize(field: typeof VERSIONED_FIELDS[number], value: unknown): unknown {
+  if (field === 'window_type') return value || 'rolling';
+  return value ?? null;
+}
+
+function diffValues(path: string, before: unknown, after: unknown, changes: RuleVersionChange[]): void {
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const keys = [...new Set([...Object.keys(before), ...Object.keys(after)])];
+    for (const key of keys) diffValues(`${path}.${key}`, before[key], after[key], changes);
+    return;
+  }
+  // Lists of equal length (e.g. sequence steps) diff per item; otherwise as a whole
+  if (Array.isArray(before) && Array.isArray(after) && before.length === after.length) {
+    before.forEach((item, i) => diffValues(`${path}.${i}`, item, after[i], changes));
+    return;
+  }
+  if (JSON.stringify(before ?? null) !== JSON.stringify(after ?? null)) {
+    changes.push({ path, before: before ?? null, after: after ?? null });
+  }
+}
+
+// What changed between two definitions of a rule, field by field. Changing the rule type
+// replaces rule_config, which is then reported whole rather than key by key.
+export function diffRuleVersions(previous: VersionedRule, next: VersionedRule): RuleVersionChange[] {
+  const changes: RuleVersionChange[] = [];
+  for (const field of VERSIONED_FIELDS) {
+    const before = normalize(field, previous[field]);
+    const after = normalize(field, next[field]);
+    if (field === 'rule_config' && previous.rule_type !== next.rule_type) {
+      if (JSON.stringify(before) !== JSON.stringify(after)) changes.push({ path: field, before, after });
+    } else {
+      diffValues(field, before, after, changes);
+    }
+  }
+  return changes;
+}
+
+// Each version paired with the changes since the one before it, newest first
+export function buildVersionHistory(
+  versions: RuleVersion[]
+): { version: RuleVersion; changes: RuleVersionChange[] }[] {
+  const ordered = [...versions].sort((a, b) => a.version - b.version);
+  return ordered
+    .map((version, i) => ({ version, changes: i > 0 ? diffRuleVersions(ordered[i - 1], version) : [] }))
+    .reverse();
+}
@@ -0,0 +1,91 @@
+import type { GoalRule, WindowType } from "./types.ts";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Offset of the time zone from UTC at the given instant, in ms (UTC+10 is +36000000)
+export function getTimeZoneOffset(date: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit'
+  }).formatToParts(date);
+  const get = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(p => p.type === type)?.value);
+  const asUtc = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+// Calendar date (YYYY-MM-DD) of an instant in the given time zone
+export function getLocalDate(date: Date, timeZone: string): string {
+  return new Date(date.getTime() + getTimeZoneOffset(date, timeZone)).toISOString().slice(0, 10);
+}
+
+// Instant of local midnight at the start of the given calendar date
+export function getLocalMidnight(localDate: string, timeZone: string): Date {
+  const utcMidnight = Date.parse(`${localDate}T00:00:00Z`);
+  // A second pass settles the offset when midnight is near a DST change
+  let guess = utcMidnight - getTimeZoneOffset(new Date(utcMidnight), timeZone);
+  guess = utcMidnight - getTimeZoneOffset(new Date(guess), timeZone);
+  return new Date(guess);
+}
+
+export function addDays(localDate: string, days: number): string {
+  return new Date(Date.parse(`${localDate}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+// Monday of the ISO week containing the calendar date
+export function getIsoWeekStart(localDate: string): string {
+  const weekday = (new Date(`${localDate}T00:00:00Z`).getUTCDay() + 6) % 7;
+  return addDays(localDate, -weekday);
+}
+
+// First calendar date of the calendar window containing the given date
+function getCalendarStart(windowType: Exclude<WindowType, 'rolling'>, localDate: string): string {
+  switch (windowType) {
+    case 'iso_week': return getIsoWeekStart(localDate);
+    case 'calendar_month': return `${localDate.slice(0, 8)}01`;
+    default: return localDate;
+  }
+}
+
+type WindowedRule = Pick<GoalRule, 'rolling_window_days' | 'window_type'>;
+
+// Start of a rule's evaluation window: N days back for rolling windows, otherwise local
+// midnight at the start of the current calendar day, ISO week or month
+export function getWindowStart(rule: WindowedRule, now: Date, timeZone = 'UTC'): Date {
+  if (!rule.window_type || rule.window_type === 'rolling') {
+    return new Date(now.getTime() - rule.rolling_window_days * DAY_MS);
+  }
+  return getLocalMidnight(getCalendarStart(rule.window_type, getLocalDate(now, timeZone)), timeZone);
+}
+
+// Calendar dates covered by a rule's window, oldest first. Calendar windows include
+// the days still to come in the current period.
+export function getWindowDates(rule: WindowedRule, now: Date, timeZone = 'UTC'): string[] {
+  const today = getLocalDate(now, timeZone);
+  if (!rule.window_type || rule.window_type === 'rolling') {
+    const days = rule.rolling_window_days || 7;
+    return Array.from({ length: days }, (_, i) => addDays(today, i - days + 1));
+  }
+
+  const start = getCalendarStart(rule.window_type, today);
+  const dates = [start];
+  for (let date = addDays(start, 1); getCalendarStart(rule.window_type, date) === start; date = addDays(date, 1)) {
+    dates.push(date);
+  }
+  return dates;
+}
+
+// Longest span a rule's window can cover, in days
+export function getWindowLengthDays(rule: WindowedRule): number {
+  switch (rule.window_type) {
+    case 'calendar_day': return 1;
+    case 'iso_week': return 7;
+    case 'calendar_month': return 31;
+    default: return rule.rolling_window_days || 7;
+  }
+}
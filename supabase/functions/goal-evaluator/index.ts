@@ -1,366 +1,241 @@
 import "jsr:@supabase/functions-js/edge-runtime.d.ts";
 import { createClient, SupabaseClient } from "@supabase/supabase-js";
+import {
+  applyPauses,
+  applyWhatIfScenario,
+  backtestRule,
+  collectImpactsOverRange,
+  dedupeImpacts,
+  detectNotifications,
+  diffEvaluations,
+  evaluateGoals,
+  explainRule,
+  FORECAST_HISTORY_DAYS,
+  getAffectedRuleIds,
+  getLocalDate,
+  getLintEventNames,
+  getRequiredHistoryDays,
+  hasEvaluationChanged,
+  lintRules,
+  MAX_BACKTEST_DAYS,
+  orderRulesByDependencies,
+  planActions,
+  type ActionPlan,
+  type BacktestResult,
+  type DecisionImpact,
+  type GoalPause,
+  type GoalEvaluation,
+  type GoalNotification,
+  type GoalRule,
+  type NormalizedEvent,
+  type RuleExplanation,
+  type RuleLint,
+  type TrackableValue,
+  validateRuleConfig,
+  type ValidationError,
+  type WhatIfDiff,
+  type WhatIfScenario,
+} from "../_shared/goal-engine/index.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
-// Types
-interface NormalizedEvent {
-  id: string;
-  event_type: string;
-  event_name: string;
-  occurred_at: string;
-  magnitude: number | null;
-  confidence: number;
-  metadata: Record<string, unknown>;
-  source_type: string | null;
-  source_id: string | null;
-}
-
-interface GoalRule {
-  id: string;
-  name: string;
-  description: string | null;
-  rule_type: 'sequence' | 'count' | 'gate' | 'compound';
-  rule_config: SequenceConfig | CountConfig | GateConfig | CompoundConfig;
-  rolling_window_days: number;
-  required_completions: number;
-  is_active: boolean;
-}
-
-interface SequenceConfig {
-  events: { name: string; type?: string }[];
-  min_hours: number;
-  max_hours: number;
+// Fetch all goal rules; inactive ones can still be referenced by gates and compounds
+async function fetchRules(supabase: SupabaseClient): Promise<GoalRule[]> {
+  const { data: rulesData, error: rulesError } = await supabase
+    .from('goal_rules')
+    .select('*')
+    .order('priority', { ascending: false });
+    
+  if (rulesError) throw new Error(`Failed to fetch rules: ${rulesError.message}`);
+  
+  return (rulesData || []) as GoalRule[];
 }
 
-interface CountConfig {
-  event_pattern: { name: string; type?: string };
-  required_count: number;
-  rolling_days: number;
+// Fetch the user's time zone for calendar windows and daily totals
+async function fetchTimeZone(supabase: SupabaseClient): Promise<string> {
+  const { data, error } = await supabase
+    .from('user_settings')
+    .select('timezone')
+    .order('created_at')
+    .limit(1)
+    .maybeSingle();
+    
+  if (error) throw new Error(`Failed to fetch settings: ${error.message}`);
+  
+  return data?.timezone || 'UTC';
 }
 
-interface GateConfig {
-  condition: {
-    event_name: string;
-    min_hours_ago?: number;
-    max_hours_ago?: number;
-    min_magnitude?: number;
-  };
-  gated_rule_id: string;
-}
+// Pauses can stretch rolling windows back by at most this many days, so older ones are not read
+const PAUSE_LOOKBACK_DAYS = 400;
 
-interface CompoundConfig {
-  operator: 'AND' | 'OR';
-  child_rule_ids: string[];
+// Fetch goal pauses and excused days that end on or after the given time
+async function fetchPauses(supabase: SupabaseClient, since: Date, timeZone: string): Promise<GoalPause[]> {
+  const { data, error } = await supabase
+    .from('goal_pauses')
+    .select('goal_rule_id, kind, starts_on, ends_on, reason')
+    .gte('ends_on', getLocalDate(since, timeZone))
+    .order('starts_on', { ascending: true });
+    
+  if (error) throw new Error(`Failed to fetch pauses: ${error.message}`);
+  
+  return (data || []) as GoalPause[];
 }
 
-interface PendingWindow {
-  event_a_name: string;
-  event_a_time: string;
-  window_start: string;
-  window_end: string;
-  event_a_id: string;
+// Fetch the events needed to evaluate the given rules, or at least `minDays` of them
+async function fetchEventsForRules(
+  supabase: SupabaseClient,
+  rules: GoalRule[],
+  now: Date,
+  minDays = 0
+): Promise<NormalizedEvent[]> {
+  const days = Math.max(getRequiredHistoryDays(rules), minDays);
+  const windowStart = new Date(now.getTime() - days * 24 * 60 * 60 * 1000);
+  
+  const { data: eventsData, error: eventsError } = await supabase
+    .from('normalized_events')
+    .select('*')
+    .gte('occurred_at', windowStart.toISOString())
+    .order('occurred_at', { ascending: true });
+    
+  if (eventsError) throw new Error(`Failed to fetch events: ${eventsError.message}`);
+  
+  return (eventsData || []) as NormalizedEvent[];
 }
 
-interface GoalEvaluation {
-  goal_rule_id: string;
-  status: 'on_track' | 'at_risk' | 'off_track' | 'completed';
-  completions_in_window: number;
-  required_in_window: number;
-  pending_windows: PendingWindow[];
-  last_success_at: string | null;
-  last_fail_at: string | null;
-  last_fail_reason: string | null;
-  confidence: number;
-  details: Record<string, unknown>;
+// Fetch trackable values (with their trackable's name) when any aggregate rule needs them,
+// from `since` or else the rules' own history before now
+async function fetchTrackableValuesForRules(
+  supabase: SupabaseClient,
+  rules: GoalRule[],
+  now: Date,
+  since?: Date
+): Promise<TrackableValue[]> {
+  if (!rules.some(r => r.rule_type === 'aggregate')) return [];
+  
+  const windowStart = since || new Date(now.getTime() - getRequiredHistoryDays(rules) * 24 * 60 * 60 * 1000);
+  
+  const { data, error } = await supabase
+    .from('trackable_values')
+    .select('id, trackable_id, value, logged_at, trackables(name)')
+    .gte('logged_at', windowStart.toISOString())
+    .order('logged_at', { ascending: true });
+    
+  if (error) throw new Error(`Failed to fetch trackable values: ${error.message}`);
+  
+  return (data || []).map((row: Record<string, unknown>) => ({
+    id: row.id as string,
+    trackable_id: row.trackable_id as string,
+    trackable_name: (row.trackables as { name: string } | null)?.name || '',
+    value: Number(row.value),
+    logged_at: row.logged_at as string
+  }));
 }
 
-interface DecisionImpact {
-  event_id: string;
-  goal_rule_id: string;
-  impact_type: 'window_created' | 'window_completed' | 'window_expired' | 'gate_opened' | 'gate_closed';
-  impact_details: Record<string, unknown>;
+// Upsert impacts, keeping one row per (event, rule, impact_type)
+async function storeImpacts(supabase: SupabaseClient, impacts: DecisionImpact[]): Promise<number> {
+  const rows = dedupeImpacts(impacts).map(impact => ({
+    event_id: impact.event_id,
+    goal_rule_id: impact.goal_rule_id,
+    impact_type: impact.impact_type,
+    impact_details: impact.impact_details,
+    rule_version: impact.rule_version ?? null
+  }));
+  if (rows.length === 0) return 0;
+  
+  const { error } = await supabase
+    .from('decision_impacts')
+    .upsert(rows, { onConflict: 'event_id,goal_rule_id,impact_type' });
+    
+  if (error) throw new Error(`Failed to store impacts: ${error.message}`);
+  
+  return rows.length;
 }
 
-// Evaluate a sequence rule
-function evaluateSequenceRule(
-  rule: GoalRule,
-  events: NormalizedEvent[],
-  now: Date
-): { evaluation: Partial<GoalEvaluation>; impacts: DecisionImpact[] } {
-  const config = rule.rule_config as SequenceConfig;
-  const impacts: DecisionImpact[] = [];
-  
-  if (config.events.length < 2) {
-    return { 
-      evaluation: { 
-        status: 'off_track', 
-        completions_in_window: 0, 
-        pending_windows: [],
-        last_fail_reason: 'Sequence requires at least 2 events'
-      },
-      impacts 
-    };
-  }
-
-  const eventA = config.events[0];
-  const eventB = config.events[1];
-  const minMs = config.min_hours * 60 * 60 * 1000;
-  const maxMs = config.max_hours * 60 * 60 * 1000;
-  
-  // Get rolling window cutoff
-  const windowStart = new Date(now.getTime() - rule.rolling_window_days * 24 * 60 * 60 * 1000);
-  
-  // Filter events in window
-  const windowEvents = events.filter(e => new Date(e.occurred_at) >= windowStart);
-  
-  // Find all A events
-  const aEvents = windowEvents.filter(e => 
-    e.event_name.toLowerCase() === eventA.name.toLowerCase() &&
-    (!eventA.type || e.event_type === eventA.type)
-  ).sort((a, b) => new Date(a.occurred_at).getTime() - new Date(b.occurred_at).getTime());
-  
-  // Find all B events
-  const bEvents = windowEvents.filter(e => 
-    e.event_name.toLowerCase() === eventB.name.toLowerCase() &&
-    (!eventB.type || e.event_type === eventB.type)
-  ).sort((a, b) => new Date(a.occurred_at).getTime() - new Date(b.occurred_at).getTime());
-  
-  let completions = 0;
-  let lastSuccess: Date | null = null;
-  let lastFail: Date | null = null;
-  let lastFailReason: string | null = null;
-  const pendingWindows: PendingWindow[] = [];
-  const usedBEvents = new Set<string>();
-  
-  // For each A event, check if there's a matching B event in the window
-  for (const aEvent of aEvents) {
-    const aTime = new Date(aEvent.occurred_at);
-    const windowStartTime = new Date(aTime.getTime() + minMs);
-    const windowEndTime = new Date(aTime.getTime() + maxMs);
-    
-    // Find matching B event
-    const matchingB = bEvents.find(bEvent => {
-      if (usedBEvents.has(bEvent.id)) return false;
-      const bTime = new Date(bEvent.occurred_at);
-      return bTime >= windowStartTime && bTime <= windowEndTime;
-    });
+// Insert notifications that have not been raised before; returns how many were new
+async function storeNotifications(supabase: SupabaseClient, notifications: GoalNotification[]): Promise<number> {
+  if (notifications.length === 0) return 0;
+  
+  const { data, error } = await supabase
+    .from('goal_notifications')
+    .upsert(notifications, { onConflict: 'dedupe_key', ignoreDuplicates: true })
+    .select('id');
     
-    if (matchingB) {
-      completions++;
-      usedBEvents.add(matchingB.id);
-      lastSuccess = new Date(matchingB.occurred_at);
-      
-      impacts.push({
-        event_id: matchingB.id,
-        goal_rule_id: rule.id,
-        impact_type: 'window_completed',
-        impact_details: {
-          triggered_by: aEvent.id,
-          sequence: [eventA.name, eventB.name],
-          window_hours: `${config.min_hours}..${config.max_hours}`
-        }
-      });
-    } else if (windowEndTime > now) {
-      // Window is still open
-      pendingWindows.push({
-        event_a_name: eventA.name,
-        event_a_time: aEvent.occurred_at,
-        window_start: windowStartTime.toISOString(),
-        window_end: windowEndTime.toISOString(),
-        event_a_id: aEvent.id
-      });
-      
-      impacts.push({
-        event_id: aEvent.id,
-        goal_rule_id: rule.id,
-        impact_type: 'window_created',
-        impact_details: {
-          waiting_for: eventB.name,
-          window_end: windowEndTime.toISOString()
-        }
-      });
-    } else {
-      // Window expired
-      lastFail = windowEndTime;
-      lastFailReason = `${eventB.name} did not occur within ${config.min_hours}-${config.max_hours}h after ${eventA.name}`;
-      
-      impacts.push({
-        event_id: aEvent.id,
-        goal_rule_id: rule.id,
-        impact_type: 'window_expired',
-        impact_details: {
-          expected: eventB.name,
-          window_end: windowEndTime.toISOString()
-        }
-      });
-    }
-  }
+  if (error) throw new Error(`Failed to store notifications: ${error.message}`);
   
-  // Determine status
-  let status: GoalEvaluation['status'];
-  if (completions >= rule.required_completions) {
-    status = 'completed';
-  } else if (pendingWindows.length > 0) {
-    // Check if any pending windows are close to expiring (within 1 hour)
-    const atRisk = pendingWindows.some(w => {
-      const remaining = new Date(w.window_end).getTime() - now.getTime();
-      return remaining < 60 * 60 * 1000; // Less than 1 hour remaining
-    });
-    status = atRisk ? 'at_risk' : 'on_track';
-  } else if (completions > 0) {
-    status = 'on_track';
-  } else {
-    status = 'off_track';
-  }
-  
-  return {
-    evaluation: {
-      status,
-      completions_in_window: completions,
-      pending_windows: pendingWindows,
-      last_success_at: lastSuccess?.toISOString() || null,
-      last_fail_at: lastFail?.toISOString() || null,
-      last_fail_reason: lastFailReason,
-    },
-    impacts
-  };
+  return (data || []).length;
 }
 
-// Evaluate a count rule
-function evaluateCountRule(
-  rule: GoalRule,
-  events: NormalizedEvent[],
-  now: Date
-): { evaluation: Partial<GoalEvaluation>; impacts: DecisionImpact[] } {
-  const config = rule.rule_config as CountConfig;
-  const impacts: DecisionImpact[] = [];
-  
-  const windowStart = new Date(now.getTime() - (config.rolling_days || rule.rolling_window_days) * 24 * 60 * 60 * 1000);
-  
-  const matchingEvents = events.filter(e => 
-    new Date(e.occurred_at) >= windowStart &&
-    e.event_name.toLowerCase() === config.event_pattern.name.toLowerCase() &&
-    (!config.event_pattern.type || e.event_type === config.event_pattern.type)
-  );
-  
-  const count = matchingEvents.length;
-  const required = config.required_count || rule.required_completions;
-  
-  let status: GoalEvaluation['status'];
-  if (count >= required) {
-    status = 'completed';
-  } else if (count >= required * 0.7) {
-    status = 'on_track';
-  } else if (count >= required * 0.3) {
-    status = 'at_risk';
-  } else {
-    status = 'off_track';
+// Latest stored evaluation for each of the given rules
+async function fetchLatestEvaluations(
+  supabase: SupabaseClient,
+  ruleIds: string[]
+): Promise<Map<string, GoalEvaluation>> {
+  const latest = new Map<string, GoalEvaluation>();
+  for (const ruleId of ruleIds) {
+    const { data } = await supabase
+      .from('goal_evaluations')
+      .select('*')
+      .eq('goal_rule_id', ruleId)
+      .order('evaluated_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+    if (data) latest.set(ruleId, data as GoalEvaluation);
   }
-  
-  return {
-    evaluation: {
-      status,
-      completions_in_window: count,
-      pending_windows: [],
-      last_success_at: matchingEvents.length > 0 ? matchingEvents[matchingEvents.length - 1].occurred_at : null,
-    },
-    impacts
-  };
+  return latest;
 }
 
-// Main evaluation function
+// Main evaluation function. With a trigger event only the rules it can affect are
+// re-evaluated; either way a row is written only for rules whose status or counts changed,
+// and notifications are raised for goals turning at risk and windows about to close.
 async function evaluateAllGoals(
   supabase: SupabaseClient,
   triggerEventId?: string
-): Promise<{ evaluations: GoalEvaluation[]; impacts: DecisionImpact[] }> {
+): Promise<{
+  evaluations: GoalEvaluation[];
+  impacts: DecisionImpact[];
+  validation_errors: ValidationError[];
+  written_rule_ids: string[];
+  notifications_created: number;
+}> {
   const now = new Date();
   
-  // Fetch active goal rules
-  const { data: rulesData, error: rulesError } = await supabase
-    .from('goal_rules')
-    .select('*')
-    .eq('is_active', true)
-    .order('priority', { ascending: false });
-    
-  if (rulesError) throw new Error(`Failed to fetch rules: ${rulesError.message}`);
+  const allRules = await fetchRules(supabase);
+  let targetIds: Set<string> | undefined;
   
-  const rules = (rulesData || []) as GoalRule[];
-  if (rules.length === 0) {
-    return { evaluations: [], impacts: [] };
+  if (triggerEventId) {
+    const { data: triggerEvent, error } = await supabase
+      .from('normalized_events')
+      .select('event_name, event_type')
+      .eq('id', triggerEventId)
+      .single();
+    if (error) throw new Error(`Failed to fetch trigger event: ${error.message}`);
+    targetIds = getAffectedRuleIds(triggerEvent, allRules);
   }
   
-  // Get max window needed
-  const maxDays = Math.max(...rules.map(r => r.rolling_window_days || 7));
-  const windowStart = new Date(now.getTime() - maxDays * 24 * 60 * 60 * 1000);
-  
-  // Fetch events in window
-  const { data: eventsData, error: eventsError } = await supabase
-    .from('normalized_events')
-    .select('*')
-    .gte('occurred_at', windowStart.toISOString())
-    .order('occurred_at', { ascending: true });
-    
-  if (eventsError) throw new Error(`Failed to fetch events: ${eventsError.message}`);
-  
-  const events = (eventsData || []) as NormalizedEvent[];
-  
-  const allEvaluations: GoalEvaluation[] = [];
-  const allImpacts: DecisionImpact[] = [];
-  
-  for (const rule of rules) {
-    let result: { evaluation: Partial<GoalEvaluation>; impacts: DecisionImpact[] };
-    
-    switch (rule.rule_type) {
-      case 'sequence':
-        result = evaluateSequenceRule(rule, events, now);
-        break;
-      case 'count':
-        result = evaluateCountRule(rule, events, now);
-        break;
-      default:
-        result = { 
-          evaluation: { 
-            status: 'off_track', 
-            completions_in_window: 0, 
-            pending_windows: [],
-            last_fail_reason: `Unsupported rule type: ${rule.rule_type}`
-          }, 
-          impacts: [] 
-        };
-    }
-    
-    // Calculate average confidence from relevant events
-    const relevantEvents = events.filter(e => 
-      result.impacts.some(i => i.event_id === e.id)
-    );
-    const avgConfidence = relevantEvents.length > 0 
-      ? relevantEvents.reduce((sum, e) => sum + (e.confidence || 1), 0) / relevantEvents.length
-      : 1;
-    
-    const evaluation: GoalEvaluation = {
-      goal_rule_id: rule.id,
-      status: result.evaluation.status || 'off_track',
-      completions_in_window: result.evaluation.completions_in_window || 0,
-      required_in_window: rule.required_completions || 1,
-      pending_windows: result.evaluation.pending_windows || [],
-      last_success_at: result.evaluation.last_success_at || null,
-      last_fail_at: result.evaluation.last_fail_at || null,
-      last_fail_reason: result.evaluation.last_fail_reason || null,
-      confidence: avgConfidence,
-      details: {}
-    };
-    
-    allEvaluations.push(evaluation);
-    allImpacts.push(...result.impacts);
+  const targetRules = allRules.filter(r => r.is_active && (!targetIds || targetIds.has(r.id)));
+  if (targetRules.length === 0) {
+    return { evaluations: [], impacts: [], validation_errors: [], written_rule_ids: [], notifications_created: 0 };
   }
   
-  // Store evaluations
-  for (const evaluation of allEvaluations) {
-    await supabase.from('goal_evaluations').insert({
+  // Fetch the history the target rules and the rules they depend on need, and enough to forecast from
+  const rulesById = new Map(allRules.map(r => [r.id, r]));
+  const { ordered: neededRules } = orderRulesByDependencies(targetRules, rulesById);
+  const timeZone = await fetchTimeZone(supabase);
+  const pauses = await fetchPauses(supabase, new Date(now.getTime() - PAUSE_LOOKBACK_DAYS * 24 * 60 * 60 * 1000), timeZone);
+  // Paused days stretch rolling windows back, so read the history of the stretched rules
+  const pausedRules = neededRules.map(r => applyPauses(r, pauses, now, timeZone));
+  const events = await fetchEventsForRules(supabase, pausedRules, now, FORECAST_HISTORY_DAYS);
+  const trackableValues = await fetchTrackableValuesForRules(supabase, pausedRules, now);
+  const result = evaluateGoals(allRules, events, now, { trackableValues, timeZone, history: events, pauses }, targetIds);
+  
+  // Store evaluations that changed
+  const previous = await fetchLatestEvaluations(supabase, result.evaluations.map(e => e.goal_rule_id));
+  const changed = result.evaluations.filter(e => hasEvaluationChanged(previous.get(e.goal_rule_id) || null, e));
+  if (changed.length > 0) {
+    const { error } = await supabase.from('goal_evaluations').insert(changed.map(evaluation => ({
       goal_rule_id: evaluation.goal_rule_id,
       evaluated_at: now.toISOString(),
       status: evaluation.status,
@@ -371,114 +246,216 @@ async function evaluateAllGoals(
       last_fail_at: evaluation.last_fail_at,
       last_fail_reason: evaluation.last_fail_reason,
       confidence: evaluation.confidence,
-      details: evaluation.details
-    });
+      details: evaluation.details,
+      rule_version: evaluation.rule_version ?? null
+    })));
+    if (error) throw new Error(`Failed to store evaluations: ${error.message}`);
   }
   
-  // Store impacts for the trigger event only
-  if (triggerEventId) {
-    const relevantImpacts = allImpacts.filter(i => i.event_id === triggerEventId);
-    for (const impact of relevantImpacts) {
-      await supabase.from('decision_impacts').insert({
-        event_id: impact.event_id,
-        goal_rule_id: impact.goal_rule_id,
-        impact_type: impact.impact_type,
-        impact_details: impact.impact_details
-      });
-    }
-  }
+  // Store impacts for every event, not just the trigger (e.g. windows that expired since)
+  await storeImpacts(supabase, result.impacts);
+  
+  const notificationsCreated = await storeNotifications(
+    supabase,
+    detectNotifications(allRules, previous, result.evaluations, now, timeZone)
+  );
   
-  return { evaluations: allEvaluations, impacts: allImpacts };
+  return { ...result, written_rule_ids: changed.map(e => e.goal_rule_id), notifications_created: notificationsCreated };
 }
 
-// What-if simulation
+// Scheduled sweep: re-evaluate every active goal even when nothing was logged, so windows
+// expire, impacts are written and notifications are raised on time. Meant to run every
+// few minutes from a scheduler (see supabase/cron/goal-sweep.ts for a local stand-in).
+async function sweepGoals(supabase: SupabaseClient): Promise<{
+  swept_at: string;
+  evaluated: number;
+  written_rule_ids: string[];
+  notifications_created: number;
+}> {
+  const sweptAt = new Date().toISOString();
+  const { evaluations, written_rule_ids, notifications_created } = await evaluateAllGoals(supabase);
+  
+  return { swept_at: sweptAt, evaluated: evaluations.length, written_rule_ids, notifications_created };
+}
+
+// Rebuild impacts for events that occurred in [from, to]
+async function backfillImpacts(
+  supabase: SupabaseClient,
+  from: Date,
+  to: Date
+): Promise<{ from: string; to: string; impacts_written: number }> {
+  const allRules = await fetchRules(supabase);
+  const activeRules = allRules.filter(r => r.is_active);
+  const historyStart = new Date(from.getTime() - getRequiredHistoryDays(activeRules) * 24 * 60 * 60 * 1000);
+  
+  const { data: eventsData, error: eventsError } = await supabase
+    .from('normalized_events')
+    .select('*')
+    .gte('occurred_at', historyStart.toISOString())
+    .lte('occurred_at', to.toISOString())
+    .order('occurred_at', { ascending: true });
+    
+  if (eventsError) throw new Error(`Failed to fetch events: ${eventsError.message}`);
+  
+  const timeZone = await fetchTimeZone(supabase);
+  const pauses = await fetchPauses(supabase, new Date(from.getTime() - PAUSE_LOOKBACK_DAYS * 24 * 60 * 60 * 1000), timeZone);
+  const impacts = collectImpactsOverRange(allRules, (eventsData || []) as NormalizedEvent[], from, to, { timeZone, pauses });
+  const written = await storeImpacts(supabase, impacts);
+  
+  return { from: from.toISOString(), to: to.toISOString(), impacts_written: written };
+}
+
+// What-if simulation (pure: nothing is written). Events can be added, removed or moved.
 async function simulateWhatIf(
   supabase: SupabaseClient,
-  hypotheticalEvents: Omit<NormalizedEvent, 'id' | 'created_at'>[]
+  scenario: WhatIfScenario
 ): Promise<{ 
   baseline: GoalEvaluation[]; 
   simulated: GoalEvaluation[]; 
-  diff: Array<{ goal_id: string; baseline_status: string; simulated_status: string; completions_delta: number }> 
+  diff: WhatIfDiff[] 
 }> {
   const now = new Date();
   
-  // Get current state
-  const baselineResult = await evaluateAllGoals(supabase);
+  const allRules = await fetchRules(supabase);
+  const timeZone = await fetchTimeZone(supabase);
+  const pauses = await fetchPauses(supabase, new Date(now.getTime() - PAUSE_LOOKBACK_DAYS * 24 * 60 * 60 * 1000), timeZone);
+  const pausedRules = allRules.map(r => applyPauses(r, pauses, now, timeZone));
+  const windowEvents = await fetchEventsForRules(supabase, pausedRules.filter(r => r.is_active), now);
+  const trackableValues = await fetchTrackableValuesForRules(supabase, pausedRules, now);
+  
+  // Events referenced by the scenario may lie outside the window (e.g. moved into it)
+  const windowIds = new Set(windowEvents.map(e => e.id));
+  const referencedIds = [...(scenario.remove || []), ...(scenario.shift || []).map(s => s.event_id)]
+    .filter(id => !windowIds.has(id));
+  let existingEvents = windowEvents;
+  if (referencedIds.length > 0) {
+    const { data, error } = await supabase
+      .from('normalized_events')
+      .select('*')
+      .in('id', referencedIds);
+    if (error) throw new Error(`Failed to fetch events: ${error.message}`);
+    existingEvents = [...windowEvents, ...((data || []) as NormalizedEvent[])];
+  }
   
-  // Fetch existing events
-  const { data: rulesData } = await supabase
-    .from('goal_rules')
-    .select('*')
-    .eq('is_active', true);
-    
-  const rules = (rulesData || []) as GoalRule[];
-  const maxDays = Math.max(...rules.map(r => r.rolling_window_days || 7), 7);
-  const windowStart = new Date(now.getTime() - maxDays * 24 * 60 * 60 * 1000);
+  const { events: simulatedEvents, unknownEventIds } = applyWhatIfScenario(existingEvents, scenario);
+  if (unknownEventIds.length > 0) {
+    throw new Error(`Unknown event IDs: ${unknownEventIds.join(', ')}`);
+  }
+  
+  // Referenced out-of-window events stay out of the baseline, as in a normal evaluation
+  const baseline = evaluateGoals(allRules, windowEvents, now, { trackableValues, timeZone, pauses }).evaluations;
+  const simulated = evaluateGoals(allRules, simulatedEvents, now, { trackableValues, timeZone, pauses }).evaluations;
+  
+  return { baseline, simulated, diff: diffEvaluations(baseline, simulated) };
+}
+
+// Best time to do the next event of every open window
+async function planNextActions(
+  supabase: SupabaseClient
+): Promise<{ plans: ActionPlan[]; rule_names: Record<string, string> }> {
+  const now = new Date();
+  
+  const allRules = await fetchRules(supabase);
+  const timeZone = await fetchTimeZone(supabase);
+  const pauses = await fetchPauses(supabase, new Date(now.getTime() - PAUSE_LOOKBACK_DAYS * 24 * 60 * 60 * 1000), timeZone);
+  const pausedRules = allRules.map(r => applyPauses(r, pauses, now, timeZone));
+  const events = await fetchEventsForRules(supabase, pausedRules.filter(r => r.is_active), now);
+  const trackableValues = await fetchTrackableValuesForRules(supabase, pausedRules, now);
   
-  const { data: existingEventsData } = await supabase
+  return {
+    plans: planActions(allRules, events, now, { trackableValues, timeZone, pauses }),
+    rule_names: Object.fromEntries(allRules.map(r => [r.id, r.name]))
+  };
+}
+
+// Which of the given event names occur in normalized_events, matched case-insensitively
+async function fetchKnownEventNames(supabase: SupabaseClient, names: string[]): Promise<string[]> {
+  const known: string[] = [];
+  for (const name of names) {
+    const { count, error } = await supabase
+      .from('normalized_events')
+      .select('id', { count: 'exact', head: true })
+      .ilike('event_name', name.replace(/[\\%_]/g, '\\$&'));
+    if (error) throw new Error(`Failed to check events: ${error.message}`);
+    if (count) known.push(name);
+  }
+  return known;
+}
+
+// Type-check and lint the stored rules, or draft rules sent before saving them. Drafts
+// are checked against the stored rules, replacing any with the same ID.
+async function validateRules(
+  supabase: SupabaseClient,
+  drafts?: GoalRule[]
+): Promise<{ valid: boolean; lints: RuleLint[] }> {
+  const storedRules = await fetchRules(supabase);
+  const targets = drafts?.length
+    ? drafts.map((rule, i) => ({ ...rule, id: rule.id || `draft-${i + 1}` }))
+    : storedRules;
+  const targetIds = new Set(targets.map(r => r.id));
+  const allRules = [...storedRules.filter(r => !targetIds.has(r.id)), ...targets];
+  
+  const knownEventNames = await fetchKnownEventNames(supabase, getLintEventNames(targets));
+  const lints = lintRules(targets, allRules, knownEventNames);
+  
+  return { valid: !lints.some(l => l.severity === 'error'), lints };
+}
+
+// Replay a saved rule, or a draft before saving it, over past events (pure: nothing is
+// written). A draft replaces the stored rule with the same ID, so edits can be compared.
+async function backtestGoalRule(
+  supabase: SupabaseClient,
+  rule: GoalRule,
+  from: Date,
+  to: Date
+): Promise<BacktestResult> {
+  const draft = { ...rule, id: rule.id || 'backtest' };
+  const configErrors = validateRuleConfig(draft);
+  if (configErrors.length > 0) throw new Error(`Invalid rule: ${configErrors.join('; ')}`);
+  
+  const storedRules = await fetchRules(supabase);
+  const allRules = [...storedRules.filter(r => r.id !== draft.id), draft];
+  const rulesById = new Map(allRules.map(r => [r.id, r]));
+  const { ordered, cyclic } = orderRulesByDependencies([draft], rulesById);
+  if (cyclic.has(draft.id)) throw new Error(`Dependency cycle: ${cyclic.get(draft.id)!.join(' → ')}`);
+  
+  // The rule and everything it depends on need their own history before `from`, stretched
+  // back over any days paused then
+  const timeZone = await fetchTimeZone(supabase);
+  const pauses = await fetchPauses(supabase, new Date(from.getTime() - PAUSE_LOOKBACK_DAYS * 24 * 60 * 60 * 1000), timeZone);
+  const pausedRules = ordered.map(r => applyPauses(r, pauses, from, timeZone));
+  const historyStart = new Date(from.getTime() - getRequiredHistoryDays(pausedRules) * 24 * 60 * 60 * 1000);
+  const { data: eventsData, error: eventsError } = await supabase
     .from('normalized_events')
     .select('*')
-    .gte('occurred_at', windowStart.toISOString())
+    .gte('occurred_at', historyStart.toISOString())
+    .lte('occurred_at', to.toISOString())
     .order('occurred_at', { ascending: true });
-  
-  const existingEvents = (existingEventsData || []) as NormalizedEvent[];
-  
-  // Add hypothetical events
-  const simulatedEvents: NormalizedEvent[] = [
-    ...existingEvents,
-    ...hypotheticalEvents.map((e, i) => ({
-      ...e,
-      id: `hypothetical-${i}`,
-      created_at: now.toISOString()
-    } as NormalizedEvent))
-  ].sort((a, b) => new Date(a.occurred_at).getTime() - new Date(b.occurred_at).getTime());
-  
-  // Re-evaluate with hypothetical events
-  const simulatedEvaluations: GoalEvaluation[] = [];
-  for (const rule of rules) {
-    let result: { evaluation: Partial<GoalEvaluation>; impacts: DecisionImpact[] };
-    
-    switch (rule.rule_type) {
-      case 'sequence':
-        result = evaluateSequenceRule(rule, simulatedEvents, now);
-        break;
-      case 'count':
-        result = evaluateCountRule(rule, simulatedEvents, now);
-        break;
-      default:
-        result = { evaluation: { status: 'off_track', completions_in_window: 0, pending_windows: [] }, impacts: [] };
-    }
     
-    simulatedEvaluations.push({
-      goal_rule_id: rule.id,
-      status: result.evaluation.status || 'off_track',
-      completions_in_window: result.evaluation.completions_in_window || 0,
-      required_in_window: rule.required_completions || 1,
-      pending_windows: result.evaluation.pending_windows || [],
-      last_success_at: result.evaluation.last_success_at || null,
-      last_fail_at: result.evaluation.last_fail_at || null,
-      last_fail_reason: result.evaluation.last_fail_reason || null,
-      confidence: 1,
-      details: {}
-    });
-  }
+  if (eventsError) throw new Error(`Failed to fetch events: ${eventsError.message}`);
   
-  // Calculate diff
-  const diff = simulatedEvaluations.map(sim => {
-    const baseline = baselineResult.evaluations.find(b => b.goal_rule_id === sim.goal_rule_id);
-    return {
-      goal_id: sim.goal_rule_id,
-      baseline_status: baseline?.status || 'unknown',
-      simulated_status: sim.status,
-      completions_delta: sim.completions_in_window - (baseline?.completions_in_window || 0)
-    };
-  });
+  const trackableValues = await fetchTrackableValuesForRules(supabase, ordered, to, historyStart);
   
-  return {
-    baseline: baselineResult.evaluations,
-    simulated: simulatedEvaluations,
-    diff
-  };
+  return backtestRule(draft, allRules, (eventsData || []) as NormalizedEvent[], from, to, { trackableValues, timeZone, pauses });
+}
+
+// Explain a stored rule's current status (pure: nothing is written)
+async function explainGoalRule(supabase: SupabaseClient, ruleId: string): Promise<RuleExplanation> {
+  const now = new Date();
+  const allRules = await fetchRules(supabase);
+  const rule = allRules.find(r => r.id === ruleId);
+  if (!rule) throw new Error(`Unknown rule: ${ruleId}`);
+  
+  // Read the same history evaluate does, so the explained status matches the stored one
+  const rulesById = new Map(allRules.map(r => [r.id, r]));
+  const { ordered } = orderRulesByDependencies([rule], rulesById);
+  const timeZone = await fetchTimeZone(supabase);
+  const pauses = await fetchPauses(supabase, new Date(now.getTime() - PAUSE_LOOKBACK_DAYS * 24 * 60 * 60 * 1000), timeZone);
+  const pausedRules = ordered.map(r => applyPauses(r, pauses, now, timeZone));
+  const events = await fetchEventsForRules(supabase, pausedRules, now, FORECAST_HISTORY_DAYS);
+  const trackableValues = await fetchTrackableValuesForRules(supabase, pausedRules, now);
+  
+  return explainRule(rule, allRules, events, now, { trackableValues, timeZone, history: events, pauses });
 }
 
 Deno.serve(async (req) => {
@@ -492,7 +469,7 @@ Deno.serve(async (req) => {
       Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
     );
 
-    const { action, triggerEventId, hypotheticalEvents } = await req.json();
+    const { action, triggerEventId, hypotheticalEvents, removeEventIds, shiftEvents, from, to, rules, rule, ruleId, as_of } = await req.json();
     
     console.log("Goal evaluator action:", action);
 
@@ -503,13 +480,69 @@ Deno.serve(async (req) => {
         result = await evaluateAllGoals(supabase, triggerEventId);
         break;
         
+      case 'sweep':
+        result = await sweepGoals(supabase);
+        break;
+        
       case 'what_if':
-        if (!hypotheticalEvents || hypotheticalEvents.length === 0) {
-          throw new Error('hypotheticalEvents required for what_if action');
+        if (!hypotheticalEvents?.length && !removeEventIds?.length && !shiftEvents?.length) {
+          throw new Error('hypotheticalEvents, removeEventIds or shiftEvents required for what_if action');
+        }
+        result = await simulateWhatIf(supabase, {
+          add: hypotheticalEvents,
+          remove: removeEventIds,
+          shift: shiftEvents
+        });
+        break;
+        
+      case 'plan':
+        result = await planNextActions(supabase);
+        break;
+        
+      case 'validate':
+        if (rules !== undefined && !Array.isArray(rules)) {
+          throw new Error('rules must be a list of goal rules');
+        }
+        result = await validateRules(supabase, rules);
+        break;
+        
+      case 'backtest': {
+        let target = rule as GoalRule | undefined;
+        if (!target && ruleId) {
+          target = (await fetchRules(supabase)).find(r => r.id === ruleId);
+          if (!target) throw new Error(`Unknown rule: ${ruleId}`);
         }
-        result = await simulateWhatIf(supabase, hypotheticalEvents);
+        if (!target || typeof target !== 'object') throw new Error('rule or ruleId required for backtest action');
+        
+        // Defaults to the last 30 days; the range never extends past now
+        const rangeEnd = new Date(Math.min(as_of?.to ? new Date(as_of.to).getTime() : Date.now(), Date.now()));
+        const rangeStart = as_of?.from ? new Date(as_of.from) : new Date(rangeEnd.getTime() - 30 * 24 * 60 * 60 * 1000);
+        if (isNaN(rangeStart.getTime()) || isNaN(rangeEnd.getTime()) || rangeStart >= rangeEnd) {
+          throw new Error('backtest requires as_of.from < as_of.to (ISO timestamps)');
+        }
+        if (rangeEnd.getTime() - rangeStart.getTime() > MAX_BACKTEST_DAYS * 24 * 60 * 60 * 1000) {
+          throw new Error(`backtest range is limited to ${MAX_BACKTEST_DAYS} days`);
+        }
+        result = await backtestGoalRule(supabase, target, rangeStart, rangeEnd);
+        break;
+      }
+        
+      case 'explain':
+        if (!ruleId) throw new Error('ruleId required for explain action');
+        result = await explainGoalRule(supabase, ruleId);
         break;
         
+      case 'backfill_impacts': {
+        // Defaults to the last 30 days; the range never extends past now
+        const rangeEnd = new Date(Math.min(to ? new Date(to).getTime() : Date.now(), Date.now()));
+        const rangeStart = from ? new Date(from) : new Date(rangeEnd.getTime() - 30 * 24 * 60 * 60 * 1000);
+        if (isNaN(rangeStart.getTime()) || isNaN(rangeEnd.getTime()) || rangeStart >= rangeEnd) {
+          throw new Error('backfill_impacts requires from < to (ISO timestamps)');
+        }
+        result = await backfillImpacts(supabase, rangeStart, rangeEnd);
+        break;
+      }
+        
       case 'get_status': {
         // Get latest evaluations for all active goals
         const { data: rules } = await supabase
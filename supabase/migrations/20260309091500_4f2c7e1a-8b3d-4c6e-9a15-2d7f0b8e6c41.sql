@@ -0,0 +1,22 @@
+-- Per-user settings (single row while the app has no accounts)
+CREATE TABLE public.user_settings (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  timezone TEXT NOT NULL DEFAULT 'UTC',  -- IANA zone, e.g. 'Australia/Sydney'
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.user_settings ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Public read access for user_settings" ON public.user_settings FOR SELECT USING (true);
+CREATE POLICY "Public insert access for user_settings" ON public.user_settings FOR INSERT WITH CHECK (true);
+CREATE POLICY "Public update access for user_settings" ON public.user_settings FOR UPDATE USING (true);
+CREATE POLICY "Public delete access for user_settings" ON public.user_settings FOR DELETE USING (true);
+
+CREATE TRIGGER update_user_settings_updated_at
+BEFORE UPDATE ON public.user_settings
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Goal windows can align to the calendar instead of rolling back from now
+ALTER TABLE public.goal_rules
+  ADD COLUMN window_type TEXT NOT NULL DEFAULT 'rolling';  -- 'rolling', 'calendar_day', 'iso_week', 'calendar_month'
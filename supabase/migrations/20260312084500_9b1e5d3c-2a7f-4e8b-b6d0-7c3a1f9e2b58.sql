@@ -0,0 +1,10 @@
+-- Keep one impact per (event, rule, impact_type) so the evaluator can upsert them
+DELETE FROM public.decision_impacts a
+USING public.decision_impacts b
+WHERE a.event_id = b.event_id
+  AND a.goal_rule_id = b.goal_rule_id
+  AND a.impact_type = b.impact_type
+  AND (a.created_at, a.id) > (b.created_at, b.id);
+
+ALTER TABLE public.decision_impacts
+  ADD CONSTRAINT decision_impacts_event_rule_type_key UNIQUE (event_id, goal_rule_id, impact_type);
@@ -0,0 +1,7 @@
+-- Per-rule handling of low-confidence (inferred) events
+ALTER TABLE public.goal_rules
+  ADD COLUMN confidence_policy JSONB;
+
+-- Fractional confidence policies count completions by confidence
+ALTER TABLE public.goal_evaluations
+  ALTER COLUMN completions_in_window TYPE NUMERIC USING completions_in_window::numeric;
@@ -0,0 +1,80 @@
+-- Every edit to a rule's definition creates a new version, kept in goal_rule_versions, and
+-- evaluations and impacts record the version they were computed with
+ALTER TABLE public.goal_rules
+  ADD COLUMN version INTEGER NOT NULL DEFAULT 1;
+
+CREATE TABLE public.goal_rule_versions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  goal_rule_id UUID NOT NULL REFERENCES public.goal_rules(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL,
+  name TEXT NOT NULL,
+  description TEXT,
+  rule_type TEXT NOT NULL,
+  rule_config JSONB NOT NULL,
+  rolling_window_days INTEGER,
+  window_type TEXT NOT NULL,
+  required_completions INTEGER,
+  confidence_policy JSONB,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (goal_rule_id, version)
+);
+
+ALTER TABLE public.goal_rule_versions ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Public read access for goal_rule_versions" ON public.goal_rule_versions FOR SELECT USING (true);
+CREATE POLICY "Public insert access for goal_rule_versions" ON public.goal_rule_versions FOR INSERT WITH CHECK (true);
+CREATE POLICY "Public update access for goal_rule_versions" ON public.goal_rule_versions FOR UPDATE USING (true);
+CREATE POLICY "Public delete access for goal_rule_versions" ON public.goal_rule_versions FOR DELETE USING (true);
+
+-- Existing rules start at version 1
+INSERT INTO public.goal_rule_versions
+  (goal_rule_id, version, name, description, rule_type, rule_config, rolling_window_days, window_type, required_completions, confidence_policy, created_at)
+SELECT id, version, name, description, rule_type, rule_config, rolling_window_days, window_type, required_completions, confidence_policy, created_at
+FROM public.goal_rules;
+
+-- NULL for rows written before versioning
+ALTER TABLE public.goal_evaluations
+  ADD COLUMN rule_version INTEGER;
+ALTER TABLE public.decision_impacts
+  ADD COLUMN rule_version INTEGER;
+
+-- Versions are assigned here rather than by callers: new rules start at 1, and an update
+-- bumps the version only when it changes the definition (not e.g. is_active or priority)
+CREATE OR REPLACE FUNCTION public.set_goal_rule_version()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.version = 1;
+  ELSIF (NEW.name, NEW.description, NEW.rule_type, NEW.rule_config, NEW.rolling_window_days,
+         NEW.window_type, NEW.required_completions, NEW.confidence_policy)
+     IS DISTINCT FROM (OLD.name, OLD.description, OLD.rule_type, OLD.rule_config, OLD.rolling_window_days,
+         OLD.window_type, OLD.required_completions, OLD.confidence_policy) THEN
+    NEW.version = OLD.version + 1;
+  ELSE
+    NEW.version = OLD.version;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.record_goal_rule_version()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' OR NEW.version <> OLD.version THEN
+    INSERT INTO public.goal_rule_versions
+      (goal_rule_id, version, name, description, rule_type, rule_config, rolling_window_days, window_type, required_completions, confidence_policy)
+    VALUES
+      (NEW.id, NEW.version, NEW.name, NEW.description, NEW.rule_type, NEW.rule_config, NEW.rolling_window_days, NEW.window_type, NEW.required_completions, NEW.confidence_policy);
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER set_goal_rules_version
+BEFORE INSERT OR UPDATE ON public.goal_rules
+FOR EACH ROW
+EXECUTE FUNCTION public.set_goal_rule_version();
+
+CREATE TRIGGER record_goal_rules_version
+AFTER INSERT OR UPDATE ON public.goal_rules
+FOR EACH ROW
+EXECUTE FUNCTION public.record_goal_rule_version();
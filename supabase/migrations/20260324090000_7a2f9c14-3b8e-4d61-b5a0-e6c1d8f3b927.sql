@@ -0,0 +1,20 @@
+-- Days goals are left out of evaluation: a pause of one goal, of every goal (vacation
+-- mode, goal_rule_id NULL), or a single day excused for a reason
+CREATE TABLE public.goal_pauses (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  goal_rule_id UUID REFERENCES public.goal_rules(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL DEFAULT 'pause',  -- 'pause' or 'excused'
+  starts_on DATE NOT NULL,             -- in the user's time zone
+  ends_on DATE NOT NULL,               -- inclusive
+  reason TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT goal_pauses_range_check CHECK (starts_on <= ends_on)
+);
+
+CREATE INDEX idx_goal_pauses_rule ON public.goal_pauses(goal_rule_id, ends_on);
+
+ALTER TABLE public.goal_pauses ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Public read access for goal_pauses" ON public.goal_pauses FOR SELECT USING (true);
+CREATE POLICY "Public insert access for goal_pauses" ON public.goal_pauses FOR INSERT WITH CHECK (true);
+CREATE POLICY "Public update access for goal_pauses" ON public.goal_pauses FOR UPDATE USING (true);
+CREATE POLICY "Public delete access for goal_pauses" ON public.goal_pauses FOR DELETE USING (true);
@@ -0,0 +1,21 @@
+-- In-app notifications raised by goal evaluations and sweeps: a goal turning at risk or a
+-- pending window about to close. dedupe_key keeps repeated sweeps from raising one twice.
+CREATE TABLE public.goal_notifications (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  goal_rule_id UUID NOT NULL REFERENCES public.goal_rules(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL,  -- 'at_risk' or 'window_closing'
+  title TEXT NOT NULL,
+  body TEXT,
+  details JSONB DEFAULT '{}'::jsonb,
+  dedupe_key TEXT NOT NULL UNIQUE,
+  read_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_goal_notifications_created ON public.goal_notifications(created_at DESC);
+
+ALTER TABLE public.goal_notifications ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Public read access for goal_notifications" ON public.goal_notifications FOR SELECT USING (true);
+CREATE POLICY "Public insert access for goal_notifications" ON public.goal_notifications FOR INSERT WITH CHECK (true);
+CREATE POLICY "Public update access for goal_notifications" ON public.goal_notifications FOR UPDATE USING (true);
+CREATE POLICY "Public delete access for goal_notifications" ON public.goal_notifications FOR DELETE USING (true);